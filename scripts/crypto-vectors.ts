@@ -0,0 +1,38 @@
+import { webcrypto } from 'crypto';
+import { CryptoProvider } from '../src/utils/cryptoProvider';
+import { runKnownAnswerTests } from '../src/utils/cryptoProviders/knownAnswers';
+import { createLibsodiumProvider } from '../src/utils/cryptoProviders/libsodium';
+import { tweetnaclProvider } from '../src/utils/cryptoProviders/tweetnacl';
+import { createWebCryptoProvider } from '../src/utils/cryptoProviders/webCrypto';
+
+/**
+ * Run the known-answer vectors against every crypto provider under Node.
+ * Exits non-zero if any provider disagrees with the expected output.
+ */
+async function main() {
+  const providers: CryptoProvider[] = [
+    tweetnaclProvider,
+    await createLibsodiumProvider(),
+    createWebCryptoProvider(webcrypto as unknown as Crypto),
+  ];
+
+  let failures = 0;
+  for (const provider of providers) {
+    console.log(`${provider.name}:`);
+    for (const result of await runKnownAnswerTests(provider)) {
+      console.log(`  ${result.passed ? 'ok  ' : 'FAIL'} ${result.name}${result.detail ? ` (${result.detail})` : ''}`);
+      if (!result.passed) failures++;
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} known-answer check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All providers produce identical output');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
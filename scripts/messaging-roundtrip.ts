@@ -0,0 +1,208 @@
+import type { LocalDevice } from '../src/services/devices';
+import { createInMemoryMessageRepository } from '../src/services/messageRepositories/inMemory';
+import { createMessagingService, MessagingService, MessagingStorage } from '../src/services/messaging';
+import { createConversationSessions, EncryptedItemStore } from '../src/services/ratchetSessions';
+import { DecryptedMessageItem, IdentityKeys, User } from '../src/types';
+import { generateIdentityKeypair } from '../src/utils/identityKeys';
+import { signDeviceCertificate } from '../src/utils/signatures';
+
+/**
+ * Send and receive between two messaging services under Node, sharing the
+ * in-memory repository, each with its own in-memory device storage.
+ * Exits non-zero if any check fails.
+ */
+
+const CONVERSATION_ID = 'conversation-1';
+
+// Repository notifications are delivered on later ticks, like realtime events
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+function createMemoryStorage(): MessagingStorage {
+  const items = new Map<string, string>();
+  const store: EncryptedItemStore = {
+    readEncryptedItem: async <T>(userId: string, name: string) => {
+      const stored = items.get(`${userId}:${name}`);
+      return stored === undefined ? null : (JSON.parse(stored) as T);
+    },
+    writeEncryptedItem: async (userId, name, value) => {
+      items.set(`${userId}:${name}`, JSON.stringify(value));
+    },
+    removeEncryptedItem: async (userId, name) => {
+      items.delete(`${userId}:${name}`);
+    },
+  };
+  // Trust on first use, without the change review of services/trustStore
+  const pinned = new Map<string, IdentityKeys>();
+  const hidden = new Map<string, Set<string>>();
+  return {
+    // No one-time or signed prekeys are published, so sessions use static-static agreement
+    sessions: createConversationSessions(store, {
+      getSignedPrekey: async () => null,
+      getOneTimePrekey: async () => null,
+      consumeOneTimePrekey: async () => undefined,
+    }),
+    checkContactIdentity: async (userId, contactId, current) => {
+      const key = `${userId}:${contactId}`;
+      if (!pinned.has(key)) pinned.set(key, current);
+      return { status: 'trusted', keys: pinned.get(key)!, changes: [] };
+    },
+    acceptContactIdentity: async (userId, contactId, keys) => {
+      pinned.set(`${userId}:${contactId}`, keys);
+    },
+    getPrivacySettings: async () => ({ readReceipts: true, typingIndicators: true, onlineStatus: true }),
+    getHiddenMessageIds: async (userId, conversationId) => hidden.get(`${userId}:${conversationId}`) || new Set(),
+    hideMessages: async (userId, conversationId, messageIds) => {
+      const next = new Set([...(hidden.get(`${userId}:${conversationId}`) || []), ...messageIds]);
+      hidden.set(`${userId}:${conversationId}`, next);
+      return next;
+    },
+  };
+}
+
+async function main() {
+  const repository = createInMemoryMessageRepository();
+
+  // An account with one certified device, published in the repository; older builds register none
+  const register = (id: string, withDevice = true) => {
+    const identity = generateIdentityKeypair();
+    const device: LocalDevice | null = withDevice
+      ? { id: `device-${id}`, name: id, keypair: generateIdentityKeypair() }
+      : null;
+    if (device) {
+      const published = {
+        id: device.id,
+        user_id: id,
+        public_key: device.keypair.publicKey,
+        signing_public_key: device.keypair.signingPublicKey!,
+      };
+      repository.devices.set(device.id, {
+        ...published,
+        name: id,
+        signature: signDeviceCertificate(identity.signingPrivateKey!, published),
+        created_at: new Date().toISOString(),
+      });
+    }
+    repository.users.set(id, { public_key: identity.publicKey, signing_public_key: identity.signingPublicKey });
+    const user: User = {
+      id,
+      auth_user_id: id,
+      username: id,
+      public_key: identity.publicKey,
+      signing_public_key: identity.signingPublicKey,
+      created_at: new Date().toISOString(),
+    };
+    return { user, identity, device };
+  };
+  const alice = register('alice');
+  const bob = register('bob');
+
+  const connect = (me: typeof alice, other: typeof alice, conversationId = CONVERSATION_ID): MessagingService =>
+    createMessagingService({
+      repository,
+      storage: createMemoryStorage(),
+      conversationId,
+      currentUser: me.user,
+      otherUser: other.user,
+      getKeypair: () => me.identity,
+      getDevice: async () => me.device,
+    });
+  const aliceService = connect(alice, bob);
+  const bobService = connect(bob, alice);
+
+  const received: Record<string, DecryptedMessageItem[]> = { alice: [], bob: [] };
+  const changed: Record<string, DecryptedMessageItem[]> = { alice: [], bob: [] };
+  const unsubscribe = [
+    aliceService.subscribe({
+      onMessage: (message) => received.alice.push(message),
+      onReceipt: () => undefined,
+      onChange: (message) => changed.alice.push(message),
+    }),
+    bobService.subscribe({
+      onMessage: (message) => received.bob.push(message),
+      onReceipt: () => undefined,
+      onChange: (message) => changed.bob.push(message),
+    }),
+  ];
+
+  let failures = 0;
+  const check = (name: string, passed: boolean, detail?: string) => {
+    console.log(`  ${passed ? 'ok  ' : 'FAIL'} ${name}${!passed && detail ? ` (${detail})` : ''}`);
+    if (!passed) failures++;
+  };
+
+  const hello = await aliceService.sendText('Hello Bob');
+  await settle();
+  const bobCopy = received.bob.find((message) => message.id === hello.id);
+  check('recipient decrypts a new message', bobCopy?.decryptedText === 'Hello Bob', bobCopy?.decryptedText);
+  check('recipient verifies the signature', !!bobCopy && !bobCopy.unauthenticated);
+  check('recipient acknowledges delivery', !!repository.messages.find((message) => message.id === hello.id)?.delivered);
+
+  const reply = await bobService.sendText('Hi Alice', bobCopy);
+  await settle();
+  const aliceCopy = received.alice.find((message) => message.id === reply.id);
+  check('reply decrypts on the other side', aliceCopy?.decryptedText === 'Hi Alice', aliceCopy?.decryptedText);
+  check('reply quotes the original', aliceCopy?.replyTo?.id === hello.id && aliceCopy.replyTo.excerpt === 'Hello Bob');
+  const rejected = await bobService.sendText('Nope', { ...bobCopy!, decryptError: true }).then(
+    () => false,
+    () => true
+  );
+  check('reply to an unreadable message is rejected', rejected);
+
+  const history = await aliceService.fetchHistory();
+  check(
+    'sender reads its own history back',
+    history.messages.map((message) => message.decryptedText).join('|') === 'Hello Bob|Hi Alice',
+    history.messages.map((message) => message.decryptedText).join('|')
+  );
+
+  await aliceService.editText(history.messages[0], 'Hello Bob!');
+  await settle();
+  const edited = changed.bob.find((message) => message.id === hello.id);
+  check('edit reaches the recipient', edited?.decryptedText === 'Hello Bob!', edited?.decryptedText);
+  check('edited version verifies', !!edited && !edited.unauthenticated);
+
+  await aliceService.deleteForEveryone(history.messages[0]);
+  await settle();
+  const tombstone = changed.bob.find((message) => message.id === hello.id && message.deleted_at);
+  check('deletion reaches the recipient as a tombstone', tombstone?.decryptedText === '');
+
+  const photo = await aliceService.sendMedia({
+    source: 'file:///photo.jpg',
+    type: 'image',
+    mime: 'image/jpeg',
+    padding: 'padme',
+  });
+  await settle();
+  const photoPath = received.bob.find((message) => message.id === photo.id)?.attachment?.path;
+  const inGallery = () => repository.galleryItems.some((item) => item.file_path === photoPath);
+  check('attachment reaches the recipient and the shared gallery', !!photoPath && inGallery());
+  await aliceService.deleteForEveryone(await aliceService.decryptMessage(photo));
+  check('gallery item goes with a message deleted for everyone', !inGallery() && !repository.uploads.has(photoPath!));
+
+  // A message altered in transit no longer matches its signature
+  const forged = { ...repository.messages.find((message) => message.id === reply.id)! };
+  forged.metadata = { ...forged.metadata, forwarded: true };
+  check('tampered message is flagged', !!(await aliceService.decryptMessage(forged)).unauthenticated);
+
+  // A contact without devices gets an account-level copy, and can answer the same way
+  const carol = register('carol', false);
+  const aliceToCarol = connect(alice, carol, 'conversation-2');
+  const carolService = connect(carol, alice, 'conversation-2');
+  const toCarol = await aliceToCarol.sendText('Hello Carol');
+  const carolCopy = await carolService.decryptMessage(toCarol);
+  check('contact without devices decrypts', carolCopy.decryptedText === 'Hello Carol', carolCopy.decryptedText);
+  check('sender keeps its own copy', (await aliceToCarol.fetchHistory()).messages[0]?.decryptedText === 'Hello Carol');
+
+  unsubscribe.forEach((stop) => stop());
+
+  if (failures > 0) {
+    console.error(`${failures} messaging check(s) failed`);
+    process.exit(1);
+  }
+  console.log('Messages round-trip between services');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTheme } from './ThemeProvider';
+
+interface JumpToDateModalProps {
+  visible: boolean;
+  // Start of the chosen day, in local time
+  onJump: (day: Date) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Parse a YYYY-MM-DD date as the start of that day in local time
+ */
+function parseDay(text: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  // Rejects dates like 2025-02-31 that Date would roll over
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// Asks for a day to jump to in the chat history
+export default function JumpToDateModal({ visible, onJump, onCancel }: JumpToDateModalProps) {
+  const { colors } = useTheme();
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+
+  const close = () => {
+    setText('');
+    setError('');
+    onCancel();
+  };
+
+  const jump = () => {
+    const day = parseDay(text);
+    if (!day) {
+      setError('Enter a date as YYYY-MM-DD.');
+      return;
+    }
+    setText('');
+    setError('');
+    onJump(day);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={close}>
+      <View style={{ flex: 1, backgroundColor: '#000a', justifyContent: 'center', alignItems: 'center' }}>
+        <View
+          style={{
+            backgroundColor: colors.background,
+            padding: 24,
+            borderRadius: 16,
+            borderWidth: 1,
+            borderColor: colors.border,
+            width: 320,
+          }}
+        >
+          <Text style={{ color: colors.text, fontSize: 18, fontWeight: 'bold', marginBottom: 8 }}>Jump to Date</Text>
+          <Text style={{ color: colors.textSecondary, fontSize: 14, marginBottom: 16 }}>
+            Show the conversation from the start of this day.
+          </Text>
+          {error ? <Text style={{ color: colors.error, marginBottom: 8 }}>{error}</Text> : null}
+          <TextInput
+            autoFocus
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textSecondary}
+            value={text}
+            onChangeText={setText}
+            onSubmitEditing={jump}
+            keyboardType="numbers-and-punctuation"
+            style={{
+              backgroundColor: colors.surface,
+              color: colors.text,
+              paddingHorizontal: 16,
+              paddingVertical: 12,
+              borderRadius: 12,
+              borderWidth: 1,
+              borderColor: colors.border,
+              fontSize: 16,
+              marginBottom: 16,
+            }}
+          />
+          <View style={{ flexDirection: 'row', justifyContent: 'flex-end' }}>
+            <TouchableOpacity onPress={close} style={{ paddingVertical: 10, paddingHorizontal: 16 }}>
+              <Text style={{ color: colors.textSecondary, fontWeight: '600' }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={jump}
+              style={{ backgroundColor: colors.primary, paddingVertical: 10, paddingHorizontal: 16, borderRadius: 10 }}
+            >
+              <Text style={{ color: '#fff', fontWeight: 'bold' }}>Jump</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTheme } from './ThemeProvider';
+
+interface PasswordPromptModalProps {
+  visible: boolean;
+  title: string;
+  message: string;
+  confirmLabel: string;
+  // Runs the sensitive action with the password; a thrown error is shown and the prompt stays open
+  onConfirm: (password: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Asks for the account password again before a sensitive action. The password is cleared once used.
+export default function PasswordPromptModal({
+  visible,
+  title,
+  message,
+  confirmLabel,
+  onConfirm,
+  onCancel,
+}: PasswordPromptModalProps) {
+  const { colors } = useTheme();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const close = () => {
+    setPassword('');
+    setError('');
+    onCancel();
+  };
+
+  const confirm = async () => {
+    if (!password) {
+      setError('Enter your password to continue.');
+      return;
+    }
+    setBusy(true);
+    setError('');
+    try {
+      await onConfirm(password);
+      setPassword('');
+    } catch (err: any) {
+      setError(err?.message?.includes('Wrong password') ? 'Incorrect password. Please try again.' : err?.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={close}>
+      <View style={{ flex: 1, backgroundColor: '#000a', justifyContent: 'center', alignItems: 'center' }}>
+        <View
+          style={{
+            backgroundColor: colors.background,
+            padding: 24,
+            borderRadius: 16,
+            borderWidth: 1,
+            borderColor: colors.border,
+            width: 320,
+          }}
+        >
+          <Text style={{ color: colors.text, fontSize: 18, fontWeight: 'bold', marginBottom: 8 }}>{title}</Text>
+          <Text style={{ color: colors.textSecondary, fontSize: 14, marginBottom: 16 }}>{message}</Text>
+          {error ? <Text style={{ color: colors.error, marginBottom: 8 }}>{error}</Text> : null}
+          <TextInput
+            secureTextEntry
+            autoFocus
+            placeholder="Password"
+            placeholderTextColor={colors.textSecondary}
+            value={password}
+            onChangeText={setPassword}
+            editable={!busy}
+            style={{
+              backgroundColor: colors.surface,
+              color: colors.text,
+              paddingHorizontal: 16,
+              paddingVertical: 12,
+              borderRadius: 12,
+              borderWidth: 1,
+              borderColor: colors.border,
+              fontSize: 16,
+              marginBottom: 16,
+            }}
+          />
+          <View style={{ flexDirection: 'row', justifyContent: 'flex-end' }}>
+            <TouchableOpacity onPress={close} disabled={busy} style={{ paddingVertical: 10, paddingHorizontal: 16 }}>
+              <Text style={{ color: colors.textSecondary, fontWeight: '600' }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={confirm}
+              disabled={busy}
+              style={{ backgroundColor: colors.primary, paddingVertical: 10, paddingHorizontal: 16, borderRadius: 10 }}
+            >
+              {busy ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={{ color: '#fff', fontWeight: 'bold' }}>{confirmLabel}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useTheme } from './ThemeProvider';
+
+interface RecoveryPhraseModalProps {
+  visible: boolean;
+  phrase: string | null;
+  onDone: () => void;
+}
+
+// Shows a newly generated recovery phrase once so the user can write it down
+export default function RecoveryPhraseModal({ visible, phrase, onDone }: RecoveryPhraseModalProps) {
+  const { colors } = useTheme();
+  const words = phrase ? phrase.split(' ') : [];
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onDone}>
+      <ScrollView
+        style={{ flex: 1, backgroundColor: colors.background }}
+        contentContainerStyle={{ paddingHorizontal: 24, paddingTop: 60, paddingBottom: 40 }}
+      >
+        <Text style={{ fontSize: 48, textAlign: 'center', marginBottom: 12 }}>📝</Text>
+        <Text style={{ color: colors.text, fontSize: 24, fontWeight: 'bold', textAlign: 'center', marginBottom: 8 }}>
+          Your Recovery Phrase
+        </Text>
+        <Text style={{ color: colors.textSecondary, fontSize: 15, textAlign: 'center', marginBottom: 24 }}>
+          Write these words down in order and keep them somewhere safe. They are the only way to restore your
+          messages if you forget your password. Anyone with them can read your messages.
+        </Text>
+
+        <View
+          style={{
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            backgroundColor: colors.surface,
+            borderRadius: 16,
+            borderWidth: 1,
+            borderColor: colors.border,
+            padding: 12,
+          }}
+        >
+          {words.map((word, index) => (
+            <View key={index} style={{ width: '33.33%', flexDirection: 'row', paddingVertical: 8, paddingHorizontal: 4 }}>
+              <Text style={{ color: colors.textSecondary, fontSize: 13, width: 24, textAlign: 'right', marginRight: 6 }}>
+                {index + 1}.
+              </Text>
+              <Text style={{ color: colors.text, fontSize: 15, fontFamily: 'monospace' }}>{word}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Text style={{ color: colors.textSecondary, fontSize: 13, textAlign: 'center', marginTop: 16 }}>
+          This phrase will not be shown again. You can set up a new one in Settings.
+        </Text>
+
+        <TouchableOpacity
+          onPress={onDone}
+          style={{ backgroundColor: colors.primary, paddingVertical: 16, borderRadius: 16, alignItems: 'center', marginTop: 24 }}
+        >
+          <Text style={{ color: '#fff', fontWeight: 'bold', fontSize: 18 }}>I've Written It Down</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </Modal>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import QRCode from 'react-native-qrcode-svg';
+import { SafetyNumber } from '../types';
+import { compareScannedSafetyNumber } from '../utils/safetyNumber';
+import { useTheme } from './ThemeProvider';
+
+interface SafetyNumberModalProps {
+  visible: boolean;
+  contactName: string;
+  safetyNumber: SafetyNumber | null;
+  verified: boolean;
+  onVerify: () => void;
+  onClearVerification: () => void;
+  onClose: () => void;
+}
+
+// Shows the safety number and QR code, and scans the contact's code to verify them
+export default function SafetyNumberModal({
+  visible,
+  contactName,
+  safetyNumber,
+  verified,
+  onVerify,
+  onClearVerification,
+  onClose,
+}: SafetyNumberModalProps) {
+  const { colors } = useTheme();
+  const [scanning, setScanning] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+
+  useEffect(() => {
+    if (!visible) setScanning(false);
+  }, [visible]);
+
+  const startScanning = async () => {
+    const status = permission?.granted ? permission : await requestPermission();
+    if (!status.granted) {
+      Alert.alert('Permission Required', 'Please grant camera permission to scan the code.');
+      return;
+    }
+    setScanning(true);
+  };
+
+  const handleScanned = ({ data }: { data: string }) => {
+    if (!scanning || !safetyNumber) return;
+    setScanning(false);
+    const result = compareScannedSafetyNumber(safetyNumber, data);
+    if (result === 'match') {
+      onVerify();
+      Alert.alert('✅ Verified', `The safety number matches. ${contactName} is now marked as verified.`);
+    } else if (result === 'mismatch') {
+      Alert.alert(
+        '⚠️ Safety Numbers Differ',
+        `The scanned code does not match. Either you scanned a different conversation or someone may be intercepting your messages with ${contactName}.`
+      );
+    } else {
+      Alert.alert('Invalid Code', 'That QR code is not a safety number.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: colors.background, paddingTop: 50 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: 20, marginBottom: 16 }}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={{ color: colors.primary, fontSize: 28 }}>×</Text>
+          </TouchableOpacity>
+          <Text style={{ color: colors.text, fontSize: 18, fontWeight: '700', marginLeft: 16 }}>
+            Verify {contactName}
+          </Text>
+        </View>
+
+        {!safetyNumber ? (
+          <ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 40 }} />
+        ) : (
+          <ScrollView contentContainerStyle={{ alignItems: 'center', paddingHorizontal: 24, paddingBottom: 40 }}>
+            {scanning ? (
+              <CameraView
+                style={{ width: 260, height: 260, borderRadius: 16, overflow: 'hidden' }}
+                facing="back"
+                barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                onBarcodeScanned={handleScanned}
+              />
+            ) : (
+              <View style={{ padding: 16, backgroundColor: '#ffffff', borderRadius: 16 }}>
+                <QRCode value={safetyNumber.qrPayload} size={228} />
+              </View>
+            )}
+
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', marginTop: 24, width: 280 }}>
+              {safetyNumber.blocks.map((block, index) => (
+                <Text
+                  key={index}
+                  style={{
+                    width: '25%',
+                    textAlign: 'center',
+                    color: colors.text,
+                    fontSize: 18,
+                    fontFamily: 'monospace',
+                    marginVertical: 6,
+                  }}
+                >
+                  {block}
+                </Text>
+              ))}
+            </View>
+
+            <Text style={{ color: colors.textSecondary, fontSize: 13, textAlign: 'center', marginTop: 16 }}>
+              Scan the code on {contactName}'s device, or compare the numbers above with them in person or over a
+              trusted call. They change if either of you gets new keys.
+            </Text>
+
+            <Text style={{ color: verified ? colors.success : colors.textSecondary, fontSize: 14, marginTop: 20 }}>
+              {verified ? '✅ Verified' : 'Not verified'}
+            </Text>
+
+            <TouchableOpacity
+              onPress={scanning ? () => setScanning(false) : startScanning}
+              style={{
+                marginTop: 20,
+                paddingVertical: 12,
+                paddingHorizontal: 24,
+                borderRadius: 12,
+                backgroundColor: colors.primary,
+              }}
+            >
+              <Text style={{ color: '#ffffff', fontWeight: '600' }}>{scanning ? 'Cancel Scan' : 'Scan Code'}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={verified ? onClearVerification : onVerify}
+              style={{ marginTop: 12, paddingVertical: 12, paddingHorizontal: 24 }}
+            >
+              <Text style={{ color: verified ? colors.error : colors.primary, fontWeight: '600' }}>
+                {verified ? 'Clear Verification' : 'Mark as Verified'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,37 @@
+import React, { useRef } from 'react';
+import { Text, View } from 'react-native';
+import ReanimatedSwipeable, { SwipeableMethods } from 'react-native-gesture-handler/ReanimatedSwipeable';
+import { useTheme } from './ThemeProvider';
+
+interface SwipeToReplyProps {
+  enabled: boolean;
+  onReply: () => void;
+  children: React.ReactNode;
+}
+
+// Swiping the row to the right starts a reply, then springs back
+export default function SwipeToReply({ enabled, onReply, children }: SwipeToReplyProps) {
+  const { colors } = useTheme();
+  const swipeable = useRef<SwipeableMethods>(null);
+
+  return (
+    <ReanimatedSwipeable
+      ref={swipeable}
+      enabled={enabled}
+      friction={2}
+      leftThreshold={64}
+      overshootLeft={false}
+      renderLeftActions={() => (
+        <View style={{ justifyContent: 'center', paddingLeft: 16 }}>
+          <Text style={{ color: colors.primary, fontSize: 20 }}>↩</Text>
+        </View>
+      )}
+      onSwipeableWillOpen={() => {
+        onReply();
+        swipeable.current?.close();
+      }}
+    >
+      {children}
+    </ReanimatedSwipeable>
+  );
+}
@@ -0,0 +1,16 @@
+import React from 'react';
+import { StyleProp, ViewStyle } from 'react-native';
+import { useVideoPlayer, VideoView } from 'expo-video';
+
+interface VideoPlayerProps {
+  uri: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Plays decrypted media from an object URL (web) or a local file URI (mobile)
+export default function VideoPlayer({ uri, style }: VideoPlayerProps) {
+  const player = useVideoPlayer(uri, (p) => {
+    p.play();
+  });
+  return <VideoView player={player} style={style} nativeControls contentFit="contain" />;
+}
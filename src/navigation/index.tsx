@@ -1,13 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { View, ActivityIndicator, Text, TextInput, TouchableOpacity } from 'react-native';
+import { View, ActivityIndicator, Alert, Text, TextInput, TouchableOpacity } from 'react-native';
 import { useAuth } from '../hooks/useAuth';
 import { initCrypto } from '../utils/crypto';
-import { removeKeypairForUser } from '../utils/crypto';
+import { removeKeypairForUser, restoreKeypairWithRecoveryPhrase } from '../utils/crypto';
+import { isValidRecoveryPhrase } from '../utils/recoveryPhrase';
 import { supabase } from '../services/supabase';
-import { setSessionPassword, clearSessionPassword } from '../services/sessionStore';
+import { clearLocalState } from '../services/localStore';
+import {
+  getUnlockedKeypair,
+  isKeyringUnlocked,
+  lockKeyring,
+  onKeyringLocked,
+  reloadKeyring,
+  setUnlockedKeys,
+  unlockKeyring,
+} from '../services/keyring';
+import { DEVICE_REVOKED_MESSAGE, setUpDevice } from '../services/devices';
 
 // Screens
 import LoginScreen from '../screens/LoginScreen';
@@ -16,8 +27,11 @@ import KeyGenerationScreen from '../screens/KeyGenerationScreen';
 import ChatListScreen from '../screens/ChatListScreen';
 import ChatScreen from '../screens/ChatScreen';
 import GalleryScreen from '../screens/GalleryScreen';
+import SettingsScreen from '../screens/SettingsScreen';
+import ChangePasswordScreen from '../screens/ChangePasswordScreen';
+import DevicesScreen from '../screens/DevicesScreen';
 
-import { Conversation, User } from '../types';
+import { Conversation, Keypair, User } from '../types';
 
 type RootStackParamList = {
   Login: undefined;
@@ -25,11 +39,14 @@ type RootStackParamList = {
   KeyGeneration: { userId: string; username: string; password: string };
   MainTabs: undefined;
   Chat: { conversation: Conversation; otherUser: User };
+  ChangePassword: undefined;
+  Devices: undefined;
 };
 
 type MainTabsParamList = {
   ChatList: undefined;
   Gallery: undefined;
+  Settings: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -39,7 +56,8 @@ export default function Navigation() {
   const { session, user, loading, signUp, signIn, signOut, refetchUser } = useAuth();
   const [hasKeys, setHasKeys] = useState<boolean | null>(null);
   const [authScreen, setAuthScreen] = useState<'login' | 'signup'>('login');
-  const [currentPassword, setCurrentPassword] = useState<string>(''); // Store password temporarily for key loading
+  // Keyring unlock started at sign-in; the password is not kept after it
+  const pendingUnlock = useRef<Promise<void> | null>(null);
   const [newUserData, setNewUserData] = useState<{
     userId: string;
     username: string;
@@ -50,6 +68,9 @@ export default function Navigation() {
   const [passwordRetryError, setPasswordRetryError] = useState<string>('');
   const [retryPassword, setRetryPassword] = useState<string>('');
   const [retryAttempts, setRetryAttempts] = useState<number>(0);
+  // Restoring from the recovery phrase (forgotten key password); does not count towards retry attempts
+  const [restoringWithPhrase, setRestoringWithPhrase] = useState(false);
+  const [recoveryPhraseInput, setRecoveryPhraseInput] = useState<string>('');
 
   useEffect(() => {
     initCrypto();
@@ -57,21 +78,40 @@ export default function Navigation() {
     fetchOtherUser();
   }, [user]);
 
+  // Ask for the password again when the keyring locks (idle timeout or Lock Now)
+  useEffect(
+    () =>
+      onKeyringLocked((reason) => {
+        if (reason === 'signOut') return;
+        setHasKeys(null);
+        setPasswordRetryError(reason === 'idle' ? 'Your keys were locked after a period of inactivity.' : '');
+        setShowPasswordRetry(true);
+      }),
+    []
+  );
+
   const checkForKeys = async () => {
     try {
       if (!user) {
         setHasKeys(false);
         return;
       }
-      // If we have the password, try DB-first load
-      if (currentPassword) {
-        const keypair = await import('../utils/crypto').then(m =>
-          m.getStoredKeypairForUser(user.id, currentPassword, supabase)
-        );
-        setHasKeys(!!keypair);
+      await pendingUnlock.current;
+      if (isKeyringUnlocked(user.id)) {
+        // Another device may have rotated the identity key since we unlocked
+        if (user.public_key && getUnlockedKeypair(user.id).publicKey !== user.public_key) {
+          try {
+            await reloadKeyring(user.id);
+          } catch (err) {
+            console.warn('Failed to reload keys, asking for the password again:', err);
+            lockKeyring();
+            return;
+          }
+        }
+        setHasKeys(true);
         return;
       }
-      // No password available (e.g., after reload). Check if encrypted key exists in DB.
+      // Keyring locked (e.g., after reload). Check if encrypted key exists in DB.
       const { data, error } = await supabase
         .from('users')
         .select('encrypted_private_key')
@@ -97,6 +137,31 @@ export default function Navigation() {
     }
   };
 
+  // Register this device and top up one-time prekeys consumed while we were away (best-effort)
+  const setUpThisDevice = (keypair: Keypair) => {
+    if (!user) return;
+    setUpDevice(user.id, keypair).catch((err) => {
+      console.warn('Failed to set up this device:', err);
+      if (err?.message === DEVICE_REVOKED_MESSAGE) {
+        Alert.alert('Device Revoked', 'This device was removed from your account. Sign in again to link it.');
+        handleSignOut();
+      }
+    });
+  };
+
+  // Unlock the keyring and register this device at sign-in. A revoked device is replaced: the password was just entered.
+  const registerDeviceOnLogin = async (userId: string, password: string) => {
+    try {
+      const keypair = await unlockKeyring(userId, password);
+      if (!keypair) return;
+      await setUpDevice(userId, keypair).catch((err) =>
+        err?.message === DEVICE_REVOKED_MESSAGE ? setUpDevice(userId, keypair) : Promise.reject(err)
+      );
+    } catch (err) {
+      console.warn('Failed to register this device:', err);
+    }
+  };
+
   const fetchOtherUser = async () => {
     if (!user) return;
     
@@ -144,10 +209,6 @@ export default function Navigation() {
       if (!result?.session) {
         throw new Error('Login failed. No session returned.');
       }
-      // Store password in session for key loading across all screens
-      setCurrentPassword(password);
-      setSessionPassword(password);
-      
       // If newUserData exists, set it again to trigger key generation flow
       if (!newUserData && result.session.user) {
         // Check if user profile exists
@@ -160,6 +221,15 @@ export default function Navigation() {
         if (!userData || !userData.public_key) {
           const username = result.session.user.user_metadata?.username || result.session.user.email?.split('@')[0] || 'user';
           setNewUserData({ userId: result.session.user.id, username, password });
+        } else {
+          // Unlock once here; checkForKeys waits for it instead of holding the password
+          pendingUnlock.current = registerDeviceOnLogin(userData.id, password);
+          await pendingUnlock.current;
+          // checkForKeys may have run before the unlock was started
+          if (isKeyringUnlocked(userData.id)) {
+            setHasKeys(true);
+            setShowPasswordRetry(false);
+          }
         }
       }
       // After login, navigation is handled by conditional rendering
@@ -173,10 +243,41 @@ export default function Navigation() {
     if (user) {
       await removeKeypairForUser(user.id);
     }
-    clearSessionPassword();
+    lockKeyring('signOut');
+    pendingUnlock.current = null;
     setHasKeys(false);
   };
 
+  const handleRestoreWithPhrase = async () => {
+    setPasswordRetryError('');
+    if (!user) {
+      setPasswordRetryError('No user found.');
+      return;
+    }
+    if (!isValidRecoveryPhrase(recoveryPhraseInput)) {
+      setPasswordRetryError('That is not a valid recovery phrase. Check each word and their order.');
+      return;
+    }
+    if (!retryPassword) {
+      setPasswordRetryError('Enter your current account password to protect the restored keys.');
+      return;
+    }
+    try {
+      const unlocked = await restoreKeypairWithRecoveryPhrase(user.id, recoveryPhraseInput, retryPassword, supabase);
+      setUnlockedKeys(user.id, unlocked);
+      setUpThisDevice(unlocked.keypair);
+      setHasKeys(true);
+      setShowPasswordRetry(false);
+      setRestoringWithPhrase(false);
+      setRecoveryPhraseInput('');
+      setRetryPassword('');
+      setRetryAttempts(0);
+    } catch (err: any) {
+      console.error('Error restoring keys with recovery phrase:', err);
+      setPasswordRetryError(err?.message || 'Failed to restore keys from the recovery phrase.');
+    }
+  };
+
   const handleKeysGenerated = async () => {
     setHasKeys(true);
     setNewUserData(null);
@@ -192,111 +293,161 @@ export default function Navigation() {
         {showPasswordRetry && (
           <View style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: '#000a', justifyContent: 'center', alignItems: 'center' }}>
             <View style={{ backgroundColor: '#fff', padding: 24, borderRadius: 12, width: 320 }}>
-              <Text style={{ fontWeight: 'bold', fontSize: 18, marginBottom: 12 }}>Enter Password to Unlock Keys</Text>
+              <Text style={{ fontWeight: 'bold', fontSize: 18, marginBottom: 12 }}>
+                {restoringWithPhrase ? 'Restore with Recovery Phrase' : 'Enter Password to Unlock Keys'}
+              </Text>
               {passwordRetryError ? <Text style={{ color: 'red', marginBottom: 8 }}>{passwordRetryError}</Text> : null}
-              <TextInput
-                secureTextEntry
-                placeholder="Password"
-                value={retryPassword}
-                onChangeText={setRetryPassword}
-                style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 8, padding: 8, marginBottom: 16 }}
-              />
-              <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
-                <TouchableOpacity
-                  style={{ backgroundColor: '#6366f1', padding: 10, borderRadius: 8 }}
-                  onPress={async () => {
-                    setPasswordRetryError('');
-                    if (!user) {
-                      setPasswordRetryError('No user found.');
-                      return;
-                    }
-                    try {
-                      const keypair = await import('../utils/crypto').then(m =>
-                        m.getStoredKeypairForUser(user.id, retryPassword, supabase)
-                      );
-                      if (keypair) {
-                        setCurrentPassword(retryPassword);
-                        setHasKeys(true);
-                        setShowPasswordRetry(false);
-                        setRetryPassword('');
+              {restoringWithPhrase ? (
+                <>
+                  <TextInput
+                    multiline
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    placeholder="Your 24-word recovery phrase"
+                    value={recoveryPhraseInput}
+                    onChangeText={setRecoveryPhraseInput}
+                    style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 8, padding: 8, marginBottom: 12, minHeight: 88 }}
+                  />
+                  <TextInput
+                    secureTextEntry
+                    placeholder="Current account password"
+                    value={retryPassword}
+                    onChangeText={setRetryPassword}
+                    style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 8, padding: 8, marginBottom: 16 }}
+                  />
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                    <TouchableOpacity
+                      style={{ backgroundColor: '#6366f1', padding: 10, borderRadius: 8 }}
+                      onPress={handleRestoreWithPhrase}
+                    >
+                      <Text style={{ color: '#fff', fontWeight: 'bold' }}>Restore</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={{ backgroundColor: '#eee', padding: 10, borderRadius: 8 }}
+                      onPress={() => {
+                        setRestoringWithPhrase(false);
+                        setRecoveryPhraseInput('');
                         setPasswordRetryError('');
-                        setRetryAttempts(0);
-                      } else {
-                        setPasswordRetryError('Failed to unlock keys.');
-                        setRetryAttempts((prev) => {
-                          const next = prev + 1;
-                          if (next >= 3) {
-                            // Self destruct: wipe this user's data without warning
-                            import('../services/selfDestruct').then(async (m) => {
-                              try {
-                                await m.wipeAllUserData(user.id);
-                              } catch {}
-                              // Clear local
-                              if (user) { await removeKeypairForUser(user.id); }
-                              setShowPasswordRetry(false);
-                              setRetryPassword('');
-                              setPasswordRetryError('');
-                              // Optionally sign out
-                              await signOut();
-                            });
-                          }
-                          return next;
-                        });
-                      }
-                    } catch (err: any) {
-                      setPasswordRetryError('Incorrect password. Please try again.');
-                      setRetryAttempts((prev) => {
-                        const next = prev + 1;
-                        if (next >= 3 && user) {
-                          import('../services/selfDestruct').then(async (m) => {
-                            try {
-                              await m.wipeAllUserData(user.id);
-                            } catch {}
-                            if (user) { await removeKeypairForUser(user.id); }
+                      }}
+                    >
+                      <Text style={{ color: '#333' }}>Back</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              ) : (
+                <>
+                  <TextInput
+                    secureTextEntry
+                    placeholder="Password"
+                    value={retryPassword}
+                    onChangeText={setRetryPassword}
+                    style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 8, padding: 8, marginBottom: 16 }}
+                  />
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                    <TouchableOpacity
+                      style={{ backgroundColor: '#6366f1', padding: 10, borderRadius: 8 }}
+                      onPress={async () => {
+                        setPasswordRetryError('');
+                        if (!user) {
+                          setPasswordRetryError('No user found.');
+                          return;
+                        }
+                        try {
+                          const keypair = await unlockKeyring(user.id, retryPassword);
+                          if (keypair) {
+                            setUpThisDevice(keypair);
+                            setHasKeys(true);
                             setShowPasswordRetry(false);
                             setRetryPassword('');
                             setPasswordRetryError('');
-                            await signOut();
+                            setRetryAttempts(0);
+                          } else {
+                            setPasswordRetryError('Failed to unlock keys.');
+                            setRetryAttempts((prev) => {
+                              const next = prev + 1;
+                              if (next >= 3) {
+                                // Self destruct: wipe this user's data without warning
+                                import('../services/selfDestruct').then(async (m) => {
+                                  try {
+                                    await m.wipeAllUserData(user.id);
+                                  } catch {}
+                                  // Clear local
+                                  if (user) { await removeKeypairForUser(user.id); await clearLocalState(user.id); }
+                                  setShowPasswordRetry(false);
+                                  setRetryPassword('');
+                                  setPasswordRetryError('');
+                                  // Optionally sign out
+                                  await signOut();
+                                });
+                              }
+                              return next;
+                            });
+                          }
+                        } catch (err: any) {
+                          setPasswordRetryError('Incorrect password. Please try again.');
+                          setRetryAttempts((prev) => {
+                            const next = prev + 1;
+                            if (next >= 3 && user) {
+                              import('../services/selfDestruct').then(async (m) => {
+                                try {
+                                  await m.wipeAllUserData(user.id);
+                                } catch {}
+                                if (user) { await removeKeypairForUser(user.id); await clearLocalState(user.id); }
+                                setShowPasswordRetry(false);
+                                setRetryPassword('');
+                                setPasswordRetryError('');
+                                await signOut();
+                              });
+                            }
+                            return next;
                           });
                         }
-                        return next;
-                      });
-                    }
-                  }}
-                >
-                  <Text style={{ color: '#fff', fontWeight: 'bold' }}>Retry</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={{ backgroundColor: '#eee', padding: 10, borderRadius: 8 }}
-                  onPress={() => {
-                    setShowPasswordRetry(false);
-                    setRetryPassword('');
-                    setPasswordRetryError('');
-                    clearSessionPassword();
-                    // Optionally, offer reset account here
-                  }}
-                >
-                  <Text style={{ color: '#333' }}>Cancel</Text>
-                </TouchableOpacity>
-              </View>
-              <TouchableOpacity
-                style={{ marginTop: 16, alignSelf: 'center' }}
-                onPress={() => {
-                  // Reset account logic: clear keys, force key regeneration
-                  if (user) { removeKeypairForUser(user.id); }
-                  setHasKeys(false);
-                  setShowPasswordRetry(false);
-                  setRetryPassword('');
-                  setPasswordRetryError('');
-                  if (user) {
-                    // Use user metadata for username/email fallback
-                    const username = (user as any).user_metadata?.username || (user as any).email?.split('@')[0] || 'user';
-                    setNewUserData({ userId: user.id, username, password: '' });
-                  }
-                }}
-              >
-                <Text style={{ color: 'red', fontWeight: 'bold' }}>Reset Account (Lose old messages)</Text>
-              </TouchableOpacity>
+                      }}
+                    >
+                      <Text style={{ color: '#fff', fontWeight: 'bold' }}>Retry</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={{ backgroundColor: '#eee', padding: 10, borderRadius: 8 }}
+                      onPress={() => {
+                        setShowPasswordRetry(false);
+                        setRetryPassword('');
+                        setPasswordRetryError('');
+                        // Optionally, offer reset account here
+                      }}
+                    >
+                      <Text style={{ color: '#333' }}>Cancel</Text>
+                    </TouchableOpacity>
+                  </View>
+                  <TouchableOpacity
+                    style={{ marginTop: 16, alignSelf: 'center' }}
+                    onPress={() => {
+                      // Reset account logic: clear keys, force key regeneration
+                      if (user) { removeKeypairForUser(user.id); clearLocalState(user.id); }
+                      setHasKeys(false);
+                      setShowPasswordRetry(false);
+                      setRetryPassword('');
+                      setPasswordRetryError('');
+                      if (user) {
+                        // Use user metadata for username/email fallback
+                        const username = (user as any).user_metadata?.username || (user as any).email?.split('@')[0] || 'user';
+                        setNewUserData({ userId: user.id, username, password: '' });
+                      }
+                    }}
+                  >
+                    <Text style={{ color: 'red', fontWeight: 'bold' }}>Reset Account (Lose old messages)</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={{ marginTop: 12, alignSelf: 'center' }}
+                    onPress={() => {
+                      setRestoringWithPhrase(true);
+                      setRetryPassword('');
+                      setPasswordRetryError('');
+                    }}
+                  >
+                    <Text style={{ color: '#6366f1', fontWeight: 'bold' }}>Forgot password? Use Recovery Phrase</Text>
+                  </TouchableOpacity>
+                </>
+              )}
             </View>
           </View>
         )}
@@ -340,7 +491,7 @@ export default function Navigation() {
     const userDataForKeys = newUserData || {
       userId: session.user.id,
       username: session.user.user_metadata?.username || session.user.email?.split('@')[0] || 'user',
-      password: currentPassword || '', // Use stored password from login
+      password: '',
     };
     return (
       <NavigationContainer>
@@ -426,6 +577,25 @@ export default function Navigation() {
                   />
                 )}
               </Tab.Screen>
+
+              <Tab.Screen
+                name="Settings"
+                options={{
+                  tabBarLabel: 'Settings',
+                  tabBarIcon: ({ color }) => (
+                    <Text style={{ fontSize: 24 }}>⚙️</Text>
+                  ),
+                }}
+              >
+                {(props) => (
+                  <SettingsScreen
+                    currentUser={user}
+                    onKeysChanged={refetchUser}
+                    onChangePassword={() => props.navigation.navigate('ChangePassword' as never)}
+                    onShowDevices={() => props.navigation.navigate('Devices' as never)}
+                  />
+                )}
+              </Tab.Screen>
             </Tab.Navigator>
           )}
         </Stack.Screen>
@@ -440,6 +610,19 @@ export default function Navigation() {
             />
           )}
         </Stack.Screen>
+
+        <Stack.Screen name="ChangePassword">
+          {({ navigation }) => (
+            <ChangePasswordScreen
+              currentUser={user}
+              onBack={() => navigation.goBack()}
+            />
+          )}
+        </Stack.Screen>
+
+        <Stack.Screen name="Devices">
+          {({ navigation }) => <DevicesScreen currentUser={user} onBack={() => navigation.goBack()} />}
+        </Stack.Screen>
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { User } from '../types';
+import { useTheme } from '../components/ThemeProvider';
+import { changePassword } from '../services/passwordChange';
+
+interface ChangePasswordScreenProps {
+  currentUser: User;
+  onBack: () => void;
+}
+
+export default function ChangePasswordScreen({ currentUser, onBack }: ChangePasswordScreenProps) {
+  const { colors } = useTheme();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      Alert.alert('Error', 'Please fill in all fields');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Error', 'The new passwords do not match');
+      return;
+    }
+    if (newPassword === currentPassword) {
+      Alert.alert('Error', 'Your new password must be different from the current one');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await changePassword(currentUser.id, currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      Alert.alert('✅ Password Changed', 'Your password and encrypted key backup have been updated.', [
+        { text: 'OK', onPress: onBack },
+      ]);
+    } catch (error: any) {
+      console.error('Error changing password:', error);
+      const message = error?.message?.includes('Wrong password')
+        ? 'Your current password is incorrect.'
+        : error?.message || 'Failed to change password. Nothing was changed.';
+      Alert.alert('Error', message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputStyle = {
+    backgroundColor: colors.surface,
+    color: colors.text,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    fontSize: 16,
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={{ flex: 1, backgroundColor: colors.background }}
+    >
+      <View style={{ backgroundColor: colors.surface, paddingHorizontal: 24, paddingTop: 36, paddingBottom: 16, borderBottomWidth: 1, borderBottomColor: colors.border, flexDirection: 'row', alignItems: 'center' }}>
+        <TouchableOpacity onPress={onBack} disabled={loading}>
+          <Text style={{ color: colors.primary, fontSize: 28 }}>‹</Text>
+        </TouchableOpacity>
+        <Text style={{ fontSize: 22, fontWeight: 'bold', color: colors.text, marginLeft: 16 }}>Change Password</Text>
+      </View>
+
+      <View style={{ padding: 24, gap: 18 }}>
+        <Text style={{ color: colors.textSecondary, fontSize: 14 }}>
+          Your encryption keys are protected by your password. They are re-encrypted under the new password at the same
+          time, so your messages stay readable on all your devices.
+        </Text>
+        <View>
+          <Text style={{ color: colors.text, marginBottom: 6, fontWeight: '500' }}>Current Password</Text>
+          <TextInput
+            style={inputStyle}
+            placeholder="••••••••"
+            placeholderTextColor={colors.textSecondary}
+            value={currentPassword}
+            onChangeText={setCurrentPassword}
+            secureTextEntry
+            editable={!loading}
+          />
+        </View>
+        <View>
+          <Text style={{ color: colors.text, marginBottom: 6, fontWeight: '500' }}>New Password</Text>
+          <TextInput
+            style={inputStyle}
+            placeholder="••••••••"
+            placeholderTextColor={colors.textSecondary}
+            value={newPassword}
+            onChangeText={setNewPassword}
+            secureTextEntry
+            editable={!loading}
+          />
+        </View>
+        <View>
+          <Text style={{ color: colors.text, marginBottom: 6, fontWeight: '500' }}>Confirm New Password</Text>
+          <TextInput
+            style={inputStyle}
+            placeholder="••••••••"
+            placeholderTextColor={colors.textSecondary}
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            secureTextEntry
+            editable={!loading}
+          />
+        </View>
+        <TouchableOpacity
+          style={{ backgroundColor: colors.primary, paddingVertical: 16, borderRadius: 16, marginTop: 8, alignItems: 'center' }}
+          onPress={handleChangePassword}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={{ color: '#fff', fontWeight: 'bold', fontSize: 18 }}>Change Password</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,29 +9,44 @@ import {
   Platform,
   ActivityIndicator,
   Alert,
+  AlertButton,
   StatusBar,
   Image as RNImage,
   Modal,
   Dimensions,
+  AppState,
+  ViewToken,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { supabase } from '../services/supabase';
-import { getSessionPassword } from '../services/sessionStore';
-import { Message, User, Conversation } from '../types';
-import { useTheme } from '../components/ThemeProvider';
+import { getSharedKey, getUnlockedKeypair } from '../services/keyring';
+import { getLocalDevice } from '../services/devices';
 import {
-  initCrypto,
-  getStoredKeypairForUser,
-  encryptMessageWithEphemeral,
-  decryptMessageWithEphemeral,
-  storeKeypairForUser,
-  generateIdentityKeypair,
-  getPublicKeyFingerprint,
-} from '../utils/crypto';
+  User,
+  Conversation,
+  DecryptedMessageItem,
+  SafetyNumber,
+  IdentityKeyChange,
+} from '../types';
+import { useTheme } from '../components/ThemeProvider';
+import { initCrypto } from '../utils/crypto';
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system/legacy';
-import { deriveSharedKey, encryptFileData, decryptFileData } from '../utils/crypto';
+import * as naclUtil from 'tweetnacl-util';
+import { downloadDecryptedMedia } from '../services/mediaStorage';
+import { MEDIA_STREAM_FORMAT } from '../utils/mediaStream';
+import VideoPlayer from '../components/VideoPlayer';
+import SafetyNumberModal from '../components/SafetyNumberModal';
+import JumpToDateModal from '../components/JumpToDateModal';
+import SwipeToReply from '../components/SwipeToReply';
+import { computeSafetyNumber } from '../utils/safetyNumber';
+import { clearContactVerification, isContactVerified, markContactVerified } from '../services/trustStore';
+import { createMessagingService, MessageReceipt } from '../services/messaging';
+import { deviceMessagingStorage } from '../services/messagingStorage';
+import { createSupabaseMessageRepository } from '../services/messageRepositories/supabase';
+import { ConversationSignals, openConversationSignals, PeerActivity } from '../services/conversationSignals';
+import { getMediaPadding, setMediaPadding } from '../services/privacySettings';
 import { MAX_FILE_SIZE_NATIVE, MAX_FILE_SIZE_WEB } from '../constants';
+import { PADDING_POLICIES, PaddingPolicy } from '../utils/padding';
 
 interface ChatScreenProps {
   conversation: Conversation;
@@ -40,11 +55,34 @@ interface ChatScreenProps {
   onBack: () => void;
 }
 
-interface DecryptedMessageItem extends Message {
-  decryptedText: string;
-  decryptError?: boolean;
+const MEDIA_PADDING_LABELS: Record<PaddingPolicy, string> = {
+  padme: 'Standard',
+  buckets: 'Maximum',
+  none: 'Off',
+};
+
+// A message counts as seen once half of it is on screen; FlatList needs the same object on every render
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 50 };
+
+// File reference resolved from a message's attachment or legacy metadata
+interface MessageMedia {
+  filePath: string;
+  fileType: 'image' | 'video';
+  mimeType?: string;
+  contentKey?: string; // per-file key (absent on legacy media)
+  nonce?: string; // legacy single-box nonce
+}
+
+// Timeline entry marking a change of the contact's identity keys
+interface KeyChangeNotice {
+  kind: 'key_change';
+  id: string;
+  created_at: string;
+  accepted: boolean;
+  rotated: boolean;
 }
 
+
 export default function ChatScreen({
   conversation,
   currentUser,
@@ -55,73 +93,177 @@ export default function ChatScreen({
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const [securityCode, setSecurityCode] = useState<string>('');
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [contactVerified, setContactVerified] = useState(false);
+  const [safetyNumberVisible, setSafetyNumberVisible] = useState(false);
   const flatListRef = useRef<FlatList>(null);
   // Web-only inputs for file pick and camera capture
   const webFileInputRef = useRef<HTMLInputElement | null>(null);
   const webCameraInputRef = useRef<HTMLInputElement | null>(null);
   const { colors, isDark } = useTheme();
-  // Cache plaintexts of our sent messages (messageId -> plaintext)
-  const sentMessagesCache = useRef<Map<string, string>>(new Map());
+  const [pendingKeyChange, setPendingKeyChange] = useState<IdentityKeyChange | null>(null);
+  const [keyChanges, setKeyChanges] = useState<IdentityKeyChange[]>([]);
   // Cache decrypted media URIs
   const [decryptedMediaCache, setDecryptedMediaCache] = useState<Map<string, string>>(new Map());
   // Media viewer state
   const [viewerVisible, setViewerVisible] = useState(false);
   const [viewerMediaUri, setViewerMediaUri] = useState<string | null>(null);
   const [viewerMediaType, setViewerMediaType] = useState<'image' | 'video'>('image');
+  // The loaded window of history; more pages exist above (older) and/or below (newer, after a jump to a date)
+  const [hasOlder, setHasOlder] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  // Read by the realtime handler, which keeps the closure it was subscribed with
+  const hasNewerRef = useRef(false);
+  hasNewerRef.current = hasNewer;
+  const loadingPage = useRef(false);
+  const [scrolledUp, setScrolledUp] = useState(false);
+  const [jumpToDateVisible, setJumpToDateVisible] = useState(false);
+  const [peerActivity, setPeerActivity] = useState<PeerActivity | null>(null);
+  // Own message whose text the composer is replacing
+  const [editingMessage, setEditingMessage] = useState<DecryptedMessageItem | null>(null);
+  // Message the composer is replying to
+  const [replyTarget, setReplyTarget] = useState<DecryptedMessageItem | null>(null);
+  // Message to scroll to once the timeline has it, and the one briefly highlighted after
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Messages deleted for me, left out of the timeline
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
+  const signals = useRef<ConversationSignals | null>(null);
+
+  const repository = useMemo(() => createSupabaseMessageRepository(), []);
+  // Encryption, storage and the realtime feed of this conversation (services/messaging)
+  const messaging = useMemo(
+    () =>
+      createMessagingService({
+        repository,
+        storage: deviceMessagingStorage,
+        conversationId: conversation.id,
+        currentUser,
+        otherUser,
+        getKeypair: getUnlockedKeypair,
+        getDevice: getLocalDevice,
+        onIdentityCheck: (check) => {
+          setKeyChanges(check.changes);
+          setPendingKeyChange(check.status === 'changed' ? check.change : null);
+        },
+      }),
+    [conversation.id]
+  );
 
   useEffect(() => {
     initCrypto();
     fetchMessages();
-    loadSecurityCode();
+    loadSafetyNumber();
+    messaging
+      .getHiddenMessageIds()
+      .then(setHiddenIds)
+      .catch((error) => console.error('Error loading hidden messages:', error));
 
-    // Subscribe to new messages
-    const subscription = supabase
-      .channel(`messages:${conversation.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `conversation_id=eq.${conversation.id}`,
-        },
-        (payload) => {
-          handleNewMessage(payload.new as Message);
-        }
-      )
-      .subscribe();
+    // Subscribe to new messages, receipts, edits and deletions
+    return messaging.subscribe({ onMessage: handleNewMessage, onReceipt: handleReceipt, onChange: handleChange });
+  }, [messaging]);
 
+  // Typing and online state, sealed with the conversation key
+  useEffect(() => {
+    setPeerActivity(null);
+    const opened = openConversationSignals({
+      repository,
+      conversationId: conversation.id,
+      currentUser,
+      otherUser,
+      getPeerPublicKey: async () => (await messaging.getPeerIdentity()).keys.publicKey,
+      onActivity: setPeerActivity,
+    });
+    signals.current = opened;
     return () => {
-      subscription.unsubscribe();
+      opened.close();
+      signals.current = null;
     };
-  }, [conversation.id]);
+  }, [messaging]);
+
+  // FlatList needs a stable callback, so it reads the current service through a ref
+  const messagingRef = useRef(messaging);
+  messagingRef.current = messaging;
+  // The contact's messages count as read once they're on screen in the foreground
+  const onViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    if (AppState.currentState !== 'active') return;
+    const shown = viewableItems.map((token) => token.item).filter((item) => item && !('kind' in item));
+    messagingRef.current.markRead(shown);
+  }).current;
+
+  // Sending is blocked while the contact's keys differ from the pinned ones
+  const confirmPeerIdentity = async (): Promise<boolean> => {
+    const peer = await messaging.getPeerIdentity();
+    if (peer.status !== 'changed') return true;
+    Alert.alert(
+      '⚠️ Safety Number Changed',
+      `${otherUser.username}'s keys have changed. This happens when they reinstall or reset their keys, but it could also mean someone is intercepting your messages. Verify the new safety number or accept the new keys before sending.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Verify', onPress: () => setSafetyNumberVisible(true) },
+        { text: 'Accept New Keys', onPress: () => acceptPeerKeyChange() },
+      ]
+    );
+    return false;
+  };
 
-  const loadSecurityCode = async () => {
+  const acceptPeerKeyChange = async () => {
     try {
-      const code = await getPublicKeyFingerprint(otherUser.public_key);
-      setSecurityCode(code.toUpperCase());
+      await messaging.acceptPeerKeyChange();
+      await loadSafetyNumber();
+      await fetchMessages();
     } catch (error) {
-      console.error('Error generating security code:', error);
+      console.error('Error accepting new keys:', error);
+      Alert.alert('Error', 'Failed to accept the new keys.');
     }
   };
 
-  const fetchMessages = async () => {
+  const loadSafetyNumber = async () => {
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversation.id)
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-
-      // Decrypt all messages
-      const decryptedMessages = await Promise.all(
-        (data || []).map(async (msg) => await decryptMessage(msg))
+      const [localSigningKey, peer] = await Promise.all([
+        messaging.getSigningPublicKey(currentUser.id),
+        messaging.getPeerIdentity(),
+      ]);
+      // While a change is pending, show the number for the new keys so it can be checked before accepting
+      const peerKeys = peer.status === 'changed' ? peer.change.newKeys : peer.keys;
+      const number = computeSafetyNumber(
+        { userId: currentUser.id, publicKey: currentUser.public_key, signingPublicKey: localSigningKey || undefined },
+        { userId: otherUser.id, ...peerKeys }
       );
+      setSafetyNumber(number);
+      // Drops a verification made before either key changed
+      setContactVerified(await isContactVerified(currentUser.id, otherUser.id, number));
+    } catch (error) {
+      console.error('Error computing safety number:', error);
+    }
+  };
 
-      setMessages(decryptedMessages);
+  const setVerified = async (verified: boolean) => {
+    if (!safetyNumber) return;
+    try {
+      if (verified) {
+        // Verifying the new safety number also accepts the new keys
+        if ((await messaging.getPeerIdentity()).status === 'changed') {
+          await acceptPeerKeyChange();
+        }
+        await markContactVerified(currentUser.id, otherUser.id, safetyNumber);
+      } else {
+        await clearContactVerification(currentUser.id, otherUser.id);
+      }
+      setContactVerified(verified);
+    } catch (error) {
+      console.error('Error saving verification:', error);
+      Alert.alert('Error', 'Failed to save verification.');
+    }
+  };
+
+  // Load the latest page, replacing the window shown
+  const fetchMessages = async () => {
+    try {
+      const page = await messaging.fetchHistory();
+      setMessages(page.messages);
+      setHasOlder(page.hasMore);
+      setHasNewer(false);
     } catch (error) {
       console.error('Error fetching messages:', error);
     } finally {
@@ -129,205 +271,212 @@ export default function ChatScreen({
     }
   };
 
-  const decryptMessage = async (
-    message: Message
-  ): Promise<DecryptedMessageItem> => {
+  const loadOlderMessages = async () => {
+    if (!hasOlder || loadingPage.current || messages.length === 0) return;
+    loadingPage.current = true;
     try {
-      const sessionPassword = getSessionPassword();
-      console.log('[DEBUG] Session password available:', !!sessionPassword);
-      let keypair = await getStoredKeypairForUser(currentUser.id, sessionPassword || undefined, sessionPassword ? supabase : undefined);
-      console.log('[DEBUG] Decrypting message:', message.id, 'Keypair exists:', !!keypair);
-      if (!keypair) {
-        // Auto-generate new keypair and update public key in Supabase
-        console.log('[DEBUG] No keypair found! Generating new keys...');
-        keypair = generateIdentityKeypair();
-        await storeKeypairForUser(currentUser.id, keypair, sessionPassword || undefined, sessionPassword ? supabase : undefined);
-        // Update public key in Supabase
-        await supabase.from('users').update({ public_key: keypair.publicKey }).eq('id', currentUser.id);
-        Alert.alert(
-          'New Encryption Keys Generated',
-          'Your encryption keys were lost and have been regenerated. Old messages cannot be decrypted, but new messages will work.',
-          [{ text: 'OK' }]
-        );
-        // Return error for this message, but future messages will work
-        return { ...message, decryptedText: '[Unable to decrypt - new keys generated]', decryptError: true };
-      }
-      console.log('[DEBUG] Keypair private key length:', keypair.privateKey?.length || 0);
-      console.log('[DEBUG] Keypair private key (first 20 chars):', keypair.privateKey?.substring(0, 20) + '...');
-      console.log('[DEBUG] Current user public key:', currentUser.public_key?.substring(0, 20) + '...');
-      console.log('[DEBUG] Other user public key:', otherUser.public_key?.substring(0, 20) + '...');
-      console.log('[DEBUG] Message sender:', message.sender);
-      console.log('[DEBUG] Current user ID:', currentUser.id);
-
-      // If this is our own message, decrypt using the sender's copy
-      if (message.sender === currentUser.id) {
-        // Check cache first for immediate display
-        const cachedPlaintext = sentMessagesCache.current.get(message.id);
-        if (cachedPlaintext) {
-          return { ...message, decryptedText: cachedPlaintext, decryptError: false };
-        }
-
-        // Decrypt from ciphertext_sender
-        if (!message.ciphertext_sender || !message.ephemeral_pubkey_sender) {
-          return { ...message, decryptedText: '[Unable to decrypt - no sender copy]', decryptError: true };
-        }
-
-        const parts = message.ciphertext_sender.split(':');
-        if (parts.length !== 2) {
-          throw new Error('Invalid sender ciphertext format');
-        }
-        const [ciphertext, nonce] = parts;
-
-        const decryptedText = decryptMessageWithEphemeral(
-          keypair.privateKey,
-          message.ephemeral_pubkey_sender,
-          ciphertext,
-          nonce
-        );
+      const page = await messaging.fetchHistory({ before: messages[0] });
+      setMessages((prev) => [...page.messages.filter((m) => !prev.some((p) => p.id === m.id)), ...prev]);
+      setHasOlder(page.hasMore);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      loadingPage.current = false;
+    }
+  };
 
-        return { ...message, decryptedText };
-      }
+  const loadNewerMessages = async () => {
+    if (!hasNewer || loadingPage.current || messages.length === 0) return;
+    loadingPage.current = true;
+    try {
+      const page = await messaging.fetchHistory({ after: messages[messages.length - 1] });
+      setMessages((prev) => [...prev, ...page.messages.filter((m) => !prev.some((p) => p.id === m.id))]);
+      setHasNewer(page.hasMore);
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+    } finally {
+      loadingPage.current = false;
+    }
+  };
 
-      // Decrypt received message using the recipient's copy
-      if (!message.ephemeral_pubkey) {
-        return { ...message, decryptedText: '[Unable to decrypt - no ephemeral key]', decryptError: true };
-      }
+  const jumpToLatest = async () => {
+    if (hasNewerRef.current) {
+      await fetchMessages();
+    }
+    // The list is inverted: offset 0 is the newest message
+    flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
+  };
 
-      const parts = message.ciphertext.split(':');
-      if (parts.length !== 2) {
-        throw new Error('Invalid ciphertext format');
+  // Show the conversation from the start of a day onwards
+  const jumpToDate = async (day: Date) => {
+    setJumpToDateVisible(false);
+    try {
+      const page = await messaging.fetchHistory({ after: { created_at: new Date(day.getTime() - 1).toISOString() } });
+      if (page.messages.length === 0) {
+        Alert.alert('No Messages', 'There are no messages from that day or later.');
+        return;
       }
-      const [ciphertext, nonce] = parts;
-
-      const decryptedText = decryptMessageWithEphemeral(
-        keypair.privateKey,
-        message.ephemeral_pubkey,
-        ciphertext,
-        nonce
-      );
-
-      return { ...message, decryptedText };
+      setMessages(page.messages);
+      setHasOlder(true);
+      setHasNewer(page.hasMore);
+      // The end of the inverted list is its oldest message
+      requestAnimationFrame(() => flatListRef.current?.scrollToEnd({ animated: false }));
     } catch (error) {
-      console.error('Error decrypting message:', error);
-      return { ...message, decryptedText: '[Decryption failed]', decryptError: true };
+      console.error('Error jumping to date:', error);
+      Alert.alert('Error', 'Failed to load messages from that date.');
     }
   };
 
-  const handleNewMessage = async (message: Message) => {
-    const decrypted = await decryptMessage(message);
+  const handleNewMessage = (message: DecryptedMessageItem) => {
+    // While older history is shown, new messages come in with the next page
+    if (hasNewerRef.current) return;
     setMessages((prev) => {
       // Prevent duplicates - check if message with this ID already exists
-      if (prev.some((m) => m.id === decrypted.id)) {
+      if (prev.some((m) => m.id === message.id)) {
         return prev;
       }
-      return [...prev, decrypted];
+      return [...prev, message];
     });
   };
 
+  const handleReceipt = (receipt: MessageReceipt) => {
+    setMessages((prev) => prev.map((m) => (m.id === receipt.id ? { ...m, ...receipt } : m)));
+  };
+
+  // The edited version or tombstone replaces the one shown, in place
+  const handleChange = (message: DecryptedMessageItem) => {
+    setMessages((prev) => prev.map((m) => (m.id === message.id ? message : m)));
+  };
+
   const sendMessage = async () => {
     if (!inputText.trim()) return;
 
-    const plaintextToSend = inputText.trim();
     setSending(true);
     try {
-      // Encrypt message for recipient
-      const encryptedForRecipient = encryptMessageWithEphemeral(
-        otherUser.public_key,
-        plaintextToSend
-      );
-
-      // Encrypt message for sender (so we can read our own messages later)
-      const encryptedForSender = encryptMessageWithEphemeral(
-        currentUser.public_key,
-        plaintextToSend
-      );
-
-      // Combine ciphertext and nonce for storage
-      const ciphertextWithNonce = `${encryptedForRecipient.ciphertext}:${encryptedForRecipient.nonce}`;
-      const ciphertextSenderWithNonce = `${encryptedForSender.ciphertext}:${encryptedForSender.nonce}`;
-
-      // Insert message with both encrypted versions
-      const { data, error } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversation.id,
-          sender: currentUser.id,
-          ciphertext: ciphertextWithNonce,
-          ephemeral_pubkey: encryptedForRecipient.ephemeralPublicKey,
-          ciphertext_sender: ciphertextSenderWithNonce,
-          ephemeral_pubkey_sender: encryptedForSender.ephemeralPublicKey,
-          delivered: false,
-          read: false,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Cache the plaintext for immediate display (until subscription picks it up)
-      if (data) {
-        sentMessagesCache.current.set(data.id, plaintextToSend);
+      if (!(await confirmPeerIdentity())) return;
+
+      // The real-time subscription will handle adding the message (or the edit) to state
+      if (editingMessage) {
+        await messaging.editText(editingMessage, inputText.trim());
+        setEditingMessage(null);
+      } else {
+        await messaging.sendText(inputText.trim(), replyTarget || undefined);
+        setReplyTarget(null);
       }
-      
-      // The real-time subscription will handle adding the message to state
-
-      // Update conversation last_message_at
-      await supabase
-        .from('conversations')
-        .update({ last_message_at: new Date().toISOString() })
-        .eq('id', conversation.id);
-
       setInputText('');
+      signals.current?.stopTyping();
+      if (hasNewerRef.current) await jumpToLatest();
     } catch (error) {
       console.error('Error sending message:', error);
+      Alert.alert(
+        'Error',
+        editingMessage ? 'Failed to edit the message. The edit window may have closed.' : 'Failed to send the message.'
+      );
     } finally {
       setSending(false);
     }
   };
 
-  const sendMediaMessage = async (filePath: string, fileType: 'image' | 'video', nonce: string, mimeType: string) => {
-    setSending(true);
+  const startEditing = (item: DecryptedMessageItem) => {
+    setReplyTarget(null);
+    setEditingMessage(item);
+    setInputText(item.decryptedText);
+  };
+
+  const canReply = (item: DecryptedMessageItem) => !item.deleted_at && !item.decryptError;
+
+  const startReply = (item: DecryptedMessageItem) => {
+    // A draft is kept, but not the text of a message being edited
+    if (editingMessage) cancelEditing();
+    setReplyTarget(item);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setInputText('');
+    signals.current?.stopTyping();
+  };
+
+  const showMessageActions = (item: DecryptedMessageItem) => {
+    const actions: AlertButton[] = [];
+    if (canReply(item)) actions.push({ text: 'Reply', onPress: () => startReply(item) });
+    if (messaging.canEdit(item)) actions.push({ text: 'Edit', onPress: () => startEditing(item) });
+    actions.push({ text: 'Delete for Me', onPress: () => deleteForMe(item) });
+    if (messaging.canDeleteForEveryone(item)) {
+      actions.push({ text: 'Delete for Everyone', style: 'destructive', onPress: () => confirmDeleteForEveryone(item) });
+    }
+    Alert.alert('Message', undefined, [{ text: 'Cancel', style: 'cancel' }, ...actions]);
+  };
+
+  const deleteForMe = async (item: DecryptedMessageItem) => {
     try {
-      // Encrypt a placeholder text "[Photo]" or "[Video]"
-      const plaintextToSend = fileType === 'video' ? '[Video]' : '[Photo]';
-      const encryptedForRecipient = encryptMessageWithEphemeral(otherUser.public_key, plaintextToSend);
-      const encryptedForSender = encryptMessageWithEphemeral(currentUser.public_key, plaintextToSend);
-      const ciphertextWithNonce = `${encryptedForRecipient.ciphertext}:${encryptedForRecipient.nonce}`;
-      const ciphertextSenderWithNonce = `${encryptedForSender.ciphertext}:${encryptedForSender.nonce}`;
-
-      // Store media metadata in message
-      const { data, error } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversation.id,
-          sender: currentUser.id,
-          ciphertext: ciphertextWithNonce,
-          ephemeral_pubkey: encryptedForRecipient.ephemeralPublicKey,
-          ciphertext_sender: ciphertextSenderWithNonce,
-          ephemeral_pubkey_sender: encryptedForSender.ephemeralPublicKey,
-          metadata: { file_path: filePath, file_type: fileType, nonce, mime_type: mimeType },
-          delivered: false,
-          read: false,
-        })
-        .select()
-        .single();
-      if (error) throw error;
-
-      // Cache plaintext
-      if (data) {
-        sentMessagesCache.current.set(data.id, plaintextToSend);
+      setHiddenIds(await messaging.deleteForMe([item]));
+      if (editingMessage?.id === item.id) cancelEditing();
+      if (replyTarget?.id === item.id) setReplyTarget(null);
+    } catch (error) {
+      console.error('Error hiding message:', error);
+      Alert.alert('Error', 'Failed to delete the message.');
+    }
+  };
+
+  const confirmDeleteForEveryone = (item: DecryptedMessageItem) => {
+    Alert.alert(
+      'Delete for Everyone',
+      `This message${getMessageMedia(item) ? ' and its attachment' : ''} will be removed for you and ${otherUser.username}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              // The realtime update swaps in the tombstone
+              await messaging.deleteForEveryone(item);
+              if (editingMessage?.id === item.id) cancelEditing();
+            } catch (error) {
+              console.error('Error deleting message:', error);
+              Alert.alert('Error', 'Failed to delete the message.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Scroll to a quoted message, loading older pages until it's in the window
+  const scrollToMessage = async (messageId: string) => {
+    if (loadingPage.current) return;
+    let loaded = messages;
+    let more = hasOlder;
+    if (!loaded.some((m) => m.id === messageId) && more) {
+      loadingPage.current = true;
+      try {
+        while (!loaded.some((m) => m.id === messageId) && more && loaded.length > 0) {
+          const page = await messaging.fetchHistory({ before: loaded[0] });
+          const known = loaded;
+          loaded = [...page.messages.filter((m) => !known.some((p) => p.id === m.id)), ...loaded];
+          more = page.hasMore;
+        }
+        setMessages(loaded);
+        setHasOlder(more);
+      } catch (error) {
+        console.error('Error loading the quoted message:', error);
+      } finally {
+        loadingPage.current = false;
       }
+    }
+    setScrollTarget(messageId);
+  };
 
-      // Update conversation
-      await supabase
-        .from('conversations')
-        .update({ last_message_at: new Date().toISOString() })
-        .eq('id', conversation.id);
+  const showEditHistory = async (item: DecryptedMessageItem) => {
+    try {
+      const versions = await messaging.fetchEditHistory(item);
+      const format = (version: DecryptedMessageItem) =>
+        `${new Date(version.edited_at || version.created_at).toLocaleString()}\n${version.decryptedText}`;
+      Alert.alert('Edit History', [...versions.map(format), `${format(item)} (current)`].join('\n\n'));
     } catch (error) {
-      console.error('Error sending media message:', error);
-      throw error;
-    } finally {
-      setSending(false);
+      console.error('Error loading edit history:', error);
+      Alert.alert('Error', 'Failed to load the edit history.');
     }
   };
 
@@ -388,44 +537,26 @@ export default function ChatScreen({
         );
         return;
       }
-      // Read file and encrypt (native path)
-      const base64 = await FileSystem.readAsStringAsync(asset.uri, { encoding: 'base64' });
-      const binaryString = atob(base64);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-
-      const sessionPassword = getSessionPassword();
-      const keypair = await getStoredKeypairForUser(currentUser.id, sessionPassword || undefined, sessionPassword ? supabase : undefined);
-      if (!keypair) throw new Error('No keypair found');
-      const sharedKey = deriveSharedKey(keypair.privateKey, otherUser.public_key);
-      const { ciphertext, nonce } = encryptFileData(sharedKey, bytes);
-
-      // Upload to storage
-      const fileName = `${Date.now()}_${Math.random().toString(36).slice(2)}.enc`;
-      const filePath = `galleries/${currentUser.id}/${fileName}`;
-      const encryptedBinary = atob(ciphertext);
-      const encryptedBytes = new Uint8Array(encryptedBinary.length);
-      for (let i = 0; i < encryptedBinary.length; i++) encryptedBytes[i] = encryptedBinary.charCodeAt(i);
-      const { error: uploadError } = await supabase.storage
-        .from('message-media')
-        .upload(filePath, encryptedBytes, { contentType: 'application/octet-stream', upsert: false });
-      if (uploadError) throw uploadError;
-
-      // Insert into galleries (auto-save behavior)
-      await supabase.from('galleries').insert({
-        owner_a: currentUser.id,
-        owner_b: otherUser.id,
-        file_path: filePath,
-        file_type: asset.type === 'video' ? 'video' : 'image',
-        metadata: { nonce, originalType: asset.mimeType, width: asset.width, height: asset.height },
+      if (!(await confirmPeerIdentity())) return;
+
+      // Encrypted from disk chunk by chunk, saved to the gallery and sent as an attachment
+      const fileType = asset.type === 'video' ? 'video' : 'image';
+      setSending(true);
+      await messaging.sendMedia({
+        source: asset.uri,
+        type: fileType,
+        mime: asset.mimeType || '',
+        width: asset.width,
+        height: asset.height,
+        padding: await getMediaPadding(currentUser.id, otherUser.id),
       });
-
-      // Send chat message with media metadata (not stub)
-      await sendMediaMessage(filePath, asset.type === 'video' ? 'video' : 'image', nonce, asset.mimeType || '');
-      Alert.alert('Success', `${asset.type === 'video' ? 'Video' : 'Photo'} sent`);
+      if (hasNewerRef.current) await jumpToLatest();
+      Alert.alert('Success', `${fileType === 'video' ? 'Video' : 'Photo'} sent`);
     } catch (e) {
       console.error('Chat media upload error:', e);
       Alert.alert('Error', 'Failed to send media.');
+    } finally {
+      setSending(false);
     }
   };
 
@@ -440,105 +571,87 @@ export default function ChatScreen({
         );
         return;
       }
-      const arrayBuffer = await file.arrayBuffer();
-      const bytes = new Uint8Array(arrayBuffer);
-
-      const sessionPassword = getSessionPassword();
-      const keypair = await getStoredKeypairForUser(
-        currentUser.id,
-        sessionPassword || undefined,
-        sessionPassword ? supabase : undefined
-      );
-      if (!keypair) throw new Error('No keypair found');
-
-      const sharedKey = deriveSharedKey(keypair.privateKey, otherUser.public_key);
-      const { ciphertext, nonce } = encryptFileData(sharedKey, bytes);
-
-      // Upload to storage
-      const fileName = `${Date.now()}_${Math.random().toString(36).slice(2)}.enc`;
-      const filePath = `galleries/${currentUser.id}/${fileName}`;
-      const encryptedBinary = atob(ciphertext);
-      const encryptedBytes = new Uint8Array(encryptedBinary.length);
-      for (let i = 0; i < encryptedBinary.length; i++) encryptedBytes[i] = encryptedBinary.charCodeAt(i);
-      const { error: uploadError } = await supabase.storage
-        .from('message-media')
-        .upload(filePath, encryptedBytes, { contentType: 'application/octet-stream', upsert: false });
-      if (uploadError) throw uploadError;
-
-      // Insert into galleries (auto-save behavior)
+      if (!(await confirmPeerIdentity())) return;
+
+      // Blob slices are encrypted chunk by chunk, saved to the gallery and sent as an attachment
       const fileType = (file.type || '').startsWith('video') ? 'video' : 'image';
-      await supabase.from('galleries').insert({
-        owner_a: currentUser.id,
-        owner_b: otherUser.id,
-        file_path: filePath,
-        file_type: fileType,
-        metadata: { nonce, originalType: file.type || '', width: undefined, height: undefined },
+      setSending(true);
+      await messaging.sendMedia({
+        source: file,
+        type: fileType,
+        mime: file.type || '',
+        padding: await getMediaPadding(currentUser.id, otherUser.id),
       });
-
-      // Send media message
-      await sendMediaMessage(filePath, fileType, nonce, file.type || '');
+      if (hasNewerRef.current) await jumpToLatest();
       Alert.alert('Success', `${fileType === 'video' ? 'Video' : 'Photo'} sent`);
     } catch (e) {
       console.error('Chat media upload (web) error:', e);
       Alert.alert('Error', 'Failed to send media.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const changeMediaPadding = async (policy: PaddingPolicy) => {
+    try {
+      await setMediaPadding(currentUser.id, otherUser.id, policy);
+    } catch (error) {
+      console.error('Error updating media padding:', error);
+      Alert.alert('Error', 'Failed to update the padding setting.');
     }
   };
 
-  const decryptAndCacheMedia = async (messageId: string, file_path: string, nonce: string, mimeType?: string): Promise<string | null> => {
+  const showChatOptions = () => {
+    Alert.alert('Conversation', undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Jump to Date', onPress: () => setJumpToDateVisible(true) },
+      { text: 'Attachment Size Padding', onPress: showMediaPaddingOptions },
+    ]);
+  };
+
+  const showMediaPaddingOptions = async () => {
+    const current = await getMediaPadding(currentUser.id, otherUser.id);
+    Alert.alert(
+      'Attachment Size Padding',
+      `Photos and videos are padded so the server can't see their exact size. ` +
+        `Currently: ${MEDIA_PADDING_LABELS[current]}.\n\n` +
+        'Standard adds at most 12%. Maximum rounds up to the next power of two. ' +
+        'Off uploads exact sizes. Applies to what you send in this chat.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...PADDING_POLICIES.filter((policy) => policy !== current).map((policy) => ({
+          text: MEDIA_PADDING_LABELS[policy],
+          onPress: () => changeMediaPadding(policy),
+        })),
+      ]
+    );
+  };
+
+  const decryptAndCacheMedia = async (messageId: string, media: MessageMedia): Promise<string | null> => {
     // Check cache first
-    const cacheKey = `${messageId}_${file_path}`;
+    const cacheKey = `${messageId}_${media.filePath}`;
     if (decryptedMediaCache.has(cacheKey)) {
       return decryptedMediaCache.get(cacheKey)!;
     }
 
     try {
-      // Download encrypted file
-      const { data, error } = await supabase.storage
-        .from('message-media')
-        .download(file_path);
-      if (error) throw error;
-
-      // Convert Blob to base64 then Uint8Array
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          if (reader.result) {
-            const base64 = (reader.result as string).split(',')[1];
-            resolve(base64);
-          } else {
-            reject(new Error('Failed to read blob'));
-          }
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(data);
-      });
-      const base64Data = await base64Promise;
-      const binaryString = atob(base64Data);
-      const encryptedBytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        encryptedBytes[i] = binaryString.charCodeAt(i);
+      let key: Uint8Array;
+      if (media.contentKey) {
+        key = naclUtil.decodeBase64(media.contentKey);
+      } else {
+        // Legacy media was encrypted under the static key shared by both users
+        key = getSharedKey(currentUser.id, otherUser.public_key);
       }
 
-      // Decrypt
-      const sessionPassword = getSessionPassword();
-      const keypair = await getStoredKeypairForUser(currentUser.id, sessionPassword || undefined, sessionPassword ? supabase : undefined);
-      if (!keypair) throw new Error('No keypair found');
-      const sharedKey = deriveSharedKey(keypair.privateKey, otherUser.public_key);
-      let binary = '';
-      encryptedBytes.forEach((byte) => { binary += String.fromCharCode(byte); });
-      const base64Encrypted = btoa(binary);
-      const decryptedBytes = decryptFileData(sharedKey, base64Encrypted, nonce);
-
-      // Convert to data URI
-      let decryptedBinary = '';
-      decryptedBytes.forEach((byte: number) => { decryptedBinary += String.fromCharCode(byte); });
-      const base64Image = btoa(decryptedBinary);
-      const mimeToUse = mimeType || 'image/jpeg';
-      const dataUri = `data:${mimeToUse};base64,${base64Image}`;
+      // Download and decrypt chunk by chunk (legacy messages carry a single-box nonce)
+      const uri = await downloadDecryptedMedia(media.filePath, key, {
+        mimeType: media.mimeType || 'image/jpeg',
+        legacyNonce: media.nonce,
+      });
 
       // Cache
-      setDecryptedMediaCache(prev => new Map(prev).set(cacheKey, dataUri));
-      return dataUri;
+      setDecryptedMediaCache(prev => new Map(prev).set(cacheKey, uri));
+      return uri;
     } catch (error) {
       console.error('Error decrypting media:', error);
       return null;
@@ -553,105 +666,255 @@ export default function ChatScreen({
     });
   };
 
+  // Sent (one tick), delivered (two) or read (two, highlighted)
+  const renderReceipt = (item: DecryptedMessageItem) => (
+    <Text style={item.read ? { color: '#ffffff', fontWeight: '700' } : undefined}>
+      {item.delivered || item.read ? ' ✓✓' : ' ✓'}
+    </Text>
+  );
+
+  const showReceiptDetails = (item: DecryptedMessageItem) => {
+    const format = (timestamp?: string | null) => (timestamp ? new Date(timestamp).toLocaleString() : '—');
+    Alert.alert(
+      'Message Info',
+      `Sent: ${format(item.created_at)}\nDelivered: ${format(item.delivered_at)}\nRead: ${format(item.read_at)}`
+    );
+  };
+
+  // Messages interleaved with the key change notices of the loaded window, newest first for the inverted list
+  const timeline = useMemo<(DecryptedMessageItem | KeyChangeNotice)[]>(() => {
+    const oldest = messages[0]?.created_at || '';
+    const newest = messages[messages.length - 1]?.created_at || '';
+    const notices: KeyChangeNotice[] = keyChanges
+      .filter((change) => (!hasOlder || change.detectedAt >= oldest) && (!hasNewer || change.detectedAt <= newest))
+      .map((change) => ({
+        kind: 'key_change',
+        id: `key_change_${change.detectedAt}`,
+        created_at: change.detectedAt,
+        accepted: !!change.acceptedAt,
+        rotated: !!change.rotated,
+      }));
+    return [...messages.filter((m) => !hiddenIds.has(m.id)), ...notices].sort((a, b) =>
+      b.created_at.localeCompare(a.created_at)
+    );
+  }, [messages, keyChanges, hasOlder, hasNewer, hiddenIds]);
+
+  // The index is known once the timeline includes the loaded pages
+  useEffect(() => {
+    if (!scrollTarget) return;
+    setScrollTarget(null);
+    const index = timeline.findIndex((item) => item.id === scrollTarget);
+    if (index < 0) {
+      Alert.alert('Message Unavailable', 'The original message was deleted.');
+      return;
+    }
+    flatListRef.current?.scrollToIndex({ index, viewPosition: 0.5, animated: true });
+    setHighlightedId(scrollTarget);
+    setTimeout(() => setHighlightedId((current) => (current === scrollTarget ? null : current)), 1500);
+  }, [scrollTarget, timeline]);
+
+  const renderKeyChangeNotice = (item: KeyChangeNotice) => (
+    <TouchableOpacity
+      onPress={() => setSafetyNumberVisible(true)}
+      style={{ alignItems: 'center', marginBottom: 12, marginHorizontal: 32 }}
+    >
+      <Text style={{ color: colors.warning, fontSize: 12, textAlign: 'center' }}>
+        🔑{' '}
+        {item.rotated
+          ? `${otherUser.username} rotated their identity key (signed notice)`
+          : `${otherUser.username}'s safety number changed${item.accepted ? ' and was accepted' : ''}`}{' '}
+        · {formatTime(item.created_at)}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const getMessageMedia = (item: DecryptedMessageItem): MessageMedia | null => {
+    if (item.attachment) {
+      return {
+        filePath: item.attachment.path,
+        fileType: item.attachment.type,
+        mimeType: item.attachment.mime,
+        contentKey: item.attachment.key,
+      };
+    }
+    // Legacy media messages kept their file reference in plaintext metadata
+    const metadata = item.metadata;
+    if (metadata?.file_path && (metadata.nonce || metadata.format === MEDIA_STREAM_FORMAT)) {
+      return {
+        filePath: metadata.file_path,
+        fileType: metadata.file_type || 'image',
+        mimeType: metadata.mime_type,
+        nonce: metadata.nonce,
+      };
+    }
+    return null;
+  };
+
+  const getSenderName = (userId: string) => (userId === currentUser.id ? 'You' : otherUser.username);
+
+  // Shown above the composer while it edits or replies to a message
+  const composerContext = editingMessage
+    ? { title: 'Editing message', text: editingMessage.decryptedText, cancel: cancelEditing }
+    : replyTarget
+      ? {
+          title: `Replying to ${replyTarget.sender === currentUser.id ? 'yourself' : otherUser.username}`,
+          text: replyTarget.decryptedText,
+          cancel: () => setReplyTarget(null),
+        }
+      : null;
+
   const renderMessage = ({ item }: { item: DecryptedMessageItem }) => {
     const isOwnMessage = item.sender === currentUser.id;
-    const hasMedia = item.metadata?.file_path && item.metadata?.nonce;
+    const media = getMessageMedia(item);
+    const hasMedia = !!media;
 
     return (
-      <View
-        style={{
-          marginBottom: 12,
-          marginHorizontal: 16,
-          alignItems: isOwnMessage ? 'flex-end' : 'flex-start',
-        }}
-      >
+      <SwipeToReply enabled={canReply(item)} onReply={() => startReply(item)}>
         <View
           style={{
-            maxWidth: hasMedia ? '70%' : '80%',
-            paddingHorizontal: hasMedia ? 4 : 16,
-            paddingVertical: hasMedia ? 4 : 10,
-            borderRadius: 20,
-            backgroundColor: isOwnMessage ? colors.primary : colors.surface,
-            borderBottomRightRadius: isOwnMessage ? 4 : 20,
-            borderBottomLeftRadius: isOwnMessage ? 20 : 4,
-            opacity: item.decryptError ? 0.6 : 1,
-            shadowColor: '#000',
-            shadowOffset: { width: 0, height: 1 },
-            shadowOpacity: 0.05,
-            shadowRadius: 2,
-            elevation: 1,
+            marginBottom: 12,
+            marginHorizontal: 16,
+            alignItems: isOwnMessage ? 'flex-end' : 'flex-start',
           }}
         >
-          {hasMedia ? (
-            <MessageMediaThumbnail
-              messageId={item.id}
-              filePath={item.metadata!.file_path}
-              fileType={item.metadata!.file_type || 'image'}
-              nonce={item.metadata!.nonce}
-              mimeType={item.metadata!.mime_type}
-              onPress={(uri, type) => {
-                setViewerMediaUri(uri);
-                setViewerMediaType(type);
-                setViewerVisible(true);
-              }}
-            />
-          ) : (
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onLongPress={() => showMessageActions(item)}
+            style={{
+              borderWidth: highlightedId === item.id ? 2 : 0,
+              borderColor: colors.accent,
+              maxWidth: hasMedia ? '70%' : '80%',
+              paddingHorizontal: hasMedia ? 4 : 16,
+              paddingVertical: hasMedia ? 4 : 10,
+              borderRadius: 20,
+              backgroundColor: isOwnMessage ? colors.primary : colors.surface,
+              borderBottomRightRadius: isOwnMessage ? 4 : 20,
+              borderBottomLeftRadius: isOwnMessage ? 20 : 4,
+              opacity: item.decryptError ? 0.6 : 1,
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: 1 },
+              shadowOpacity: 0.05,
+              shadowRadius: 2,
+              elevation: 1,
+            }}
+          >
+            {item.replyTo && !item.deleted_at && (
+              <TouchableOpacity
+                onPress={() => scrollToMessage(item.replyTo!.id)}
+                style={{
+                  borderLeftWidth: 3,
+                  borderLeftColor: isOwnMessage ? '#ffffff' : colors.primary,
+                  paddingLeft: 8,
+                  marginTop: hasMedia ? 6 : 0,
+                  marginBottom: 6,
+                  marginHorizontal: hasMedia ? 8 : 0,
+                }}
+              >
+                <Text style={{ color: isOwnMessage ? '#ffffff' : colors.primary, fontSize: 12, fontWeight: '600' }}>
+                  {getSenderName(item.replyTo.sender)}
+                </Text>
+                <Text
+                  numberOfLines={2}
+                  style={{ color: isOwnMessage ? 'rgba(255,255,255,0.8)' : colors.textSecondary, fontSize: 13 }}
+                >
+                  {item.replyTo.excerpt}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {media ? (
+              <MessageMediaThumbnail
+                messageId={item.id}
+                media={media}
+                onPress={(uri, type) => {
+                  setViewerMediaUri(uri);
+                  setViewerMediaType(type);
+                  setViewerVisible(true);
+                }}
+              />
+            ) : item.deleted_at ? (
+              <Text
+                style={{
+                  color: isOwnMessage ? 'rgba(255,255,255,0.8)' : colors.textSecondary,
+                  fontSize: 15,
+                  lineHeight: 20,
+                  fontStyle: 'italic',
+                }}
+              >
+                🚫 {isOwnMessage ? 'You deleted this message' : 'This message was deleted'}
+              </Text>
+            ) : (
+              <Text
+                style={{
+                  color: isOwnMessage ? '#ffffff' : colors.text,
+                  fontSize: 15,
+                  lineHeight: 20,
+                }}
+              >
+                {item.decryptedText}
+              </Text>
+            )}
             <Text
+              onPress={isOwnMessage ? () => showReceiptDetails(item) : undefined}
               style={{
-                color: isOwnMessage ? '#ffffff' : colors.text,
-                fontSize: 15,
-                lineHeight: 20,
+                color: isOwnMessage ? 'rgba(255,255,255,0.7)' : colors.textSecondary,
+                fontSize: 11,
+                marginTop: 4,
+                marginHorizontal: hasMedia ? 8 : 0,
+                alignSelf: 'flex-end',
               }}
             >
-              {item.decryptedText}
+              {item.edited_at && <Text onPress={() => showEditHistory(item)}>edited · </Text>}
+              {formatTime(item.created_at)}
+              {isOwnMessage && renderReceipt(item)}
+            </Text>
+          </TouchableOpacity>
+          {item.unauthenticated && !item.decryptError && (
+            <Text style={{ color: colors.warning, fontSize: 11, marginTop: 2, marginHorizontal: 4 }}>
+              ⚠️ Unauthenticated: sender could not be verified
             </Text>
           )}
-          <Text
-            style={{
-              color: isOwnMessage ? 'rgba(255,255,255,0.7)' : colors.textSecondary,
-              fontSize: 11,
-              marginTop: 4,
-              marginHorizontal: hasMedia ? 8 : 0,
-              alignSelf: 'flex-end',
-            }}
-          >
-            {formatTime(item.created_at)}
-          </Text>
         </View>
-      </View>
+      </SwipeToReply>
     );
   };
 
   const MessageMediaThumbnail = ({
     messageId,
-    filePath,
-    fileType,
-    nonce,
-    mimeType,
+    media,
     onPress,
   }: {
     messageId: string;
-    filePath: string;
-    fileType: 'image' | 'video';
-    nonce: string;
-    mimeType?: string;
+    media: MessageMedia;
     onPress: (uri: string, type: 'image' | 'video') => void;
   }) => {
+    const { fileType } = media;
     const [thumbnailUri, setThumbnailUri] = useState<string | null>(null);
     const [loadingThumb, setLoadingThumb] = useState(true);
 
     useEffect(() => {
       const loadThumbnail = async () => {
-        const uri = await decryptAndCacheMedia(messageId, filePath, nonce, mimeType);
+        // Videos are only downloaded and decrypted when opened
+        const uri = fileType === 'video' ? null : await decryptAndCacheMedia(messageId, media);
         setThumbnailUri(uri);
         setLoadingThumb(false);
       };
       loadThumbnail();
     }, [messageId]);
 
+    const openMedia = async () => {
+      if (fileType !== 'video') {
+        if (thumbnailUri) onPress(thumbnailUri, fileType);
+        return;
+      }
+      setLoadingThumb(true);
+      const uri = await decryptAndCacheMedia(messageId, media);
+      setLoadingThumb(false);
+      if (uri) onPress(uri, fileType);
+    };
+
     return (
       <TouchableOpacity
-        onPress={() => thumbnailUri && onPress(thumbnailUri, fileType)}
+        onPress={openMedia}
         style={{
           width: 200,
           height: 200,
@@ -779,22 +1042,51 @@ export default function ChatScreen({
           <Text style={{ color: colors.text, fontWeight: '700', fontSize: 17 }}>
             {otherUser.username}
           </Text>
-          <TouchableOpacity
-            onPress={() => {
-              Alert.alert(
-                '🔐 Security Code',
-                `Verify this code with ${otherUser.username} to ensure your connection is secure:\n\n${securityCode || 'Loading...'}\n\nThis code is unique to your conversation and should match on both devices.`,
-                [{ text: 'OK' }]
-              );
-            }}
-          >
-            <Text style={{ color: colors.textSecondary, fontSize: 12, marginTop: 2 }}>
-              🔐 Tap to verify security code
+          {peerActivity && (peerActivity.typing || peerActivity.online || peerActivity.lastSeen) && (
+            <Text style={{ color: peerActivity.online ? colors.success : colors.textSecondary, fontSize: 12 }}>
+              {peerActivity.typing
+                ? 'typing…'
+                : peerActivity.online
+                  ? 'online'
+                  : `last seen ${formatTime(peerActivity.lastSeen!)}`}
+            </Text>
+          )}
+          <TouchableOpacity onPress={() => setSafetyNumberVisible(true)}>
+            <Text style={{ color: contactVerified ? colors.success : colors.textSecondary, fontSize: 12, marginTop: 2 }}>
+              {contactVerified ? '✅ Verified' : '🔐 Tap to verify safety number'}
             </Text>
           </TouchableOpacity>
         </View>
+
+        <TouchableOpacity onPress={showChatOptions} style={{ paddingHorizontal: 8 }}>
+          <Text style={{ color: colors.primary, fontSize: 22, fontWeight: 'bold' }}>⋯</Text>
+        </TouchableOpacity>
       </View>
 
+      {pendingKeyChange && (
+        <View
+          style={{
+            backgroundColor: colors.surfaceLight,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.warning,
+            paddingHorizontal: 16,
+            paddingVertical: 10,
+          }}
+        >
+          <Text style={{ color: colors.warning, fontSize: 13 }}>
+            ⚠️ {otherUser.username}'s keys have changed. Messages can't be sent until you review them.
+          </Text>
+          <View style={{ flexDirection: 'row', marginTop: 6 }}>
+            <TouchableOpacity onPress={() => setSafetyNumberVisible(true)} style={{ marginRight: 20 }}>
+              <Text style={{ color: colors.primary, fontWeight: '600' }}>Verify</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={acceptPeerKeyChange}>
+              <Text style={{ color: colors.primary, fontWeight: '600' }}>Accept New Keys</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       {/* Messages */}
       {loading ? (
         <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
@@ -814,16 +1106,54 @@ export default function ChatScreen({
           </Text>
         </View>
       ) : (
-        <FlatList
-          ref={flatListRef}
-          data={messages}
-          renderItem={renderMessage}
-          keyExtractor={(item) => item.id}
-          contentContainerStyle={{ paddingVertical: 16 }}
-          onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
-          onLayout={() => flatListRef.current?.scrollToEnd({ animated: false })}
-          showsVerticalScrollIndicator={false}
-        />
+        <View style={{ flex: 1 }}>
+          <FlatList
+            ref={flatListRef}
+            data={timeline}
+            inverted
+            renderItem={({ item }) => ('kind' in item ? renderKeyChangeNotice(item) : renderMessage({ item }))}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={{ paddingVertical: 16 }}
+            // Inverted: the end is the top (older pages), the start the bottom (newer pages)
+            onEndReached={loadOlderMessages}
+            onEndReachedThreshold={0.5}
+            onStartReached={loadNewerMessages}
+            onStartReachedThreshold={0.5}
+            maintainVisibleContentPosition={{ minIndexForVisible: 0, autoscrollToTopThreshold: 40 }}
+            onScroll={(e) => setScrolledUp(e.nativeEvent.contentOffset.y > 400)}
+            onViewableItemsChanged={onViewableItemsChanged}
+            // Quoted messages far up the list aren't measured yet: jump near them, then retry
+            onScrollToIndexFailed={({ index, averageItemLength }) => {
+              flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+              setTimeout(() => flatListRef.current?.scrollToIndex({ index, viewPosition: 0.5, animated: true }), 100);
+            }}
+            viewabilityConfig={VIEWABILITY_CONFIG}
+            scrollEventThrottle={100}
+            ListFooterComponent={
+              hasOlder ? <ActivityIndicator size="small" color={colors.primary} style={{ marginVertical: 12 }} /> : null
+            }
+            showsVerticalScrollIndicator={false}
+          />
+          {(scrolledUp || hasNewer) && (
+            <TouchableOpacity
+              onPress={jumpToLatest}
+              style={{
+                position: 'absolute',
+                right: 16,
+                bottom: 16,
+                backgroundColor: colors.surface,
+                borderWidth: 1,
+                borderColor: colors.border,
+                borderRadius: 20,
+                paddingHorizontal: 14,
+                paddingVertical: 8,
+                elevation: 3,
+              }}
+            >
+              <Text style={{ color: colors.primary, fontWeight: '600', fontSize: 13 }}>↓ Jump to latest</Text>
+            </TouchableOpacity>
+          )}
+        </View>
       )}
 
       {/* Input */}
@@ -831,6 +1161,29 @@ export default function ChatScreen({
         behavior={Platform.OS === 'ios' ? 'padding' : undefined}
         keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
       >
+        {composerContext && (
+          <View
+            style={{
+              backgroundColor: colors.surface,
+              borderTopWidth: 1,
+              borderTopColor: colors.border,
+              paddingHorizontal: 16,
+              paddingVertical: 8,
+              flexDirection: 'row',
+              alignItems: 'center',
+            }}
+          >
+            <View style={{ flex: 1, borderLeftWidth: 3, borderLeftColor: colors.primary, paddingLeft: 8 }}>
+              <Text style={{ color: colors.primary, fontSize: 12, fontWeight: '600' }}>{composerContext.title}</Text>
+              <Text numberOfLines={1} style={{ color: colors.textSecondary, fontSize: 13 }}>
+                {composerContext.text}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={composerContext.cancel} style={{ paddingHorizontal: 8 }}>
+              <Text style={{ color: colors.textSecondary, fontSize: 18 }}>×</Text>
+            </TouchableOpacity>
+          </View>
+        )}
         <View
           style={{
             backgroundColor: colors.surface,
@@ -903,7 +1256,10 @@ export default function ChatScreen({
               placeholder="Message..."
               placeholderTextColor={colors.textSecondary}
               value={inputText}
-              onChangeText={setInputText}
+              onChangeText={(text) => {
+                setInputText(text);
+                signals.current?.composerChanged(text);
+              }}
               multiline
               maxLength={1000}
               onKeyPress={(e) => {
@@ -953,6 +1309,22 @@ export default function ChatScreen({
         </View>
       </KeyboardAvoidingView>
 
+      <JumpToDateModal
+        visible={jumpToDateVisible}
+        onJump={jumpToDate}
+        onCancel={() => setJumpToDateVisible(false)}
+      />
+
+      <SafetyNumberModal
+        visible={safetyNumberVisible}
+        contactName={otherUser.username}
+        safetyNumber={safetyNumber}
+        verified={contactVerified}
+        onVerify={() => setVerified(true)}
+        onClearVerification={() => setVerified(false)}
+        onClose={() => setSafetyNumberVisible(false)}
+      />
+
       {/* Full-screen media viewer */}
       <Modal
         visible={viewerVisible}
@@ -986,7 +1358,12 @@ export default function ChatScreen({
             <View style={{ width: 40 }} />
           </View>
           <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
-            {viewerMediaUri ? (
+            {viewerMediaUri && viewerMediaType === 'video' ? (
+              <VideoPlayer
+                uri={viewerMediaUri}
+                style={{ width: Dimensions.get('window').width, height: Dimensions.get('window').height }}
+              />
+            ) : viewerMediaUri ? (
               <RNImage
                 source={{ uri: viewerMediaUri }}
                 style={{ width: Dimensions.get('window').width, height: Dimensions.get('window').height }}
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert, ScrollView } from 'react-native';
+import { Device, User } from '../types';
+import { useTheme } from '../components/ThemeProvider';
+import { getLocalDevice, listDevices, revokeDevice } from '../services/devices';
+
+interface DevicesScreenProps {
+  currentUser: User;
+  onBack: () => void;
+}
+
+export default function DevicesScreen({ currentUser, onBack }: DevicesScreenProps) {
+  const { colors } = useTheme();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [thisDeviceId, setThisDeviceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDevices();
+  }, [currentUser.id]);
+
+  const loadDevices = async () => {
+    try {
+      const [all, local] = await Promise.all([listDevices(currentUser.id), getLocalDevice(currentUser.id)]);
+      setDevices(all);
+      setThisDeviceId(local?.id || null);
+    } catch (error) {
+      console.error('Error loading devices:', error);
+      Alert.alert('Error', 'Failed to load your devices.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revoke = async (device: Device) => {
+    setRevoking(device.id);
+    try {
+      await revokeDevice(currentUser.id, device.id);
+      setDevices((prev) => prev.filter((d) => d.id !== device.id));
+      Alert.alert(
+        'Device Revoked',
+        `"${device.name}" will no longer receive new messages. If it was lost or stolen, also change your password and rotate your identity key in Settings.`
+      );
+    } catch (error) {
+      console.error('Error revoking device:', error);
+      Alert.alert('Error', 'Failed to revoke the device.');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const confirmRevoke = (device: Device) => {
+    Alert.alert(
+      'Revoke Device',
+      `"${device.name}" will stop receiving messages and will be signed out the next time it opens the app.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Revoke', style: 'destructive', onPress: () => revoke(device) },
+      ]
+    );
+  };
+
+  const formatDate = (timestamp?: string) => (timestamp ? new Date(timestamp).toLocaleDateString() : 'never');
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <View style={{ backgroundColor: colors.surface, paddingHorizontal: 24, paddingTop: 36, paddingBottom: 16, borderBottomWidth: 1, borderBottomColor: colors.border, flexDirection: 'row', alignItems: 'center' }}>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={{ color: colors.primary, fontSize: 28 }}>‹</Text>
+        </TouchableOpacity>
+        <Text style={{ fontSize: 22, fontWeight: 'bold', color: colors.text, marginLeft: 16 }}>Linked Devices</Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 40 }} />
+      ) : (
+        <ScrollView contentContainerStyle={{ padding: 24 }}>
+          <Text style={{ color: colors.textSecondary, fontSize: 14, marginBottom: 16 }}>
+            Messages are encrypted separately to each of these devices. Revoke any device you no longer use.
+          </Text>
+          <View style={{ backgroundColor: colors.surface, borderRadius: 16, borderWidth: 1, borderColor: colors.border }}>
+            {devices.map((device, index) => (
+              <View
+                key={device.id}
+                style={{
+                  padding: 16,
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  borderTopWidth: index === 0 ? 0 : 1,
+                  borderTopColor: colors.border,
+                }}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: colors.text, fontSize: 16, fontWeight: '600' }}>
+                    {device.name}
+                    {device.id === thisDeviceId ? ' (this device)' : ''}
+                  </Text>
+                  <Text style={{ color: colors.textSecondary, fontSize: 13, marginTop: 4 }}>
+                    Linked {formatDate(device.created_at)} · Last active {formatDate(device.last_seen_at)}
+                  </Text>
+                </View>
+                {device.id !== thisDeviceId &&
+                  (revoking === device.id ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <TouchableOpacity onPress={() => confirmRevoke(device)} disabled={!!revoking}>
+                      <Text style={{ color: colors.error, fontWeight: '600' }}>Revoke</Text>
+                    </TouchableOpacity>
+                  ))}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
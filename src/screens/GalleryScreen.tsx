@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -17,10 +17,17 @@ import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as MediaLibrary from 'expo-media-library';
 import { supabase } from '../services/supabase';
-import { getSessionPassword } from '../services/sessionStore';
+import { getSharedKey, getUnlockedKeypair } from '../services/keyring';
 import { GalleryItem, User } from '../types';
-import { getStoredKeypairForUser, deriveSharedKey, encryptFileData, decryptFileData } from '../utils/crypto';
+import { withIdentityKeys } from '../utils/identityKeys';
+import { unwrapContentKey } from '../utils/messageCrypto';
+import { downloadDecryptedMedia } from '../services/mediaStorage';
+import { createSupabaseMessageRepository } from '../services/messageRepositories/supabase';
+import { shareMedia } from '../services/sharedMedia';
 import { useTheme } from '../components/ThemeProvider';
+import VideoPlayer from '../components/VideoPlayer';
+import { checkContactIdentity } from '../services/trustStore';
+import { getMediaPadding } from '../services/privacySettings';
 import { MAX_FILE_SIZE_NATIVE, MAX_FILE_SIZE_WEB } from '../constants';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -45,7 +52,8 @@ const GalleryItemThumbnail: React.FC<GalleryItemThumbnailProps> = ({
 
   useEffect(() => {
     const loadThumbnail = async () => {
-      const uri = await decryptImage(item);
+      // Videos are only downloaded and decrypted when opened
+      const uri = item.file_type === 'video' ? null : await decryptImage(item);
       setThumbnailUri(uri);
       setLoadingThumb(false);
     };
@@ -158,6 +166,8 @@ const FullScreenViewer: React.FC<FullScreenViewerProps> = ({
         <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
           {imageLoading ? (
             <ActivityIndicator size="large" color="#fff" />
+          ) : imageUri && galleryItems[currentIndex]?.file_type === 'video' ? (
+            <VideoPlayer uri={imageUri} style={{ width: SCREEN_WIDTH, height: SCREEN_HEIGHT }} />
           ) : imageUri ? (
             <Image
               source={{ uri: imageUri }}
@@ -210,6 +220,7 @@ const GalleryScreen: React.FC<GalleryScreenProps> = ({ currentUser, otherUser, o
   const [decryptedImages, setDecryptedImages] = useState<Map<string, string>>(new Map());
   const [downloading, setDownloading] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const repository = useMemo(() => createSupabaseMessageRepository(), []);
   const fileInputRef = React.useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
@@ -284,8 +295,8 @@ const GalleryScreen: React.FC<GalleryScreenProps> = ({ currentUser, otherUser, o
     if (!otherUser) return;
     setUploading(true);
     try {
-      let bytes: Uint8Array;
-      let fileType: string;
+      let source: Blob | string;
+      let fileType: 'image' | 'video';
       let mimeType: string = '';
       let width: number | undefined;
       let height: number | undefined;
@@ -304,8 +315,7 @@ const GalleryScreen: React.FC<GalleryScreenProps> = ({ currentUser, otherUser, o
         }
         mimeType = file.type || '';
         fileType = mimeType.startsWith('video') ? 'video' : 'image';
-        const arrayBuffer = await file.arrayBuffer();
-        bytes = new Uint8Array(arrayBuffer);
+        source = file;
         // width/height not available for web upload
       } else {
         const rnAsset = asset as ImagePicker.ImagePickerAsset;
@@ -319,50 +329,45 @@ const GalleryScreen: React.FC<GalleryScreenProps> = ({ currentUser, otherUser, o
           setUploading(false);
           return;
         }
-        const base64 = await FileSystem.readAsStringAsync(rnAsset.uri, { encoding: 'base64' });
-        const binaryString = atob(base64);
-        bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
+        source = rnAsset.uri;
         fileType = rnAsset.type === 'video' ? 'video' : 'image';
         mimeType = rnAsset.mimeType || '';
         width = rnAsset.width;
         height = rnAsset.height;
       }
-      const sessionPassword = getSessionPassword();
-      const keypair = await import('../utils/crypto').then(m => m.getStoredKeypairForUser(currentUser.id, sessionPassword || undefined, sessionPassword ? supabase : undefined));
-      if (!keypair) throw new Error('No keypair found');
-      const sharedKey = deriveSharedKey(keypair.privateKey, otherUser.public_key);
-      const encrypted = encryptFileData(sharedKey, bytes);
-      const fileName = `${Date.now()}_${Math.random().toString(36).substring(7)}.enc`;
-      const filePath = `galleries/${currentUser.id}/${fileName}`;
-      // Convert base64 ciphertext to Uint8Array for upload
-      const encryptedBinary = atob(encrypted.ciphertext);
-      const encryptedBytes = new Uint8Array(encryptedBinary.length);
-      for (let i = 0; i < encryptedBinary.length; i++) {
-        encryptedBytes[i] = encryptedBinary.charCodeAt(i);
+      // Only share with the contact's pinned identity (see the chat for key changes)
+      const peer = await checkContactIdentity(
+        currentUser.id,
+        otherUser.id,
+        { publicKey: otherUser.public_key, signingPublicKey: otherUser.signing_public_key },
+        otherUser.identity_rotations || []
+      );
+      if (peer.status === 'changed') {
+        Alert.alert(
+          'Safety Number Changed',
+          `${otherUser.username}'s keys have changed. Open your chat with them to review the new keys before sharing media.`
+        );
+        return;
       }
-      const { error: uploadError } = await supabase.storage
-        .from('message-media')
-        .upload(filePath, encryptedBytes, {
-          contentType: 'application/octet-stream',
-          upsert: false,
-        });
-      if (uploadError) throw uploadError;
-      const { error: dbError } = await supabase.from('galleries').insert({
-        owner_a: currentUser.id,
-        owner_b: otherUser.id,
-        file_path: filePath,
-        file_type: fileType,
-        metadata: {
-          nonce: encrypted.nonce,
-          originalType: mimeType,
+
+      // Encrypted under its own content key, padded per the policy chosen for this contact
+      await shareMedia(
+        repository,
+        {
+          userId: currentUser.id,
+          keypair: getUnlockedKeypair(currentUser.id),
+          contactId: otherUser.id,
+          contactPublicKey: peer.keys.publicKey,
+        },
+        {
+          source,
+          type: fileType,
+          mime: mimeType,
           width,
           height,
-        },
-      });
-      if (dbError) throw dbError;
+          padding: await getMediaPadding(currentUser.id, otherUser.id),
+        }
+      );
       Alert.alert('Success', 'Media uploaded successfully!');
       fetchGalleryItems();
     } catch (error) {
@@ -390,75 +395,24 @@ const GalleryScreen: React.FC<GalleryScreenProps> = ({ currentUser, otherUser, o
     try {
       if (!otherUser) return null;
       
-      // Download encrypted file
-      const { data, error } = await supabase.storage
-        .from('message-media')
-        .download(item.file_path);
-      
-      if (error) throw error;
-      
-      // Convert Blob to base64 then to Uint8Array (React Native compatible)
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          if (reader.result) {
-            const base64 = (reader.result as string).split(',')[1];
-            resolve(base64);
-          } else {
-            reject(new Error('Failed to read blob'));
-          }
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(data);
-      });
-      
-      const base64Data = await base64Promise;
-      const binaryString = atob(base64Data);
-      const encryptedBytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        encryptedBytes[i] = binaryString.charCodeAt(i);
-      }
-      
-      // Get shared key - determine which user's public key to use
-      // If current user uploaded it, use other user's public key
-      // If other user uploaded it, use current user's key with other user's public key
-      const sessionPassword = getSessionPassword();
-      const keypair = await import('../utils/crypto').then(m => m.getStoredKeypairForUser(currentUser.id, sessionPassword || undefined, sessionPassword ? supabase : undefined));
-      if (!keypair) throw new Error('No keypair found');
-      
-      // Determine the uploader to get the correct public key for decryption
-      const uploaderPublicKey = item.owner_a === currentUser.id ? currentUser.public_key : otherUser.public_key;
-      const receiverPublicKey = item.owner_a === currentUser.id ? otherUser.public_key : currentUser.public_key;
-      
-      // Use the shared key between current user and other user
-      const sharedKey = deriveSharedKey(keypair.privateKey, otherUser.public_key);
-      
-      // Decrypt
-      const nonce = item.metadata?.nonce;
-      if (!nonce) throw new Error('No nonce found in metadata');
-      
-      // Convert encrypted bytes to base64 for decryptFileData
-      let binary = '';
-      encryptedBytes.forEach((byte) => {
-        binary += String.fromCharCode(byte);
-      });
-      const base64Encrypted = btoa(binary);
-      
-      const decryptedBytes = decryptFileData(sharedKey, base64Encrypted, nonce);
-      
-      // Convert to base64 data URI
-      let decryptedBinary = '';
-      decryptedBytes.forEach((byte) => {
-        decryptedBinary += String.fromCharCode(byte);
+      const keypair = getUnlockedKeypair(currentUser.id);
+
+      // Unwrap the item's content key; legacy items use the static key shared by both users
+      const wrappedKey = item.metadata?.wrapped_keys?.[currentUser.id];
+      const key = wrappedKey
+        ? withIdentityKeys(keypair, (privateKey) => unwrapContentKey(wrappedKey, privateKey))
+        : getSharedKey(currentUser.id, otherUser.public_key);
+
+      // Download and decrypt chunk by chunk (legacy items carry a single-box nonce)
+      const uri = await downloadDecryptedMedia(item.file_path, key, {
+        mimeType: item.metadata?.originalType || 'image/jpeg',
+        legacyNonce: item.metadata?.nonce,
       });
-      const base64Image = btoa(decryptedBinary);
-      const mimeType = item.metadata?.originalType || 'image/jpeg';
-      const dataUri = `data:${mimeType};base64,${base64Image}`;
-      
+
       // Cache the decrypted image
-      setDecryptedImages(prev => new Map(prev).set(item.id, dataUri));
+      setDecryptedImages(prev => new Map(prev).set(item.id, uri));
       
-      return dataUri;
+      return uri;
     } catch (error) {
       console.error('Error decrypting image:', error);
       return null;
@@ -470,14 +424,14 @@ const GalleryScreen: React.FC<GalleryScreenProps> = ({ currentUser, otherUser, o
     setDownloading(true);
     try {
       const item = galleryItems[currentIndex];
-      const dataUri = await decryptAndDisplayImage(item);
-      if (!dataUri) {
+      const uri = await decryptAndDisplayImage(item);
+      if (!uri) {
         throw new Error('Failed to decrypt image');
       }
       if (Platform.OS === 'web') {
         // Trigger browser download
         const link = document.createElement('a');
-        link.href = dataUri;
+        link.href = uri;
         link.download = `gallery_${Date.now()}.${item.file_type === 'video' ? 'mp4' : 'jpg'}`;
         document.body.appendChild(link);
         link.click();
@@ -490,16 +444,8 @@ const GalleryScreen: React.FC<GalleryScreenProps> = ({ currentUser, otherUser, o
           setDownloading(false);
           return;
         }
-        // Save to file system
-        const fileName = `gallery_${Date.now()}.${item.file_type === 'video' ? 'mp4' : 'jpg'}`;
-        const fileUri = `${FileSystem.documentDirectory}${fileName}`;
-        // Remove data URI prefix and save
-        const base64Data = dataUri.split(',')[1];
-        await FileSystem.writeAsStringAsync(fileUri, base64Data, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        // Save to media library
-        await MediaLibrary.saveToLibraryAsync(fileUri);
+        // The decrypted file is already on disk; save it to the media library
+        await MediaLibrary.saveToLibraryAsync(uri);
         Alert.alert('Success', 'Image saved to your gallery!');
       }
     } catch (error) {
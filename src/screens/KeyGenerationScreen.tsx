@@ -8,11 +8,15 @@ import {
 } from 'react-native';
 import {
   initCrypto,
-  generateIdentityKeypair,
   storeKeypairForUser,
 } from '../utils/crypto';
+import { generateIdentityKeypair } from '../utils/identityKeys';
 import { supabase } from '../services/supabase';
+import { setUpDevice } from '../services/devices';
+import { unlockKeyring } from '../services/keyring';
+import { createRecoveryKey, generateRecoveryPhrase } from '../utils/recoveryPhrase';
 import { useTheme } from '../components/ThemeProvider';
+import RecoveryPhraseModal from '../components/RecoveryPhraseModal';
 
 interface KeyGenerationScreenProps {
   userId: string;
@@ -29,6 +33,7 @@ export default function KeyGenerationScreen({
 }: KeyGenerationScreenProps) {
   const [loading, setLoading] = useState(false);
   const [status, setStatus] = useState('Ready to generate your encryption keys');
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
   const { colors } = useTheme();
 
   useEffect(() => {
@@ -44,9 +49,7 @@ export default function KeyGenerationScreen({
       // CRITICAL: Check if keys already exist in database first
       // This prevents generating new keys on each device
       setStatus('Checking for existing keys in database...');
-      const existingKeypair = await import('../utils/crypto').then(m => 
-        m.getStoredKeypairForUser(userId, password, supabase)
-      );
+      const existingKeypair = await unlockKeyring(userId, password);
       
       if (existingKeypair && existingKeypair.privateKey) {
         setStatus('Keys found in database. Loading...');
@@ -57,8 +60,14 @@ export default function KeyGenerationScreen({
             auth_user_id: userId,
             username: username,
             public_key: existingKeypair.publicKey,
+            signing_public_key: existingKeypair.signingPublicKey,
           }, { onConflict: 'auth_user_id' });
         if (profileError) throw profileError;
+
+        setStatus('Registering this device...');
+        await setUpDevice(userId, existingKeypair).catch((err) =>
+          console.warn('Failed to register this device:', err)
+        );
         
         setStatus('Success! Keys loaded from database.');
         Alert.alert(
@@ -76,13 +85,16 @@ export default function KeyGenerationScreen({
       // No existing keys, generate new ones
       setStatus('Generating your encryption keys...');
       const keypair = generateIdentityKeypair();
+      // A second copy of the backup is sealed with the recovery phrase
+      const phrase = generateRecoveryPhrase();
+      keypair.recovery = createRecoveryKey(phrase);
       setStatus('Storing keys securely in database (encrypted with password)...');
       
       // Store in database first (encrypted with password) - this is the source of truth
       await import('../utils/crypto').then(m => m.storeKeypairForUser(userId, keypair, password, supabase));
       
-      // Verify keypair can be loaded
-      const loadedKeypair = await import('../utils/crypto').then(m => m.getStoredKeypairForUser(userId, password, supabase));
+      // Verify keypair can be loaded, which also unlocks the keyring
+      const loadedKeypair = await unlockKeyring(userId, password);
       if (!loadedKeypair || !loadedKeypair.privateKey || loadedKeypair.privateKey.length < 40) {
         throw new Error('Failed to store private key securely. Please try again.');
       }
@@ -94,19 +106,16 @@ export default function KeyGenerationScreen({
           auth_user_id: userId,
           username: username,
           public_key: keypair.publicKey,
+          signing_public_key: keypair.signingPublicKey,
         }, { onConflict: 'auth_user_id' });
       if (profileError) throw profileError;
-      setStatus('Success! Keys generated and secured.');
-      
-      Alert.alert(
-        '✅ Keys Secured',
-        'Your encryption keys have been generated and stored securely in the database (encrypted with your password). They will work on all your devices and platforms.',
-        [{ text: 'Continue', onPress: () => {
-          setTimeout(() => {
-            onComplete();
-          }, 500);
-        }}]
+
+      setStatus('Registering this device...');
+      await setUpDevice(userId, keypair).catch((err) =>
+        console.warn('Failed to register this device:', err)
       );
+      setStatus('Success! Keys generated and secured.');
+      setRecoveryPhrase(phrase);
     } catch (error: any) {
       console.error('Error generating keys:', error);
       Alert.alert(
@@ -119,8 +128,22 @@ export default function KeyGenerationScreen({
     }
   };
 
+  const handleRecoveryPhraseSaved = () => {
+    setRecoveryPhrase(null);
+    Alert.alert(
+      '✅ Keys Secured',
+      'Your encryption keys have been generated and stored securely in the database (encrypted with your password). They will work on all your devices and platforms.',
+      [{ text: 'Continue', onPress: () => {
+        setTimeout(() => {
+          onComplete();
+        }, 500);
+      }}]
+    );
+  };
+
   return (
     <View style={{ flex: 1, backgroundColor: colors.background, justifyContent: 'center', paddingHorizontal: 24 }}>
+      <RecoveryPhraseModal visible={!!recoveryPhrase} phrase={recoveryPhrase} onDone={handleRecoveryPhraseSaved} />
       <View style={{ alignItems: 'center', marginBottom: 32 }}>
         <Text style={{ fontSize: 56, marginBottom: 12 }}>🔐</Text>
         <Text style={{ fontSize: 28, fontWeight: 'bold', color: colors.text, marginBottom: 8, textAlign: 'center' }}>
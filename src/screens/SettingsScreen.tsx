@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert, ScrollView, Switch } from 'react-native';
+import { User } from '../types';
+import { useTheme } from '../components/ThemeProvider';
+import { lockKeyring } from '../services/keyring';
+import { rotateIdentityKey } from '../services/keyRotation';
+import { setUpRecoveryPhrase } from '../services/recoveryPhrase';
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  getPrivacySettings,
+  PrivacySettings,
+  updatePrivacySettings,
+} from '../services/privacySettings';
+import RecoveryPhraseModal from '../components/RecoveryPhraseModal';
+import PasswordPromptModal from '../components/PasswordPromptModal';
+
+// Actions that ask for the password again instead of reusing the unlocked keys
+type SensitiveAction = 'rotate' | 'recoveryPhrase';
+
+const PRIVACY_OPTIONS: { setting: keyof PrivacySettings; title: string; description: string }[] = [
+  {
+    setting: 'readReceipts',
+    title: 'Read Receipts',
+    description: "Let contacts see when you've read their messages. Delivery is always confirmed.",
+  },
+  {
+    setting: 'typingIndicators',
+    title: 'Typing Indicators',
+    description: "Let contacts see when you're typing to them",
+  },
+  {
+    setting: 'onlineStatus',
+    title: 'Online Status',
+    description: "Let contacts see when you're in your chat with them, and when you last were",
+  },
+];
+
+const isWrongPassword = (error: any) => !!error?.message?.includes('Wrong password');
+
+interface SettingsScreenProps {
+  currentUser: User;
+  // Called after the user's published keys change so the profile can be refetched
+  onKeysChanged: () => void;
+  onChangePassword: () => void;
+  onShowDevices: () => void;
+}
+
+export default function SettingsScreen({
+  currentUser,
+  onKeysChanged,
+  onChangePassword,
+  onShowDevices,
+}: SettingsScreenProps) {
+  const { colors } = useTheme();
+  const [rotating, setRotating] = useState(false);
+  const [creatingPhrase, setCreatingPhrase] = useState(false);
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<SensitiveAction | null>(null);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(DEFAULT_PRIVACY_SETTINGS);
+
+  useEffect(() => {
+    getPrivacySettings(currentUser.id)
+      .then(setPrivacy)
+      .catch((error) => console.warn('Failed to load privacy settings:', error));
+  }, [currentUser.id]);
+
+  const changePrivacy = async (changes: Partial<PrivacySettings>) => {
+    try {
+      setPrivacy(await updatePrivacySettings(currentUser.id, changes));
+    } catch (error) {
+      console.error('Error saving privacy settings:', error);
+      Alert.alert('Error', 'Failed to save the setting.');
+    }
+  };
+
+  // A wrong password is rethrown so the prompt stays open and shows it
+  const rotateKeys = async (password: string) => {
+    setRotating(true);
+    try {
+      await rotateIdentityKey(currentUser.id, password);
+      setPendingAction(null);
+      onKeysChanged();
+      Alert.alert(
+        'Identity Key Rotated',
+        'Your contacts will be notified through a signed notice. Your old messages remain readable.'
+      );
+    } catch (error) {
+      if (isWrongPassword(error)) throw error;
+      console.error('Error rotating identity key:', error);
+      setPendingAction(null);
+      Alert.alert('Error', 'Failed to rotate your identity key. Nothing was changed.');
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const confirmRotateKeys = () => {
+    Alert.alert(
+      'Rotate Identity Key',
+      'This generates a new encryption key and publishes it to your contacts. Contacts who verified you will need to verify your new safety number.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Rotate', style: 'destructive', onPress: () => setPendingAction('rotate') },
+      ]
+    );
+  };
+
+  const createRecoveryPhrase = async (password: string) => {
+    setCreatingPhrase(true);
+    try {
+      const phrase = await setUpRecoveryPhrase(currentUser.id, password);
+      setPendingAction(null);
+      setRecoveryPhrase(phrase);
+    } catch (error) {
+      if (isWrongPassword(error)) throw error;
+      console.error('Error creating recovery phrase:', error);
+      setPendingAction(null);
+      Alert.alert('Error', 'Failed to create a recovery phrase. Your existing phrase still works.');
+    } finally {
+      setCreatingPhrase(false);
+    }
+  };
+
+  const confirmCreateRecoveryPhrase = () => {
+    Alert.alert(
+      'New Recovery Phrase',
+      'This replaces your current recovery phrase. The old phrase will no longer restore your keys.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Continue', onPress: () => setPendingAction('recoveryPhrase') },
+      ]
+    );
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <RecoveryPhraseModal visible={!!recoveryPhrase} phrase={recoveryPhrase} onDone={() => setRecoveryPhrase(null)} />
+      <PasswordPromptModal
+        visible={!!pendingAction}
+        title="Confirm Your Password"
+        message={
+          pendingAction === 'rotate'
+            ? 'Enter your password to rotate your identity key.'
+            : 'Enter your password to create a new recovery phrase. Anyone with the phrase can restore your keys.'
+        }
+        confirmLabel={pendingAction === 'rotate' ? 'Rotate' : 'Continue'}
+        onConfirm={pendingAction === 'rotate' ? rotateKeys : createRecoveryPhrase}
+        onCancel={() => setPendingAction(null)}
+      />
+      <View style={{ backgroundColor: colors.surface, paddingHorizontal: 24, paddingTop: 36, paddingBottom: 16, borderBottomWidth: 1, borderBottomColor: colors.border }}>
+        <Text style={{ fontSize: 28, fontWeight: 'bold', color: colors.text }}>Settings</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={{ padding: 24 }}>
+        <Text style={{ color: colors.textSecondary, fontSize: 13, fontWeight: '600', marginBottom: 8 }}>
+          ENCRYPTION KEYS
+        </Text>
+        <View style={{ backgroundColor: colors.surface, borderRadius: 16, borderWidth: 1, borderColor: colors.border }}>
+          <TouchableOpacity
+            onPress={confirmRotateKeys}
+            disabled={rotating}
+            style={{ padding: 16, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: colors.text, fontSize: 16, fontWeight: '600' }}>Rotate Identity Key</Text>
+              <Text style={{ color: colors.textSecondary, fontSize: 13, marginTop: 4 }}>
+                Replace your encryption key while keeping your message history
+              </Text>
+            </View>
+            {rotating && <ActivityIndicator size="small" color={colors.primary} />}
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={confirmCreateRecoveryPhrase}
+            disabled={creatingPhrase}
+            style={{
+              padding: 16,
+              flexDirection: 'row',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              borderTopWidth: 1,
+              borderTopColor: colors.border,
+            }}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: colors.text, fontSize: 16, fontWeight: '600' }}>Set Up New Recovery Phrase</Text>
+              <Text style={{ color: colors.textSecondary, fontSize: 13, marginTop: 4 }}>
+                Restore your keys if you ever forget your password
+              </Text>
+            </View>
+            {creatingPhrase && <ActivityIndicator size="small" color={colors.primary} />}
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={onChangePassword}
+            style={{ padding: 16, borderTopWidth: 1, borderTopColor: colors.border }}
+          >
+            <Text style={{ color: colors.text, fontSize: 16, fontWeight: '600' }}>Change Password</Text>
+            <Text style={{ color: colors.textSecondary, fontSize: 13, marginTop: 4 }}>
+              Updates your sign-in password and re-encrypts your key backup
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={onShowDevices}
+            style={{ padding: 16, borderTopWidth: 1, borderTopColor: colors.border }}
+          >
+            <Text style={{ color: colors.text, fontSize: 16, fontWeight: '600' }}>Linked Devices</Text>
+            <Text style={{ color: colors.textSecondary, fontSize: 13, marginTop: 4 }}>
+              See where you're signed in and revoke lost devices
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => lockKeyring()}
+            style={{ padding: 16, borderTopWidth: 1, borderTopColor: colors.border }}
+          >
+            <Text style={{ color: colors.text, fontSize: 16, fontWeight: '600' }}>Lock Keys Now</Text>
+            <Text style={{ color: colors.textSecondary, fontSize: 13, marginTop: 4 }}>
+              Keys also lock after 5 minutes without use; unlocking needs your password
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={{ color: colors.textSecondary, fontSize: 13, fontWeight: '600', marginTop: 24, marginBottom: 8 }}>
+          PRIVACY
+        </Text>
+        <View style={{ backgroundColor: colors.surface, borderRadius: 16, borderWidth: 1, borderColor: colors.border }}>
+          {PRIVACY_OPTIONS.map(({ setting, title, description }, index) => (
+            <View
+              key={setting}
+              style={{
+                padding: 16,
+                flexDirection: 'row',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                borderTopWidth: index === 0 ? 0 : 1,
+                borderTopColor: colors.border,
+              }}
+            >
+              <View style={{ flex: 1, marginRight: 12 }}>
+                <Text style={{ color: colors.text, fontSize: 16, fontWeight: '600' }}>{title}</Text>
+                <Text style={{ color: colors.textSecondary, fontSize: 13, marginTop: 4 }}>{description}</Text>
+              </View>
+              <Switch
+                value={privacy[setting]}
+                onValueChange={(value) => changePrivacy({ [setting]: value })}
+                trackColor={{ true: colors.primary, false: colors.border }}
+              />
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,156 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { getSharedKey as getKeyringSharedKey } from './keyring';
+import { MessageRepository } from './messageRepository';
+import { getPrivacySettings } from './privacySettings';
+import { User } from '../types';
+import { ConversationSignal, deriveSignalKey, openSignal, sealSignal } from '../utils/conversationSignals';
+
+/**
+ * Typing indicators and online state for an open chat, over the conversation's
+ * signal channel (utils/conversationSignals). Each is sent only if the user
+ * allows it in their privacy settings.
+ */
+
+// While typing, "typing" is repeated this often so the contact's indicator stays up
+const TYPING_REFRESH_MS = 3000;
+// Composer idle time after which typing counts as stopped
+const TYPING_IDLE_MS = 5000;
+// The contact's indicator is cleared if no refresh arrives in this time
+const TYPING_TIMEOUT_MS = 8000;
+// Older signals are ignored (delayed or replayed)
+const SIGNAL_MAX_AGE_MS = 60 * 1000;
+
+export interface PeerActivity {
+  typing: boolean;
+  // In this conversation right now, with the app in the foreground
+  online: boolean;
+  // When they were last seen online here, while this chat was open
+  lastSeen: string | null;
+}
+
+export interface ConversationSignalsOptions {
+  repository: MessageRepository;
+  conversationId: string;
+  currentUser: User;
+  otherUser: User;
+  // The contact's pinned identity key (services/trustStore)
+  getPeerPublicKey: () => Promise<string>;
+  onActivity: (activity: PeerActivity) => void;
+  getSharedKey?: (userId: string, peerPublicKey: string) => Uint8Array;
+}
+
+export interface ConversationSignals {
+  /** Report a composer change; typing started and stopped go out debounced */
+  composerChanged(text: string): void;
+  /** The draft was sent or cleared */
+  stopTyping(): void;
+  close(): void;
+}
+
+export function openConversationSignals({
+  repository,
+  conversationId,
+  currentUser,
+  otherUser,
+  getPeerPublicKey,
+  onActivity,
+  getSharedKey = getKeyringSharedKey,
+}: ConversationSignalsOptions): ConversationSignals {
+  const activity: PeerActivity = { typing: false, online: false, lastSeen: null };
+  let typingSentAt = 0;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let peerTypingTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const update = (changes: Partial<PeerActivity>) => {
+    Object.assign(activity, changes);
+    onActivity({ ...activity });
+  };
+
+  // The signal key is derived per use and wiped; the shared key stays cached in the keyring
+  const withSignalKey = async <T>(use: (key: Uint8Array) => T): Promise<T> => {
+    const key = deriveSignalKey(getSharedKey(currentUser.id, await getPeerPublicKey()), conversationId);
+    try {
+      return use(key);
+    } finally {
+      key.fill(0);
+    }
+  };
+
+  const seal = (signal: ConversationSignal) => withSignalKey((key) => sealSignal(key, signal));
+
+  const sendTyping = async (typing: boolean) => {
+    if (closed || !(await getPrivacySettings(currentUser.id)).typingIndicators) return;
+    await channel.broadcast(await seal({ type: 'typing', from: currentUser.id, typing, sentAt: Date.now() }));
+  };
+
+  const announcePresence = async () => {
+    const online = AppState.currentState === 'active' && (await getPrivacySettings(currentUser.id)).onlineStatus;
+    if (closed) return;
+    await channel.setPresence(
+      online ? await seal({ type: 'presence', from: currentUser.id, sentAt: Date.now() }) : null
+    );
+  };
+
+  const handleBroadcast = async (sealed: string) => {
+    const signal = await withSignalKey((key) => openSignal(key, sealed));
+    // Our own other devices share the key, so only the contact's signals count
+    if (!signal || signal.type !== 'typing' || signal.from !== otherUser.id) return;
+    if (Date.now() - signal.sentAt > SIGNAL_MAX_AGE_MS) return;
+    if (peerTypingTimer) clearTimeout(peerTypingTimer);
+    peerTypingTimer = signal.typing ? setTimeout(() => update({ typing: false }), TYPING_TIMEOUT_MS) : null;
+    update({ typing: signal.typing });
+  };
+
+  const handlePresence = async (present: string[]) => {
+    const signals = await withSignalKey((key) => present.map((sealed) => openSignal(key, sealed)));
+    const online = signals.some((signal) => signal?.type === 'presence' && signal.from === otherUser.id);
+    if (online === activity.online) return;
+    update(online ? { online } : { online, typing: false, lastSeen: new Date().toISOString() });
+  };
+
+  const warn = (action: string) => (error: unknown) => console.warn(`Failed to ${action}:`, error);
+
+  const channel = repository.openSignalChannel(conversationId, {
+    onBroadcast: (sealed) => handleBroadcast(sealed).catch(warn('read a typing signal')),
+    onPresence: (present) => handlePresence(present).catch(warn('read presence')),
+  });
+  announcePresence().catch(warn('announce presence'));
+
+  // Offline while the app is in the background
+  const appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+    if (state === 'active' || state === 'background') announcePresence().catch(warn('announce presence'));
+  });
+
+  const stopTyping = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = null;
+    if (!typingSentAt) return;
+    typingSentAt = 0;
+    sendTyping(false).catch(warn('send a typing signal'));
+  };
+
+  const composerChanged = (text: string) => {
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+    if (Date.now() - typingSentAt >= TYPING_REFRESH_MS) {
+      typingSentAt = Date.now();
+      sendTyping(true).catch(warn('send a typing signal'));
+    }
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  // Leaving withdraws our presence, which also clears our typing indicator on the other side
+  const close = () => {
+    closed = true;
+    if (idleTimer) clearTimeout(idleTimer);
+    if (peerTypingTimer) clearTimeout(peerTypingTimer);
+    appStateSubscription.remove();
+    channel.close();
+  };
+
+  return { composerChanged, stopTyping, close };
+}
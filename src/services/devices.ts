@@ -0,0 +1,167 @@
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { readEncryptedItem, removeEncryptedItem, writeEncryptedItem } from './localStore';
+import { publishPrekeys } from './prekeys';
+import { Device, Keypair } from '../types';
+import { getCryptoProvider } from '../utils/cryptoProvider';
+import { generateIdentityKeypair } from '../utils/identityKeys';
+import { signDeviceCertificate } from '../utils/signatures';
+
+/**
+ * Per-device keys.
+ *
+ * Every install has its own X25519/Ed25519 keypair, kept in the encrypted local
+ * store and published in `devices` with a certificate signed by the account's
+ * signing key. Messages are encrypted to each certified device separately, so a
+ * lost device can be revoked without touching the others.
+ */
+
+export interface LocalDevice {
+  id: string;
+  name: string;
+  keypair: Keypair;
+}
+
+const DEVICE_ITEM = 'device';
+
+export const DEVICE_REVOKED_MESSAGE = 'This device was revoked from another device';
+
+const localDevices = new Map<string, Promise<LocalDevice | null>>();
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run device registration for a user one at a time
+ */
+function withDeviceLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(userId) || Promise.resolve();
+  const run = previous.then(task, task);
+  locks.set(userId, run.catch(() => undefined));
+  return run;
+}
+
+function generateDeviceId(): string {
+  // Random (version 4) UUID
+  const bytes = getCryptoProvider().randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function defaultDeviceName(): string {
+  switch (Platform.OS) {
+    case 'ios':
+      return 'iPhone or iPad';
+    case 'android':
+      return 'Android device';
+    case 'web':
+      return 'Web browser';
+    default:
+      return Platform.OS;
+  }
+}
+
+/**
+ * This install's device, or null if it has not been registered yet
+ */
+export function getLocalDevice(userId: string): Promise<LocalDevice | null> {
+  let device = localDevices.get(userId);
+  if (!device) {
+    device = readEncryptedItem<LocalDevice>(userId, DEVICE_ITEM);
+    localDevices.set(userId, device);
+    device.catch(() => localDevices.delete(userId));
+  }
+  return device;
+}
+
+/**
+ * Create this install's device keys on first use and publish them, certified
+ * by the account signing key. Safe to call on every sign-in and unlock.
+ * Throws DEVICE_REVOKED_MESSAGE if the device was revoked; its keys are discarded.
+ */
+export function registerDevice(userId: string, identity: Keypair): Promise<LocalDevice> {
+  return withDeviceLock(userId, async () => {
+    if (!identity.signingPrivateKey) {
+      throw new Error('Signing key required to register a device');
+    }
+
+    let device = await getLocalDevice(userId);
+    if (device) {
+      const { data, error } = await supabase
+        .from('devices')
+        .select('revoked_at')
+        .eq('id', device.id)
+        .maybeSingle();
+      if (error) throw error;
+      if (data?.revoked_at) {
+        await removeEncryptedItem(userId, DEVICE_ITEM);
+        localDevices.delete(userId);
+        throw new Error(DEVICE_REVOKED_MESSAGE);
+      }
+    } else {
+      device = { id: generateDeviceId(), name: defaultDeviceName(), keypair: generateIdentityKeypair() };
+      // Persist the private keys before the public half is published
+      await writeEncryptedItem(userId, DEVICE_ITEM, device);
+      localDevices.set(userId, Promise.resolve(device));
+    }
+
+    const published = {
+      id: device.id,
+      user_id: userId,
+      public_key: device.keypair.publicKey,
+      signing_public_key: device.keypair.signingPublicKey!,
+    };
+    const { error } = await supabase.from('devices').upsert(
+      {
+        ...published,
+        name: device.name,
+        signature: signDeviceCertificate(identity.signingPrivateKey, published),
+        last_seen_at: new Date().toISOString(),
+      },
+      { onConflict: 'id' }
+    );
+    if (error) throw error;
+    return device;
+  });
+}
+
+/**
+ * Register this device and top up its prekeys (best-effort)
+ */
+export async function setUpDevice(userId: string, identity: Keypair): Promise<LocalDevice> {
+  const device = await registerDevice(userId, identity);
+  await publishPrekeys(userId, device).catch((err) => console.warn('Failed to publish prekeys:', err));
+  return device;
+}
+
+/**
+ * The user's devices for the device list, oldest first
+ */
+export async function listDevices(userId: string): Promise<Device[]> {
+  const { data, error } = await supabase
+    .from('devices')
+    .select('*')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []) as Device[];
+}
+
+/**
+ * Revoke a device: it stops receiving messages and its prekeys are withdrawn.
+ * The row is kept so messages it sent earlier still verify.
+ */
+export async function revokeDevice(userId: string, deviceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('devices')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', deviceId)
+    .eq('user_id', userId);
+  if (error) throw error;
+
+  const { error: signedError } = await supabase.from('signed_prekeys').delete().eq('device_id', deviceId);
+  if (signedError) console.warn('Failed to remove signed prekeys of revoked device:', signedError);
+  const { error: oneTimeError } = await supabase.from('one_time_prekeys').delete().eq('device_id', deviceId);
+  if (oneTimeError) console.warn('Failed to remove one-time prekeys of revoked device:', oneTimeError);
+}
@@ -0,0 +1,33 @@
+import { readEncryptedItem, writeEncryptedItem } from './localStore';
+
+/**
+ * Messages deleted "for me": hidden on this device only, the contact still
+ * has them. Kept per conversation in the encrypted local store.
+ */
+
+function getHiddenItemName(conversationId: string) {
+  return `hidden_messages_${conversationId}`;
+}
+
+const hidden = new Map<string, Promise<Set<string>>>();
+
+export function getHiddenMessageIds(userId: string, conversationId: string): Promise<Set<string>> {
+  const key = `${userId}:${conversationId}`;
+  let current = hidden.get(key);
+  if (!current) {
+    current = readEncryptedItem<string[]>(userId, getHiddenItemName(conversationId)).then((ids) => new Set(ids || []));
+    hidden.set(key, current);
+    current.catch(() => hidden.delete(key));
+  }
+  return current;
+}
+
+/**
+ * Hide messages on this device and return the updated set
+ */
+export async function hideMessages(userId: string, conversationId: string, messageIds: string[]): Promise<Set<string>> {
+  const next = new Set([...(await getHiddenMessageIds(userId, conversationId)), ...messageIds]);
+  await writeEncryptedItem(userId, getHiddenItemName(conversationId), [...next]);
+  hidden.set(`${userId}:${conversationId}`, Promise.resolve(next));
+  return next;
+}
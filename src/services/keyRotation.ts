@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+import { refreshUnlockedKeys } from './keyring';
+import { Keypair, KeyRotationNotice } from '../types';
+import { encryptKeyBackupColumns, openKeyBackup, storeKeypairForUser } from '../utils/crypto';
+import { rotateIdentityKeypair } from '../utils/identityKeys';
+import { signKeyRotation } from '../utils/signatures';
+
+/**
+ * Identity key rotation.
+ *
+ * The new public key, the re-encrypted backups (current key plus every retired
+ * one) and a signed rotation notice are written in a single update, so the
+ * server never holds a public key whose private half is missing from the backup.
+ * Contacts that pinned the old key follow the notice (services/trustStore).
+ */
+
+// Contacts offline for longer than this many rotations fall back to a key change warning
+const MAX_ROTATION_NOTICES = 10;
+
+/**
+ * Rotate the user's identity keypair. Requires the account password, asked for
+ * again at the time, to open and re-encrypt the key backup. Returns the new keypair.
+ */
+export async function rotateIdentityKey(userId: string, password: string): Promise<Keypair> {
+  const unlocked = await openKeyBackup(userId, password, supabase);
+  if (!unlocked) {
+    throw new Error('No key backup found for this account');
+  }
+  const { keypair: current, kek } = unlocked;
+  if (!current.signingPrivateKey) {
+    throw new Error('No signing key available. Unlock your keys with your password.');
+  }
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('identity_rotations')
+    .eq('id', userId)
+    .single();
+  if (error) throw error;
+
+  const next = rotateIdentityKeypair(current);
+  const notice = signKeyRotation(current.signingPrivateKey, userId, current.publicKey, next.publicKey);
+  const rotations: KeyRotationNotice[] = [...(data?.identity_rotations || []), notice].slice(-MAX_ROTATION_NOTICES);
+  const backups = await encryptKeyBackupColumns(next, kek);
+
+  const { error: updateError } = await supabase
+    .from('users')
+    .update({ public_key: next.publicKey, ...backups, identity_rotations: rotations })
+    .eq('id', userId);
+  if (updateError) throw updateError;
+
+  // Device keys and prekeys are certified by the unchanged signing key and stay valid
+  await storeKeypairForUser(userId, next);
+  refreshUnlockedKeys(userId, { keypair: next, kek });
+  return next;
+}
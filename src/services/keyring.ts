@@ -0,0 +1,209 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { supabase } from './supabase';
+import { BackupKek, Keypair, UnlockedKeys } from '../types';
+import { openKeyBackup } from '../utils/crypto';
+import { deriveSharedKey } from '../utils/messageCrypto';
+
+/**
+ * The unlocked keyring: the signed-in user's identity keypair, opened once with
+ * the password and held in memory until locked.
+ *
+ * The password itself is not kept. It derives the backup's key-encryption key
+ * (KEK) once, and later access to the backup goes through that KEK, which is
+ * wiped on lock. Sensitive actions (key rotation, a new recovery phrase) ask
+ * for the password again instead.
+ *
+ * Screens read keys from here instead of decrypting the key backup for every
+ * message or thumbnail. Shared keys derived for legacy media are cached per
+ * contact. The keyring locks itself after a period without key use, including
+ * time spent in the background, and lock listeners (navigation) then ask for
+ * the password again.
+ */
+
+export const DEFAULT_AUTO_LOCK_MS = 5 * 60 * 1000;
+
+export const KEYRING_LOCKED_MESSAGE = 'Your keys are locked. Unlock them with your password.';
+
+/** Why the keyring was locked: by the user, after inactivity, or on sign-out */
+export type KeyringLockReason = 'manual' | 'idle' | 'signOut';
+
+interface UnlockedKeyring {
+  userId: string;
+  keypair: Keypair;
+  kek: BackupKek;
+  // Legacy static keys shared with each contact, by the contact's public key
+  sharedKeys: Map<string, Uint8Array>;
+}
+
+let keyring: UnlockedKeyring | null = null;
+let autoLockMs = DEFAULT_AUTO_LOCK_MS;
+let lastActivity = 0;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+const lockListeners = new Set<(reason: KeyringLockReason) => void>();
+
+function idleFor(): number {
+  return Date.now() - lastActivity;
+}
+
+/**
+ * Arm the inactivity timer. Key use only records the time; the timer re-checks
+ * it when it fires, so busy screens don't reschedule it for every message.
+ */
+function scheduleAutoLock(delay: number = autoLockMs) {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  if (!keyring || autoLockMs <= 0) return;
+  idleTimer = setTimeout(() => {
+    idleTimer = null;
+    const remaining = autoLockMs - idleFor();
+    if (remaining <= 0) {
+      lockKeyring('idle');
+    } else {
+      scheduleAutoLock(remaining);
+    }
+  }, delay);
+}
+
+// Timers don't run while a native app is suspended, so check on return to the foreground
+function handleAppStateChange(state: AppStateStatus) {
+  if (state !== 'active' || !keyring || autoLockMs <= 0) return;
+  if (idleFor() >= autoLockMs) {
+    lockKeyring('idle');
+  } else {
+    scheduleAutoLock(autoLockMs - idleFor());
+  }
+}
+
+function touchKeyring() {
+  lastActivity = Date.now();
+}
+
+/**
+ * Hold already opened keys, e.g. after a recovery phrase restore. Replaces any
+ * keyring held for another user.
+ */
+export function setUnlockedKeys(userId: string, { keypair, kek }: UnlockedKeys): void {
+  if (keyring && keyring.userId !== userId) {
+    lockKeyring('signOut');
+  }
+  if (keyring?.userId === userId && keyring.keypair.privateKey !== keypair.privateKey) {
+    // Shared keys were derived from the previous identity key
+    keyring.sharedKeys.forEach((key) => key.fill(0));
+    keyring.sharedKeys.clear();
+  }
+  if (keyring && keyring.kek !== kek) {
+    keyring.kek.key.fill(0);
+  }
+  keyring = { userId, keypair, kek, sharedKeys: keyring?.sharedKeys || new Map() };
+  touchKeyring();
+  scheduleAutoLock();
+  if (!appStateSubscription) {
+    appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+  }
+}
+
+/**
+ * Open the key backup with the password and hold the keypair. Returns null if
+ * the user has no backup yet; throws on a wrong password.
+ */
+export async function unlockKeyring(userId: string, password: string): Promise<Keypair | null> {
+  const unlocked = await openKeyBackup(userId, password, supabase);
+  if (!unlocked) return null;
+  setUnlockedKeys(userId, unlocked);
+  return unlocked.keypair;
+}
+
+/**
+ * Reopen the backup with the held KEK, e.g. after another device rotated the
+ * identity key. Throws if the keyring is locked or the KEK no longer opens it.
+ */
+export async function reloadKeyring(userId: string): Promise<Keypair> {
+  const kek = keyring?.userId === userId ? keyring.kek : null;
+  if (!kek) {
+    throw new Error(KEYRING_LOCKED_MESSAGE);
+  }
+  const unlocked = await openKeyBackup(userId, kek, supabase);
+  if (!unlocked) {
+    throw new Error('No key backup found for this account');
+  }
+  // The keyring may have locked while the backup was loading
+  if (keyring?.kek === kek) setUnlockedKeys(userId, unlocked);
+  return unlocked.keypair;
+}
+
+/**
+ * Update the held keys after the user's keys or password changed (rotation,
+ * new recovery phrase, password change). Does nothing while locked.
+ */
+export function refreshUnlockedKeys(userId: string, unlocked: UnlockedKeys): void {
+  if (keyring?.userId === userId) setUnlockedKeys(userId, unlocked);
+}
+
+export function isKeyringUnlocked(userId: string): boolean {
+  return keyring?.userId === userId;
+}
+
+/**
+ * The user's unlocked identity keypair. Throws if the keyring is locked.
+ */
+export function getUnlockedKeypair(userId: string): Keypair {
+  if (!keyring || keyring.userId !== userId) {
+    throw new Error(KEYRING_LOCKED_MESSAGE);
+  }
+  touchKeyring();
+  return keyring.keypair;
+}
+
+/**
+ * Static key shared with a contact, for media sent before per-file content keys
+ */
+export function getSharedKey(userId: string, peerPublicKey: string): Uint8Array {
+  const keypair = getUnlockedKeypair(userId);
+  const sharedKeys = keyring!.sharedKeys;
+  let key = sharedKeys.get(peerPublicKey);
+  if (!key) {
+    key = deriveSharedKey(keypair.privateKey, peerPublicKey);
+    sharedKeys.set(peerPublicKey, key);
+  }
+  return key;
+}
+
+/**
+ * Forget the keypair and wipe derived keys. Listeners are told why.
+ */
+export function lockKeyring(reason: KeyringLockReason = 'manual'): void {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+  if (!keyring) return;
+  keyring.sharedKeys.forEach((key) => key.fill(0));
+  keyring.kek.key.fill(0);
+  keyring = null;
+  lockListeners.forEach((listener) => {
+    try {
+      listener(reason);
+    } catch (error) {
+      console.warn('Keyring lock listener failed:', error);
+    }
+  });
+}
+
+/**
+ * Lock after this long without key use; 0 disables auto-lock
+ */
+export function setAutoLockTimeout(ms: number): void {
+  autoLockMs = ms;
+  scheduleAutoLock(Math.max(0, autoLockMs - idleFor()));
+}
+
+/**
+ * Subscribe to keyring locks. Returns an unsubscribe function.
+ */
+export function onKeyringLocked(listener: (reason: KeyringLockReason) => void): () => void {
+  lockListeners.add(listener);
+  return () => {
+    lockListeners.delete(listener);
+  };
+}
@@ -0,0 +1,180 @@
+import * as naclUtil from 'tweetnacl-util';
+import * as SecureStore from 'expo-secure-store';
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { getCryptoProvider, SECRETBOX_KEY_BYTES, SECRETBOX_NONCE_BYTES } from '../utils/cryptoProvider';
+import { deleteWebKeystoreItem, readWebKeystoreItem, writeWebKeystoreItem } from '../utils/webKeystore';
+
+/**
+ * Encrypted on-device storage for per-user client state (ratchet sessions,
+ * decrypted message cache, ...).
+ *
+ * Values are JSON-serialized and sealed with a random per-user storage key:
+ * - Mobile: key in SecureStore (Keychain/Keystore), data in the app's document directory
+ * - Web: key in the web keystore (IndexedDB, sealed with a non-extractable
+ *   WebCrypto key), data in localStorage
+ */
+
+const LEGACY_WEB_KEY_PREFIX = 'local_state_key_';
+// Name of the storage key's item in the web keystore
+const WEB_KEYSTORE_ITEM = 'local_state_key';
+
+function getStorageKeyName(userId: string) {
+  return `${LEGACY_WEB_KEY_PREFIX}${userId}`;
+}
+function getItemName(userId: string, name: string) {
+  return `local_state_${userId}_${name}`;
+}
+function getUserDirectory(userId: string) {
+  return `${FileSystem.documentDirectory}local_state/${userId}/`;
+}
+
+const storageKeys = new Map<string, Promise<Uint8Array>>();
+
+function getStorageKey(userId: string): Promise<Uint8Array> {
+  // Share one pending load so concurrent first calls don't mint two keys
+  let key = storageKeys.get(userId);
+  if (!key) {
+    key = loadOrCreateStorageKey(userId);
+    storageKeys.set(userId, key);
+    key.catch(() => storageKeys.delete(userId));
+  }
+  return key;
+}
+
+let legacyWebKeysMigrated: Promise<void> | null = null;
+
+/**
+ * Older web builds kept every user's storage key in plaintext localStorage.
+ * Move them all into the web keystore once, then remove the plaintext copies.
+ */
+function migrateLegacyWebStorageKeys(): Promise<void> {
+  if (!legacyWebKeysMigrated) {
+    legacyWebKeysMigrated = (async () => {
+      const names = Object.keys(localStorage).filter((name) => name.startsWith(LEGACY_WEB_KEY_PREFIX));
+      for (const name of names) {
+        const encoded = localStorage.getItem(name);
+        const userId = name.slice(LEGACY_WEB_KEY_PREFIX.length);
+        if (encoded && !(await readWebKeystoreItem(userId, WEB_KEYSTORE_ITEM))) {
+          await writeWebKeystoreItem(userId, encoded, WEB_KEYSTORE_ITEM);
+        }
+        localStorage.removeItem(name);
+      }
+    })();
+    legacyWebKeysMigrated.catch(() => {
+      legacyWebKeysMigrated = null;
+    });
+  }
+  return legacyWebKeysMigrated;
+}
+
+async function loadOrCreateStorageKey(userId: string): Promise<Uint8Array> {
+  let stored: string | null;
+  if (Platform.OS === 'web') {
+    await migrateLegacyWebStorageKeys();
+    stored = await readWebKeystoreItem(userId, WEB_KEYSTORE_ITEM);
+  } else {
+    stored = await SecureStore.getItemAsync(getStorageKeyName(userId));
+  }
+  if (stored) {
+    return naclUtil.decodeBase64(stored);
+  }
+
+  const key = getCryptoProvider().randomBytes(SECRETBOX_KEY_BYTES);
+  const encoded = naclUtil.encodeBase64(key);
+  if (Platform.OS === 'web') {
+    await writeWebKeystoreItem(userId, encoded, WEB_KEYSTORE_ITEM);
+  } else {
+    await SecureStore.setItemAsync(getStorageKeyName(userId), encoded);
+  }
+  return key;
+}
+
+async function readRaw(userId: string, name: string): Promise<string | null> {
+  if (Platform.OS === 'web') {
+    return localStorage.getItem(getItemName(userId, name));
+  }
+  const path = `${getUserDirectory(userId)}${name}`;
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists) return null;
+  return FileSystem.readAsStringAsync(path);
+}
+
+async function writeRaw(userId: string, name: string, value: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    localStorage.setItem(getItemName(userId, name), value);
+    return;
+  }
+  await FileSystem.makeDirectoryAsync(getUserDirectory(userId), { intermediates: true });
+  await FileSystem.writeAsStringAsync(`${getUserDirectory(userId)}${name}`, value);
+}
+
+/**
+ * Read and decrypt a stored value. Returns null if missing or unreadable.
+ */
+export async function readEncryptedItem<T>(userId: string, name: string): Promise<T | null> {
+  const raw = await readRaw(userId, name);
+  if (!raw) return null;
+  try {
+    const key = await getStorageKey(userId);
+    const sealed = naclUtil.decodeBase64(raw);
+    const nonce = sealed.subarray(0, SECRETBOX_NONCE_BYTES);
+    const box = sealed.subarray(SECRETBOX_NONCE_BYTES);
+    const opened = getCryptoProvider().secretboxOpen(box, nonce, key);
+    if (!opened) throw new Error('Local state authentication failed');
+    return JSON.parse(naclUtil.encodeUTF8(opened)) as T;
+  } catch (error) {
+    console.warn(`Failed to read local state "${name}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Encrypt and persist a JSON-serializable value
+ */
+export async function writeEncryptedItem(userId: string, name: string, value: unknown): Promise<void> {
+  const key = await getStorageKey(userId);
+  const nonce = getCryptoProvider().randomBytes(SECRETBOX_NONCE_BYTES);
+  const box = getCryptoProvider().secretbox(naclUtil.decodeUTF8(JSON.stringify(value)), nonce, key);
+  const sealed = new Uint8Array(nonce.length + box.length);
+  sealed.set(nonce);
+  sealed.set(box, nonce.length);
+  await writeRaw(userId, name, naclUtil.encodeBase64(sealed));
+}
+
+/**
+ * Remove a single stored value
+ */
+export async function removeEncryptedItem(userId: string, name: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    localStorage.removeItem(getItemName(userId, name));
+    return;
+  }
+  await FileSystem.deleteAsync(`${getUserDirectory(userId)}${name}`, { idempotent: true });
+}
+
+/**
+ * Remove every stored value and the storage key for a user (for account reset/wipe)
+ */
+export async function clearLocalState(userId: string): Promise<void> {
+  storageKeys.delete(userId);
+  if (Platform.OS === 'web') {
+    const prefix = getItemName(userId, '');
+    Object.keys(localStorage)
+      .filter((name) => name.startsWith(prefix))
+      .forEach((name) => localStorage.removeItem(name));
+    localStorage.removeItem(getStorageKeyName(userId));
+    try {
+      await deleteWebKeystoreItem(userId, WEB_KEYSTORE_ITEM);
+    } catch (err) {
+      console.warn('Failed to clear local state for user:', err);
+    }
+    return;
+  }
+  try {
+    await FileSystem.deleteAsync(getUserDirectory(userId), { idempotent: true });
+    await SecureStore.deleteItemAsync(getStorageKeyName(userId));
+  } catch (err) {
+    console.warn('Failed to clear local state for user:', err);
+  }
+}
@@ -0,0 +1,215 @@
+import * as naclUtil from 'tweetnacl-util';
+import * as LegacyFileSystem from 'expo-file-system/legacy';
+import { File, Paths } from 'expo-file-system';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { decryptFileData } from '../utils/messageCrypto';
+import { createStreamDecryptor, createStreamEncryptor, getMediaStreamHeaderLength } from '../utils/mediaStream';
+import { DEFAULT_MEDIA_PADDING, PaddingPolicy } from '../utils/padding';
+
+/**
+ * Encrypted media in the message-media bucket.
+ *
+ * Files are encrypted and decrypted chunk by chunk (utils/mediaStream) so large
+ * videos never have to sit in memory as one buffer or base64 string:
+ * - Web: Blob slices in, Blob parts out, played back through object URLs
+ * - Mobile: file handles in the cache directory, uploaded/downloaded natively
+ * Uploads are padded per the conversation's padding policy (utils/padding).
+ */
+
+export const MEDIA_BUCKET = 'message-media';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+};
+
+function getExtension(mimeType: string): string {
+  return EXTENSIONS[mimeType] || (mimeType.startsWith('video') ? 'mp4' : 'jpg');
+}
+
+function tempFile(extension: string): File {
+  return new File(Paths.cache, `media_${Date.now()}_${Math.random().toString(36).slice(2)}.${extension}`);
+}
+
+async function encryptBlob(key: Uint8Array, source: Blob, padding: PaddingPolicy): Promise<Blob> {
+  const encryptor = createStreamEncryptor(key, source.size, padding);
+  const parts: BlobPart[] = [encryptor.header as Uint8Array<ArrayBuffer>];
+  let offset = 0;
+  do {
+    const end = Math.min(offset + encryptor.chunkSize, source.size);
+    const chunk = new Uint8Array(await source.slice(offset, end).arrayBuffer());
+    parts.push(encryptor.push(chunk, end === source.size) as Uint8Array<ArrayBuffer>);
+    offset = end;
+  } while (offset < source.size);
+  for (const chunk of encryptor.padding()) {
+    parts.push(chunk as Uint8Array<ArrayBuffer>);
+  }
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
+
+async function decryptBlob(key: Uint8Array, source: Blob, mimeType: string): Promise<Blob> {
+  const version = new Uint8Array(await source.slice(0, 1).arrayBuffer())[0];
+  const headerLength = getMediaStreamHeaderLength(version);
+  const header = new Uint8Array(await source.slice(0, headerLength).arrayBuffer());
+  const decryptor = createStreamDecryptor(key, header);
+  const parts: BlobPart[] = [];
+  let offset = headerLength;
+  while (offset < source.size) {
+    const end = Math.min(offset + decryptor.encryptedChunkSize, source.size);
+    const { plaintext } = decryptor.pull(new Uint8Array(await source.slice(offset, end).arrayBuffer()));
+    parts.push(plaintext as Uint8Array<ArrayBuffer>);
+    offset = end;
+  }
+  decryptor.finish();
+  return new Blob(parts, { type: mimeType });
+}
+
+function encryptFile(key: Uint8Array, sourceUri: string, padding: PaddingPolicy): File {
+  const source = new File(sourceUri);
+  const size = source.size;
+  const output = tempFile('enc');
+  output.create();
+  const input = source.open();
+  const out = output.open();
+  try {
+    const encryptor = createStreamEncryptor(key, size, padding);
+    out.writeBytes(encryptor.header);
+    let offset = 0;
+    do {
+      const length = Math.min(encryptor.chunkSize, size - offset);
+      const chunk = length > 0 ? input.readBytes(length) : new Uint8Array(0);
+      offset += chunk.length;
+      out.writeBytes(encryptor.push(chunk, offset >= size));
+    } while (offset < size);
+    for (const chunk of encryptor.padding()) {
+      out.writeBytes(chunk);
+    }
+  } catch (error) {
+    out.close();
+    output.delete();
+    throw error;
+  } finally {
+    input.close();
+  }
+  out.close();
+  return output;
+}
+
+function decryptFile(key: Uint8Array, encrypted: File, mimeType: string): File {
+  const size = encrypted.size;
+  const output = tempFile(getExtension(mimeType));
+  output.create();
+  const input = encrypted.open();
+  const out = output.open();
+  try {
+    const version = input.readBytes(1);
+    const headerLength = getMediaStreamHeaderLength(version[0]);
+    const header = new Uint8Array(headerLength);
+    header.set(version);
+    header.set(input.readBytes(headerLength - 1), 1);
+    const decryptor = createStreamDecryptor(key, header);
+    let offset = headerLength;
+    while (offset < size) {
+      const chunk = input.readBytes(Math.min(decryptor.encryptedChunkSize, size - offset));
+      offset += chunk.length;
+      out.writeBytes(decryptor.pull(chunk).plaintext);
+    }
+    decryptor.finish();
+  } catch (error) {
+    out.close();
+    output.delete();
+    throw error;
+  } finally {
+    input.close();
+  }
+  out.close();
+  return output;
+}
+
+/**
+ * Encrypt a file, padded per `padding`, and upload it to `filePath`.
+ * `source` is a Blob/File on web and a local file URI on mobile.
+ */
+export async function uploadEncryptedMedia(
+  source: Blob | string,
+  key: Uint8Array,
+  filePath: string,
+  padding: PaddingPolicy = DEFAULT_MEDIA_PADDING
+): Promise<void> {
+  if (Platform.OS === 'web') {
+    const encrypted = await encryptBlob(key, source as Blob, padding);
+    const { error } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(filePath, encrypted, { contentType: 'application/octet-stream', upsert: false });
+    if (error) throw error;
+    return;
+  }
+
+  const encrypted = encryptFile(key, source as string, padding);
+  try {
+    // Upload straight from disk instead of through a JS buffer
+    const { data, error } = await supabase.storage.from(MEDIA_BUCKET).createSignedUploadUrl(filePath);
+    if (error) throw error;
+    const result = await LegacyFileSystem.uploadAsync(data.signedUrl, encrypted.uri, {
+      httpMethod: 'PUT',
+      uploadType: LegacyFileSystem.FileSystemUploadType.BINARY_CONTENT,
+      headers: { 'Content-Type': 'application/octet-stream' },
+    });
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`Media upload failed with status ${result.status}`);
+    }
+  } finally {
+    encrypted.delete();
+  }
+}
+
+/**
+ * Download and decrypt media, returning a URI the Image/Video components can load
+ * (an object URL on web, a file in the cache directory on mobile).
+ * Files with a `legacyNonce` predate the stream format and are opened in one piece.
+ */
+export async function downloadDecryptedMedia(
+  filePath: string,
+  key: Uint8Array,
+  options: { mimeType?: string; legacyNonce?: string } = {}
+): Promise<string> {
+  const mimeType = options.mimeType || 'image/jpeg';
+
+  if (Platform.OS === 'web') {
+    const { data, error } = await supabase.storage.from(MEDIA_BUCKET).download(filePath);
+    if (error) throw error;
+    if (options.legacyNonce) {
+      const encrypted = naclUtil.encodeBase64(new Uint8Array(await data.arrayBuffer()));
+      const decrypted = decryptFileData(key, encrypted, options.legacyNonce);
+      return URL.createObjectURL(new Blob([decrypted as Uint8Array<ArrayBuffer>], { type: mimeType }));
+    }
+    return URL.createObjectURL(await decryptBlob(key, data, mimeType));
+  }
+
+  const { data, error } = await supabase.storage.from(MEDIA_BUCKET).createSignedUrl(filePath, 60);
+  if (error) throw error;
+  const encrypted = tempFile('enc');
+  try {
+    const result = await LegacyFileSystem.downloadAsync(data.signedUrl, encrypted.uri);
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`Media download failed with status ${result.status}`);
+    }
+    if (options.legacyNonce) {
+      const ciphertext = naclUtil.encodeBase64(await encrypted.bytes());
+      const decrypted = decryptFileData(key, ciphertext, options.legacyNonce);
+      const output = tempFile(getExtension(mimeType));
+      output.write(decrypted);
+      return output.uri;
+    }
+    return decryptFile(key, encrypted, mimeType).uri;
+  } finally {
+    if (encrypted.exists) encrypted.delete();
+  }
+}
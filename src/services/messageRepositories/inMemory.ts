@@ -0,0 +1,224 @@
+import { Device, GalleryItem, Message, MessageRevision, PrekeyBundle } from '../../types';
+import type {
+  MessageChangeHandlers,
+  MessagePosition,
+  MessageRepository,
+  PublishedKeys,
+  SignalChannelHandlers,
+} from '../messageRepository';
+
+/**
+ * Message repository kept in memory, for running the messaging service in Node.
+ *
+ * Several services (one per simulated user or device) can share one repository
+ * and see each other's messages. Uploads keep only the content key they were
+ * encrypted under; no file is read. Devices have no prekey bundles unless
+ * seeded, so new sessions use static-static agreement.
+ */
+
+export interface InMemoryMessageRepository extends MessageRepository {
+  users: Map<string, PublishedKeys>;
+  devices: Map<string, Device>;
+  prekeyBundles: Map<string, PrekeyBundle>;
+  messages: Message[];
+  revisions: MessageRevision[];
+  galleryItems: GalleryItem[];
+  // Content keys of uploaded files, by file path
+  uploads: Map<string, Uint8Array>;
+  // last_message_at of each touched conversation
+  conversations: Map<string, string>;
+}
+
+// Sign of a message's place relative to a position, in (created_at, id) order
+function comparePosition(message: Message, { created_at, id }: MessagePosition): number {
+  if (message.created_at !== created_at || !id) return message.created_at < created_at ? -1 : 1;
+  return message.id < id ? -1 : message.id > id ? 1 : 0;
+}
+
+export function createInMemoryMessageRepository(): InMemoryMessageRepository {
+  const listeners = new Map<string, Set<MessageChangeHandlers>>();
+  // Open signal channels of each conversation, with their presence payload
+  const signalChannels = new Map<string, Map<SignalChannelHandlers, string | null>>();
+  let sequence = 0;
+
+  const nextId = (prefix: string) => `${prefix}-${++sequence}`;
+  // Strictly increasing timestamps so ordering by created_at is stable
+  let lastTime = 0;
+  const now = () => {
+    lastTime = Math.max(Date.now(), lastTime + 1);
+    return new Date(lastTime).toISOString();
+  };
+
+  // Handlers run after the change returns, like realtime events
+  const notify = (message: Message, event: keyof MessageChangeHandlers) => {
+    for (const handlers of listeners.get(message.conversation_id) || []) {
+      setTimeout(() => handlers[event](message), 0);
+    }
+  };
+
+  const repository: InMemoryMessageRepository = {
+    users: new Map(),
+    devices: new Map(),
+    prekeyBundles: new Map(),
+    messages: [],
+    revisions: [],
+    galleryItems: [],
+    uploads: new Map(),
+    conversations: new Map(),
+
+    fetchMessages: async (conversationId, { before, after, limit }) => {
+      const messages = repository.messages.filter(
+        (message) =>
+          message.conversation_id === conversationId &&
+          (!before || comparePosition(message, before) < 0) &&
+          (!after || comparePosition(message, after) > 0)
+      );
+      return after ? messages.slice(0, limit) : messages.slice(-limit);
+    },
+
+    insertMessage: async (newMessage) => {
+      const message: Message = { ...newMessage, id: nextId('message'), created_at: now() };
+      repository.messages.push(message);
+      notify({ ...message }, 'onInsert');
+      return message;
+    },
+
+    updateMessageContent: async (messageId, content) => {
+      const message = repository.messages.find((m) => m.id === messageId);
+      if (!message) throw new Error(`No message ${messageId}`);
+      // Archived like archive_message_revision does; the edit window is not enforced here
+      const { delivered, read, delivered_at, read_at, id, ...replaced } = message;
+      repository.revisions.push({ ...replaced, id: nextId('revision'), message_id: id, replaced_at: now() });
+      delete message.ciphertext;
+      delete message.ciphertext_sender;
+      delete message.ephemeral_pubkey;
+      delete message.ephemeral_pubkey_sender;
+      Object.assign(message, content, { edited_at: now() });
+      notify({ ...message }, 'onUpdate');
+      return { ...message };
+    },
+
+    deleteMessage: async (messageId) => {
+      const message = repository.messages.find((m) => m.id === messageId);
+      if (!message) throw new Error(`No message ${messageId}`);
+      // Same as apply_message_tombstone
+      if (!message.deleted_at) {
+        for (const key of [
+          'sender_device',
+          'device_ciphertexts',
+          'ciphertext',
+          'ciphertext_sender',
+          'ephemeral_pubkey',
+          'ephemeral_pubkey_sender',
+          'attached_files',
+          'metadata',
+          'edited_at',
+        ] as const) {
+          delete message[key];
+        }
+        message.deleted_at = now();
+        repository.revisions = repository.revisions.filter((revision) => revision.message_id !== messageId);
+        notify({ ...message }, 'onUpdate');
+      }
+      return { ...message };
+    },
+
+    removeMedia: async (filePath) => {
+      repository.uploads.delete(filePath);
+    },
+
+    removeGalleryItems: async (filePath) => {
+      repository.galleryItems = repository.galleryItems.filter((item) => item.file_path !== filePath);
+    },
+
+    fetchRevisions: async (messageId) => repository.revisions.filter((revision) => revision.message_id === messageId),
+
+    subscribe: (conversationId, handlers) => {
+      let conversationListeners = listeners.get(conversationId);
+      if (!conversationListeners) {
+        conversationListeners = new Set();
+        listeners.set(conversationId, conversationListeners);
+      }
+      conversationListeners.add(handlers);
+      return () => {
+        conversationListeners!.delete(handlers);
+      };
+    },
+
+    acknowledgeMessages: async (messageIds, receipt) => {
+      for (const message of repository.messages) {
+        if (!messageIds.includes(message.id)) continue;
+        // Same rules as protect_message_receipts: receipts are stamped once and imply delivery
+        const read = message.read || receipt === 'read';
+        if (read === message.read && message.delivered) continue;
+        const time = now();
+        if (!message.delivered) message.delivered_at = time;
+        if (read && !message.read) message.read_at = time;
+        message.delivered = true;
+        message.read = read;
+        notify({ ...message }, 'onUpdate');
+      }
+    },
+
+    touchConversation: async (conversationId) => {
+      repository.conversations.set(conversationId, now());
+    },
+
+    openSignalChannel: (conversationId, handlers) => {
+      let channels = signalChannels.get(conversationId);
+      if (!channels) {
+        channels = new Map();
+        signalChannels.set(conversationId, channels);
+      }
+      const members = channels;
+      members.set(handlers, null);
+      // Every client sees the presence of the others
+      const syncPresence = () => {
+        for (const member of members.keys()) {
+          const present = [...members].filter(([other, sealed]) => other !== member && sealed).map(([, sealed]) => sealed!);
+          setTimeout(() => member.onPresence(present), 0);
+        }
+      };
+      return {
+        broadcast: async (sealed) => {
+          for (const member of members.keys()) {
+            if (member !== handlers) setTimeout(() => member.onBroadcast(sealed), 0);
+          }
+        },
+        setPresence: async (sealed) => {
+          members.set(handlers, sealed);
+          syncPresence();
+        },
+        close: () => {
+          members.delete(handlers);
+          syncPresence();
+        },
+      };
+    },
+
+    fetchPublishedKeys: async (userId) => repository.users.get(userId) || null,
+
+    fetchActiveDevices: async (userId) =>
+      [...repository.devices.values()].filter((device) => device.user_id === userId && !device.revoked_at),
+
+    fetchDevice: async (deviceId) => repository.devices.get(deviceId) || null,
+
+    claimPrekeyBundle: async (deviceId) => {
+      const bundle = repository.prekeyBundles.get(deviceId);
+      if (!bundle) return null;
+      // Each one-time prekey is handed out once
+      repository.prekeyBundles.set(deviceId, { ...bundle, oneTimePrekey: null });
+      return bundle;
+    },
+
+    uploadMedia: async (_source, contentKey, filePath) => {
+      if (repository.uploads.has(filePath)) throw new Error(`File already exists: ${filePath}`);
+      repository.uploads.set(filePath, contentKey.slice());
+    },
+
+    insertGalleryItem: async (item) => {
+      repository.galleryItems.push({ ...item, id: nextId('gallery'), created_at: now() });
+    },
+  };
+  return repository;
+}
@@ -0,0 +1,184 @@
+import { supabase } from '../supabase';
+import { MEDIA_BUCKET, uploadEncryptedMedia } from '../mediaStorage';
+import { fetchPrekeyBundle } from '../prekeys';
+import { listDevices } from '../devices';
+import { updateConversationTimestamp } from '../conversations';
+import { Device, Message, MessageRevision } from '../../types';
+import type { MessagePosition, MessageRepository } from '../messageRepository';
+
+// PostgREST or() filter for rows strictly past a position in (created_at, id) order
+function pastPosition(op: 'gt' | 'lt', { created_at, id }: MessagePosition): string {
+  // Timestamps contain reserved characters (':', '.', '+') and must be quoted
+  const at = `"${created_at}"`;
+  return id ? `created_at.${op}.${at},and(created_at.eq.${at},id.${op}.${id})` : `created_at.${op}.${at}`;
+}
+
+/**
+ * Message repository backed by Supabase tables, realtime and storage
+ */
+export function createSupabaseMessageRepository(): MessageRepository {
+  return {
+    fetchMessages: async (conversationId, { before, after, limit }) => {
+      // Served by the (conversation_id, created_at, id) index
+      let query = supabase.from('messages').select('*').eq('conversation_id', conversationId);
+      if (after) {
+        const { data, error } = await query
+          .or(pastPosition('gt', after))
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(limit);
+        if (error) throw error;
+        return (data || []) as Message[];
+      }
+      if (before) query = query.or(pastPosition('lt', before));
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return ((data || []) as Message[]).reverse();
+    },
+
+    insertMessage: async (message) => {
+      const { data, error } = await supabase.from('messages').insert(message).select().single();
+      if (error) throw error;
+      return data as Message;
+    },
+
+    updateMessageContent: async (messageId, content) => {
+      // archive_message_revision keeps the replaced version and sets edited_at
+      const { data, error } = await supabase
+        .from('messages')
+        .update({
+          ciphertext: null,
+          ciphertext_sender: null,
+          ephemeral_pubkey: null,
+          ephemeral_pubkey_sender: null,
+          ...content,
+        })
+        .eq('id', messageId)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as Message;
+    },
+
+    fetchRevisions: async (messageId) => {
+      const { data, error } = await supabase
+        .from('message_revisions')
+        .select('*')
+        .eq('message_id', messageId)
+        .order('replaced_at', { ascending: true });
+      if (error) throw error;
+      return (data || []) as MessageRevision[];
+    },
+
+    deleteMessage: async (messageId) => {
+      // Only the flag is sent; apply_message_tombstone stamps it and wipes the content
+      const { data, error } = await supabase
+        .from('messages')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', messageId)
+        .select()
+        .single();
+      if (error) throw error;
+      return data as Message;
+    },
+
+    removeMedia: async (filePath) => {
+      const { error } = await supabase.storage.from(MEDIA_BUCKET).remove([filePath]);
+      if (error) throw error;
+    },
+
+    removeGalleryItems: async (filePath) => {
+      const { error } = await supabase.from('galleries').delete().eq('file_path', filePath);
+      if (error) throw error;
+    },
+
+    subscribe: (conversationId, { onInsert, onUpdate }) => {
+      const filter = `conversation_id=eq.${conversationId}`;
+      const channel = supabase
+        .channel(`messages:${conversationId}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter }, (payload) =>
+          onInsert(payload.new as Message)
+        )
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages', filter }, (payload) =>
+          onUpdate(payload.new as Message)
+        )
+        .subscribe();
+      return () => {
+        channel.unsubscribe();
+      };
+    },
+
+    acknowledgeMessages: async (messageIds, receipt) => {
+      // Only the flag is sent; protect_message_receipts sets the timestamp
+      const { error } = await supabase
+        .from('messages')
+        .update(receipt === 'read' ? { read: true } : { delivered: true })
+        .in('id', messageIds);
+      if (error) throw error;
+    },
+
+    touchConversation: updateConversationTimestamp,
+
+    openSignalChannel: (conversationId, { onBroadcast, onPresence }) => {
+      // Presence entries are keyed per client so our own can be told apart
+      const clientId = Math.random().toString(36).slice(2);
+      const channel = supabase.channel(`signals:${conversationId}`, { config: { presence: { key: clientId } } });
+      channel
+        .on('broadcast', { event: 'signal' }, ({ payload }) => {
+          if (typeof payload?.sealed === 'string') onBroadcast(payload.sealed);
+        })
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<{ sealed?: string }>();
+          onPresence(
+            Object.entries(state)
+              .filter(([key]) => key !== clientId)
+              .flatMap(([, entries]) => entries.map((entry) => entry.sealed))
+              .filter((sealed): sealed is string => typeof sealed === 'string')
+          );
+        })
+        .subscribe();
+      return {
+        broadcast: async (sealed) => {
+          await channel.send({ type: 'broadcast', event: 'signal', payload: { sealed } });
+        },
+        setPresence: async (sealed) => {
+          if (sealed) await channel.track({ sealed });
+          else await channel.untrack();
+        },
+        close: () => {
+          channel.unsubscribe();
+        },
+      };
+    },
+
+    fetchPublishedKeys: async (userId) => {
+      const { data, error } = await supabase
+        .from('users')
+        .select('public_key, signing_public_key, identity_rotations')
+        .eq('id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    fetchActiveDevices: listDevices,
+
+    fetchDevice: async (deviceId) => {
+      const { data, error } = await supabase.from('devices').select('*').eq('id', deviceId).maybeSingle();
+      if (error) throw error;
+      return data as Device | null;
+    },
+
+    claimPrekeyBundle: fetchPrekeyBundle,
+
+    uploadMedia: uploadEncryptedMedia,
+
+    insertGalleryItem: async (item) => {
+      const { error } = await supabase.from('galleries').insert(item);
+      if (error) throw error;
+    },
+  };
+}
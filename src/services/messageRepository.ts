@@ -0,0 +1,99 @@
+import { Device, GalleryItem, Message, MessageEnvelope, MessageRevision, PrekeyBundle, User } from '../types';
+import { PaddingPolicy } from '../utils/padding';
+
+/**
+ * Storage behind the messaging service (services/messaging): messages, the
+ * published keys and devices of users, prekey bundles and encrypted media.
+ *
+ * The app uses the Supabase implementation (messageRepositories/supabase);
+ * the in-memory one (messageRepositories/inMemory) runs the whole send and
+ * receive path in Node without a backend or a device.
+ */
+
+// Published keys of a user, checked against the pinned identity (services/trustStore)
+export type PublishedKeys = Pick<User, 'public_key' | 'signing_public_key' | 'identity_rotations'>;
+
+// A message row as inserted: the signed envelope plus delivery flags
+export type NewMessage = MessageEnvelope & Pick<Message, 'delivered' | 'read'>;
+
+// Replacement content of an edited message, signed like a new envelope
+export type MessageContent = Pick<MessageEnvelope, 'sender_device' | 'device_ciphertexts' | 'ciphertext' | 'metadata'>;
+
+export type NewGalleryItem = Omit<GalleryItem, 'id' | 'created_at'>;
+
+// A place in a conversation's history. Messages are ordered by created_at, then
+// id among those sent at the same time; without an id the position is a point in time.
+export interface MessagePosition {
+  created_at: string;
+  id?: string;
+}
+
+// A page of history next to a position: older than `before` or newer than `after`
+export interface MessageRange {
+  before?: MessagePosition;
+  after?: MessagePosition;
+  limit: number;
+}
+
+// Acknowledgement a recipient sends for a message; 'read' implies 'delivered'
+export type ReceiptKind = 'delivered' | 'read';
+
+export interface MessageChangeHandlers {
+  onInsert: (message: Message) => void;
+  // Receipts, edits and deletion of a message already in the conversation
+  onUpdate: (message: Message) => void;
+}
+
+// Sealed typing and presence signals of a conversation (utils/conversationSignals); never stored
+export interface SignalChannelHandlers {
+  onBroadcast: (sealed: string) => void;
+  // Presence payloads of every other client currently in the conversation
+  onPresence: (sealed: string[]) => void;
+}
+
+export interface SignalChannel {
+  broadcast(sealed: string): Promise<void>;
+  /** Announce this client with a presence payload, or withdraw it with null */
+  setPresence(sealed: string | null): Promise<void>;
+  close(): void;
+}
+
+export interface MessageRepository {
+  /** Up to `limit` messages next to the cursor (the latest ones without one), oldest first */
+  fetchMessages(conversationId: string, range: MessageRange): Promise<Message[]>;
+  insertMessage(message: NewMessage): Promise<Message>;
+  /**
+   * Replace the content of a message sent by the current user, clearing any
+   * legacy ciphertext columns. The server archives the replaced version and
+   * stamps edited_at, and refuses edits past its edit window.
+   */
+  updateMessageContent(messageId: string, content: MessageContent): Promise<Message>;
+  /** Earlier versions of a message, oldest first */
+  fetchRevisions(messageId: string): Promise<MessageRevision[]>;
+  /**
+   * Delete a message sent by the current user for everyone. The server keeps
+   * a tombstone: the content and earlier versions are wiped, deleted_at is set.
+   */
+  deleteMessage(messageId: string): Promise<Message>;
+  /** Remove an uploaded file from storage */
+  removeMedia(filePath: string): Promise<void>;
+  /** Remove the gallery entries of an uploaded file, for both participants */
+  removeGalleryItems(filePath: string): Promise<void>;
+  /** Follow messages added to or changed in the conversation. Returns an unsubscribe function. */
+  subscribe(conversationId: string, handlers: MessageChangeHandlers): () => void;
+  /** Acknowledge messages sent to the current user; the server stamps the time */
+  acknowledgeMessages(messageIds: string[], receipt: ReceiptKind): Promise<void>;
+  /** Join the conversation's signal channel. Nothing sent on it is stored. */
+  openSignalChannel(conversationId: string, handlers: SignalChannelHandlers): SignalChannel;
+  touchConversation(conversationId: string): Promise<void>;
+  fetchPublishedKeys(userId: string): Promise<PublishedKeys | null>;
+  /** Devices of a user that were not revoked, oldest first. Certificates are not checked. */
+  fetchActiveDevices(userId: string): Promise<Device[]>;
+  /** A device by id, including revoked ones. The certificate is not checked. */
+  fetchDevice(deviceId: string): Promise<Device | null>;
+  /** Claim a device's prekey bundle (and one of its one-time prekeys); null if it has none */
+  claimPrekeyBundle(deviceId: string): Promise<PrekeyBundle | null>;
+  /** Encrypt a file or Blob under a content key and store it (services/mediaStorage) */
+  uploadMedia(source: string | Blob, contentKey: Uint8Array, filePath: string, padding: PaddingPolicy): Promise<void>;
+  insertGalleryItem(item: NewGalleryItem): Promise<void>;
+}
@@ -0,0 +1,656 @@
+import type { LocalDevice } from './devices';
+import type { getHiddenMessageIds, hideMessages } from './hiddenMessages';
+import { MessagePosition, MessageRepository, ReceiptKind } from './messageRepository';
+import type { getPrivacySettings } from './privacySettings';
+import type { ConversationContext, ConversationSessions } from './ratchetSessions';
+import { MediaUpload, shareMedia } from './sharedMedia';
+import type { acceptContactIdentity, checkContactIdentity, IdentityCheck } from './trustStore';
+import { DecryptedMessageItem, Device, IdentityKeys, Keypair, Message, MessageEnvelope, User } from '../types';
+import { encodeEnvelope, parseStoredCiphertext } from '../utils/envelope';
+import { withIdentityKeys } from '../utils/identityKeys';
+import { decryptMessageWithEphemeral, encryptMessageWithEphemeral } from '../utils/messageCrypto';
+import {
+  decodeMessagePayload,
+  encodeMessagePayload,
+  MESSAGE_PAYLOAD_VERSION,
+  toReplyExcerpt,
+} from '../utils/messagePayload';
+import { signMessageEnvelope, verifyDeviceCertificate, verifyMessageEnvelope } from '../utils/signatures';
+
+/**
+ * Sending and receiving in a 1:1 conversation, independent of the UI.
+ *
+ * Messages are encrypted per device through ratchet sessions, signed with the
+ * account signing key and stored through a MessageRepository; received ones are
+ * verified and decrypted the same way. Keys and on-device state are passed in,
+ * so the service has no platform dependencies and runs in Node as well.
+ */
+
+/**
+ * What the service keeps on this device, encrypted at rest. The app's is
+ * services/messagingStorage; Node runs pass in-memory stand-ins.
+ */
+export interface MessagingStorage {
+  sessions: ConversationSessions;
+  // Pinned contact identities, as in services/trustStore
+  checkContactIdentity: typeof checkContactIdentity;
+  acceptContactIdentity: typeof acceptContactIdentity;
+  getPrivacySettings: typeof getPrivacySettings;
+  // Messages deleted for this device only, as in services/hiddenMessages
+  getHiddenMessageIds: typeof getHiddenMessageIds;
+  hideMessages: typeof hideMessages;
+}
+
+export interface MessagingServiceOptions {
+  repository: MessageRepository;
+  storage: MessagingStorage;
+  conversationId: string;
+  currentUser: User;
+  otherUser: User;
+  // The unlocked account keys (services/keyring in the app)
+  getKeypair: (userId: string) => Keypair;
+  // This install's registered device (services/devices in the app)
+  getDevice: (userId: string) => Promise<LocalDevice | null>;
+  // Called each time the contact's keys are checked against the pinned identity
+  onIdentityCheck?: (check: IdentityCheck) => void;
+  // How long after sending a message it can be edited; keep within the server's message_edit_window
+  editWindowMs?: number;
+}
+
+// Messages fetched and decrypted per history page
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Default edit window, the same as the server's message_edit_window()
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+// Where a history page starts: the latest messages, or older than `before` / newer than `after`
+export type HistoryCursor = { before?: MessagePosition; after?: MessagePosition };
+
+export interface HistoryPage {
+  /** Oldest first */
+  messages: DecryptedMessageItem[];
+  /** More messages exist beyond this page, in the direction it was fetched */
+  hasMore: boolean;
+}
+
+// Receipt fields of a sent message, updated as the recipient acknowledges it
+export type MessageReceipt = Pick<Message, 'id' | 'delivered' | 'read' | 'delivered_at' | 'read_at'>;
+
+export interface MessageListener {
+  onMessage: (message: DecryptedMessageItem) => void;
+  onReceipt: (receipt: MessageReceipt) => void;
+  // A message was edited or deleted for everyone; it replaces the version with the same id
+  onChange: (message: DecryptedMessageItem) => void;
+}
+
+export interface MessagingService {
+  /** One page of the conversation's history; only the messages on it are decrypted */
+  fetchHistory(cursor?: HistoryCursor): Promise<HistoryPage>;
+  /**
+   * Decrypt and pass on every new message, acknowledging the contact's as
+   * delivered, and pass on receipts, edits and deletions. Returns an unsubscribe function.
+   */
+  subscribe(listener: MessageListener): () => void;
+  /** Acknowledge the contact's messages as read, unless read receipts are turned off. Never rejects. */
+  markRead(messages: Message[]): Promise<void>;
+  /** Send a text message, optionally as a reply quoting an earlier message */
+  sendText(text: string, replyTo?: DecryptedMessageItem): Promise<Message>;
+  /** Encrypt and upload a file, save it to the shared gallery and send it as an attachment */
+  sendMedia(upload: MediaUpload): Promise<Message>;
+  /** Own text messages can be edited until the edit window closes */
+  canEdit(message: DecryptedMessageItem): boolean;
+  /** Replace the text of an own message; the replaced version is kept as a revision */
+  editText(message: DecryptedMessageItem, text: string): Promise<Message>;
+  /** Earlier versions of an edited message, oldest first */
+  fetchEditHistory(message: Message): Promise<DecryptedMessageItem[]>;
+  canDeleteForEveryone(message: DecryptedMessageItem): boolean;
+  /** Replace an own message with a tombstone for both users and remove its media */
+  deleteForEveryone(message: DecryptedMessageItem): Promise<Message>;
+  /** Hide messages on this device only; returns every hidden message id */
+  deleteForMe(messages: Message[]): Promise<Set<string>>;
+  getHiddenMessageIds(): Promise<Set<string>>;
+  decryptMessage(message: Message): Promise<DecryptedMessageItem>;
+  /** The contact's published keys checked against the pinned identity (services/trustStore) */
+  getPeerIdentity(): Promise<IdentityCheck>;
+  /** Pin the contact's new keys and start new sessions with them */
+  acceptPeerKeyChange(): Promise<void>;
+  getSigningPublicKey(userId: string): Promise<string | null>;
+}
+
+export function createMessagingService({
+  repository,
+  storage,
+  conversationId,
+  currentUser,
+  otherUser,
+  getKeypair,
+  getDevice,
+  onIdentityCheck,
+  editWindowMs = MESSAGE_EDIT_WINDOW_MS,
+}: MessagingServiceOptions): MessagingService {
+  const { sessions } = storage;
+  // Plaintexts of messages sent from here, by version id
+  const sentMessages = new Map<string, string>();
+  // Versions already decrypted and passed on, so a receipt on an edited message isn't taken for an edit
+  const seenVersions = new Set<string>();
+  // Signing public keys by user id, fetched fresh rather than trusted from the caller
+  const signingKeys = new Map<string, Promise<string | null>>();
+  // Sender devices by id, checked against their account's signing key
+  const devices = new Map<string, Promise<Device | null>>();
+  let peerIdentity: Promise<IdentityCheck> | null = null;
+  // Receipts sent from here (`${receipt}:${messageId}`), so each goes out once
+  const acknowledged = new Set<string>();
+
+  const warn = (action: string) => (error: unknown) => console.warn(`Failed to ${action}:`, error);
+
+  // Each edit is a new version of a message, encrypted and cached separately; a tombstone is the last one
+  const versionId = (message: Message) =>
+    message.deleted_at ? `${message.id}:deleted` : message.edited_at ? `${message.id}@${message.edited_at}` : message.id;
+
+  // Session between account identity keys, for messages from before devices existed
+  const toConversationContext = (keypair: Keypair, peer: IdentityKeys): ConversationContext => ({
+    userId: currentUser.id,
+    conversationId,
+    // Locally cached keypairs may lack the public half; the profile always has it
+    identity: { ...keypair, publicKey: currentUser.public_key },
+    peerUserId: otherUser.id,
+    peerDeviceId: null,
+    peerIdentityKey: peer.publicKey,
+  });
+
+  // Session between this device and one of the contact's or our own other devices
+  const toDeviceContext = (device: LocalDevice, peer: Device): ConversationContext => ({
+    userId: currentUser.id,
+    conversationId,
+    identity: device.keypair,
+    peerUserId: peer.user_id,
+    peerDeviceId: peer.id,
+    peerIdentityKey: peer.public_key,
+    peerSigningKey: peer.signing_public_key,
+    fetchPrekeyBundle: repository.claimPrekeyBundle,
+  });
+
+  const getSigningPublicKey = (userId: string): Promise<string | null> => {
+    let key = signingKeys.get(userId);
+    if (!key) {
+      key = repository.fetchPublishedKeys(userId).then((keys) => keys?.signing_public_key || null);
+      signingKeys.set(userId, key);
+      key.catch(() => signingKeys.delete(userId));
+    }
+    return key;
+  };
+
+  /**
+   * Fetch the contact's published keys and check them against the pinned
+   * identity. Until a change is accepted, the pinned keys stay in use.
+   */
+  const getPeerIdentity = (): Promise<IdentityCheck> => {
+    if (!peerIdentity) {
+      const check = (async () => {
+        const keys = await repository.fetchPublishedKeys(otherUser.id);
+        if (!keys) throw new Error(`${otherUser.username} has no published keys`);
+        const result = await storage.checkContactIdentity(
+          currentUser.id,
+          otherUser.id,
+          { publicKey: keys.public_key, signingPublicKey: keys.signing_public_key || undefined },
+          keys.identity_rotations || []
+        );
+        onIdentityCheck?.(result);
+        return result;
+      })();
+      peerIdentity = check;
+      check.catch(() => {
+        if (peerIdentity === check) peerIdentity = null;
+      });
+    }
+    return peerIdentity;
+  };
+
+  // Sending is blocked while the contact's keys differ from the pinned ones
+  const getTrustedPeer = async (): Promise<IdentityCheck> => {
+    const peer = await getPeerIdentity();
+    if (peer.status === 'changed') {
+      throw new Error(`${otherUser.username}'s keys changed. Review them before sending.`);
+    }
+    return peer;
+  };
+
+  // Active devices of a user whose certificate verifies against their signing key
+  const fetchCertifiedDevices = async (userId: string, signingPublicKey: string | undefined): Promise<Device[]> => {
+    if (!signingPublicKey) return [];
+    return (await repository.fetchActiveDevices(userId)).filter((device) => {
+      const valid = verifyDeviceCertificate(signingPublicKey, device);
+      if (!valid) console.warn('Ignoring device with an invalid certificate:', device.id);
+      return valid;
+    });
+  };
+
+  const getSendingKeys = async (): Promise<{ keypair: Keypair; device: LocalDevice }> => {
+    const keypair = getKeypair(currentUser.id);
+    const device = await getDevice(currentUser.id);
+    if (!device) throw new Error('This device is not registered. Unlock your keys with your password.');
+    return { keypair, device };
+  };
+
+  /**
+   * Encrypt a message to every device of the contact and every other device of
+   * ours through per-device ratchet sessions. This device keeps a sealed copy.
+   * A contact without registered devices yet (an older build) gets one copy in
+   * `ciphertext` through the account-level ratchet session instead.
+   */
+  const encryptForDevices = async (
+    keypair: Keypair,
+    device: LocalDevice,
+    plaintext: string
+  ): Promise<Pick<MessageEnvelope, 'sender_device' | 'device_ciphertexts' | 'ciphertext'>> => {
+    const peer = await getTrustedPeer();
+    // Device certificates are checked against the pinned signing key
+    const [peerDevices, ownDevices] = await Promise.all([
+      fetchCertifiedDevices(otherUser.id, peer.keys.signingPublicKey),
+      fetchCertifiedDevices(currentUser.id, keypair.signingPublicKey),
+    ]);
+    let ciphertext: string | undefined;
+    if (peerDevices.length === 0) {
+      const encrypted = await sessions.encryptConversationMessage(toConversationContext(keypair, peer.keys), plaintext);
+      ciphertext = encodeEnvelope({ alg: 'ratchet', ...encrypted });
+    }
+
+    const deviceCiphertexts: Record<string, string> = {};
+    for (const target of [...peerDevices, ...ownDevices.filter((d) => d.id !== device.id)]) {
+      const encrypted = await sessions.encryptConversationMessage(toDeviceContext(device, target), plaintext);
+      deviceCiphertexts[target.id] = encodeEnvelope({ alg: 'ratchet', ...encrypted });
+    }
+    const ownCopy = encryptMessageWithEphemeral(device.keypair.publicKey, plaintext);
+    deviceCiphertexts[device.id] = encodeEnvelope({
+      alg: 'ephemeral',
+      ephemeralPublicKey: ownCopy.ephemeralPublicKey!,
+      ciphertext: ownCopy.ciphertext,
+      nonce: ownCopy.nonce,
+    });
+    return { sender_device: device.id, device_ciphertexts: deviceCiphertexts, ciphertext };
+  };
+
+  const signEnvelope = (keypair: Keypair, envelope: MessageEnvelope): MessageEnvelope => {
+    if (!keypair.signingPrivateKey) {
+      throw new Error('No signing key available. Unlock your keys with your password.');
+    }
+    const sig = signMessageEnvelope(keypair.signingPrivateKey, envelope);
+    return { ...envelope, metadata: { ...envelope.metadata, sig } };
+  };
+
+  // Encrypt an encoded payload for every device and sign the result
+  const sealPayload = async (plaintext: string, metadata: Record<string, any> = {}): Promise<MessageEnvelope> => {
+    const { keypair, device } = await getSendingKeys();
+    const deviceCopies = await encryptForDevices(keypair, device, plaintext);
+    return signEnvelope(keypair, {
+      conversation_id: conversationId,
+      sender: currentUser.id,
+      ...deviceCopies,
+      metadata: { payload: MESSAGE_PAYLOAD_VERSION, ...metadata },
+    });
+  };
+
+  // Encrypt, sign and store an encoded payload
+  const sendPayload = async (plaintext: string): Promise<Message> => {
+    const envelope = await sealPayload(plaintext);
+    const message = await repository.insertMessage({ ...envelope, delivered: false, read: false });
+    // Our own copy is shown without decrypting it again
+    sentMessages.set(versionId(message), plaintext);
+    await repository.touchConversation(conversationId);
+    return message;
+  };
+
+  const sendText = async (text: string, replyTo?: DecryptedMessageItem): Promise<Message> => {
+    if (replyTo && (replyTo.deleted_at || replyTo.decryptError)) {
+      throw new Error('This message can no longer be replied to');
+    }
+    // The quoted message is named inside the encrypted payload only
+    const reply = replyTo && { id: replyTo.id, sender: replyTo.sender, excerpt: toReplyExcerpt(replyTo.decryptedText) };
+    return sendPayload(encodeMessagePayload({ text, replyTo: reply }));
+  };
+
+  const sendMedia = async (upload: MediaUpload): Promise<Message> => {
+    const peer = await getTrustedPeer();
+    // Shared media is saved to the gallery as well
+    const attachment = await shareMedia(
+      repository,
+      {
+        userId: currentUser.id,
+        keypair: getKeypair(currentUser.id),
+        contactId: otherUser.id,
+        contactPublicKey: peer.keys.publicKey,
+      },
+      upload
+    );
+    // The attachment, including its content key, travels inside the encrypted payload
+    return sendPayload(encodeMessagePayload({ text: upload.type === 'video' ? '[Video]' : '[Photo]', attachment }));
+  };
+
+  const canEdit = (message: DecryptedMessageItem): boolean =>
+    message.sender === currentUser.id &&
+    !message.deleted_at &&
+    !message.decryptError &&
+    // Attachments and legacy media keep their content
+    !message.attachment &&
+    !message.metadata?.file_path &&
+    Date.now() - new Date(message.created_at).getTime() < editWindowMs;
+
+  const editText = async (message: DecryptedMessageItem, text: string): Promise<Message> => {
+    if (!canEdit(message)) throw new Error('This message can no longer be edited');
+    // An edited reply still quotes the same message
+    const plaintext = encodeMessagePayload({ text, replyTo: message.replyTo });
+    // The signature covers the id of the message being edited, so the edit can't be moved to another one
+    const { sender_device, device_ciphertexts, ciphertext, metadata } = await sealPayload(plaintext, { edits: message.id });
+    const edited = await repository.updateMessageContent(message.id, {
+      sender_device,
+      device_ciphertexts,
+      ciphertext,
+      metadata,
+    });
+    sentMessages.set(versionId(edited), plaintext);
+    return edited;
+  };
+
+  // Deleted messages leave no plaintext behind on this device, earlier versions included
+  const forgetPlaintexts = async (messageId: string): Promise<void> => {
+    for (const id of sentMessages.keys()) {
+      if (id === messageId || id.startsWith(`${messageId}@`)) sentMessages.delete(id);
+    }
+    await sessions.forgetConversationPlaintexts({ userId: currentUser.id, conversationId }, messageId);
+  };
+
+  const canDeleteForEveryone = (message: DecryptedMessageItem): boolean =>
+    message.sender === currentUser.id && !message.deleted_at;
+
+  const deleteForEveryone = async (message: DecryptedMessageItem): Promise<Message> => {
+    if (!canDeleteForEveryone(message)) throw new Error('Only your own messages can be deleted for everyone');
+    const tombstone = await repository.deleteMessage(message.id);
+    await forgetPlaintexts(message.id);
+    // The file goes once the message no longer points to it. Its gallery entries
+    // go first, so a failed file removal leaves an unreadable orphan rather than
+    // a broken gallery item.
+    const filePath = message.attachment?.path || message.metadata?.file_path;
+    if (filePath) {
+      try {
+        await repository.removeGalleryItems(filePath);
+      } catch (error) {
+        console.warn('Failed to remove gallery entries of a deleted message:', error);
+      }
+      try {
+        await repository.removeMedia(filePath);
+      } catch (error) {
+        console.warn('Failed to remove media of a deleted message:', error);
+      }
+    }
+    return tombstone;
+  };
+
+  const deleteForMe = async (messages: Message[]): Promise<Set<string>> => {
+    const hidden = await storage.hideMessages(currentUser.id, conversationId, messages.map((message) => message.id));
+    for (const message of messages) {
+      await forgetPlaintexts(message.id);
+    }
+    return hidden;
+  };
+
+  /**
+   * Look up the device a message was sent from. Messages a device sent after
+   * it was revoked are rejected.
+   */
+  const getSenderDevice = async (message: Message): Promise<Device> => {
+    if (!message.sender_device) throw new Error('Message has no sender device');
+    let device = devices.get(message.sender_device);
+    if (!device) {
+      const senderDeviceId = message.sender_device;
+      device = (async () => {
+        const signingKey =
+          message.sender === otherUser.id
+            ? (await getPeerIdentity()).keys.signingPublicKey
+            : (await getSigningPublicKey(message.sender)) || undefined;
+        if (!signingKey) return null;
+        const found = await repository.fetchDevice(senderDeviceId);
+        if (!found || found.user_id !== message.sender || !verifyDeviceCertificate(signingKey, found)) {
+          return null;
+        }
+        return found;
+      })();
+      devices.set(senderDeviceId, device);
+      device.catch(() => devices.delete(senderDeviceId));
+    }
+    const senderDevice = await device;
+    if (!senderDevice) throw new Error('Unknown or uncertified sender device');
+    if (senderDevice.revoked_at && (message.edited_at || message.created_at) > senderDevice.revoked_at) {
+      throw new Error('Message sent from a revoked device');
+    }
+    return senderDevice;
+  };
+
+  const isMessageAuthenticated = async (message: Message): Promise<boolean> => {
+    try {
+      const signature = message.metadata?.sig;
+      if (!signature) return false;
+      // Edits name the message they replace; originals name none
+      if ((message.metadata?.edits ?? null) !== (message.edited_at ? message.id : null)) return false;
+      const signingKey =
+        message.sender === otherUser.id
+          ? (await getPeerIdentity()).keys.signingPublicKey || null
+          : await getSigningPublicKey(message.sender);
+      return !!signingKey && verifyMessageEnvelope(signingKey, message, signature);
+    } catch (error) {
+      console.warn('Error verifying message signature:', error);
+      return false;
+    }
+  };
+
+  // Messages with metadata.payload carry a structured payload; older ones are plain text
+  const toDecryptedMessage = (message: Message, plaintext: string): DecryptedMessageItem => {
+    if (!message.metadata?.payload) {
+      return { ...message, decryptedText: plaintext };
+    }
+    const payload = decodeMessagePayload(plaintext, message.metadata.payload);
+    return { ...message, decryptedText: payload.text, attachment: payload.attachment, replyTo: payload.replyTo };
+  };
+
+  const decryptMessageContent = async (message: Message): Promise<DecryptedMessageItem> => {
+    try {
+      // Check the cache first for messages sent from here
+      const cachedPlaintext = sentMessages.get(versionId(message));
+      if (cachedPlaintext) {
+        return toDecryptedMessage(message, cachedPlaintext);
+      }
+      // Keys come from the unlocked keyring; a locked keyring fails the decrypt
+      const keypair = getKeypair(currentUser.id);
+
+      // Multi-device messages: find this device's copy. Ones sent to us while
+      // we had no devices carry an account-level copy in `ciphertext` instead.
+      const device = message.device_ciphertexts ? await getDevice(currentUser.id) : null;
+      const stored = device ? message.device_ciphertexts?.[device.id] : undefined;
+      const accountCopy = message.sender === otherUser.id && !!message.ciphertext;
+      if (message.device_ciphertexts && (!device || !stored) && !accountCopy) {
+        return { ...message, decryptedText: '[Sent before this device was linked]', decryptError: true };
+      }
+      if (device && stored) {
+        const envelope = parseStoredCiphertext(stored, {});
+        if (envelope.alg === 'ephemeral') {
+          // This device's own copy of a message it sent
+          if (message.sender !== currentUser.id || message.sender_device !== device.id) {
+            throw new Error('Unexpected algorithm for device copy');
+          }
+          return toDecryptedMessage(
+            message,
+            decryptMessageWithEphemeral(device.keypair.privateKey, envelope.ephemeralPublicKey, envelope.ciphertext, envelope.nonce)
+          );
+        }
+        const senderDevice = await getSenderDevice(message);
+        const plaintext = await sessions.decryptConversationMessage(
+          toDeviceContext(device, senderDevice),
+          versionId(message),
+          envelope.header,
+          envelope.ciphertext,
+          envelope.nonce
+        );
+        return toDecryptedMessage(message, plaintext);
+      }
+
+      // Our own legacy message: decrypt the sender's copy
+      if (message.sender === currentUser.id) {
+        if (!message.ciphertext_sender) {
+          return { ...message, decryptedText: '[Unable to decrypt - no sender copy]', decryptError: true };
+        }
+        const envelope = parseStoredCiphertext(message.ciphertext_sender, {
+          ephemeralPublicKey: message.ephemeral_pubkey_sender,
+        });
+        if (envelope.alg !== 'ephemeral') {
+          throw new Error('Unexpected algorithm for sender copy');
+        }
+        // Sender copies are sealed to whichever identity key we had at the time
+        const plaintext = withIdentityKeys(keypair, (privateKey) =>
+          decryptMessageWithEphemeral(privateKey, envelope.ephemeralPublicKey, envelope.ciphertext, envelope.nonce)
+        );
+        return toDecryptedMessage(message, plaintext);
+      }
+
+      if (!message.ciphertext) {
+        throw new Error('Message has no ciphertext');
+      }
+      const envelope = parseStoredCiphertext(message.ciphertext, {
+        ephemeralPublicKey: message.ephemeral_pubkey,
+        ratchet: message.metadata?.ratchet,
+      });
+
+      // Received message from before devices (or to a contact without any), through
+      // the account-level ratchet session
+      if (envelope.alg === 'ratchet') {
+        const plaintext = await sessions.decryptConversationMessage(
+          toConversationContext(keypair, (await getPeerIdentity()).keys),
+          versionId(message),
+          envelope.header,
+          envelope.ciphertext,
+          envelope.nonce
+        );
+        return toDecryptedMessage(message, plaintext);
+      }
+
+      // Legacy messages: decrypt the recipient's copy with the ephemeral key
+      const plaintext = withIdentityKeys(keypair, (privateKey) =>
+        decryptMessageWithEphemeral(privateKey, envelope.ephemeralPublicKey, envelope.ciphertext, envelope.nonce)
+      );
+      return toDecryptedMessage(message, plaintext);
+    } catch (error) {
+      console.error('Error decrypting message:', error);
+      return { ...message, decryptedText: '[Decryption failed]', decryptError: true };
+    }
+  };
+
+  const decryptMessage = async (message: Message): Promise<DecryptedMessageItem> => {
+    // Tombstones have nothing left to decrypt or verify. The first one seen,
+    // live or in history, clears what this device cached of the message.
+    if (message.deleted_at) {
+      if (!seenVersions.has(versionId(message))) await forgetPlaintexts(message.id);
+      seenVersions.add(versionId(message));
+      return { ...message, decryptedText: '' };
+    }
+    const authenticated = await isMessageAuthenticated(message);
+    const decrypted = await decryptMessageContent(message);
+    seenVersions.add(versionId(message));
+    return { ...decrypted, unauthenticated: !authenticated };
+  };
+
+  const fetchEditHistory = async (message: Message): Promise<DecryptedMessageItem[]> => {
+    const revisions = await repository.fetchRevisions(message.id);
+    // Each revision decrypts and verifies as the message it was at the time
+    return Promise.all(
+      revisions.map((revision) =>
+        decryptMessage({ ...revision, id: revision.message_id, delivered: message.delivered, read: message.read })
+      )
+    );
+  };
+
+  // Best-effort: a failed receipt is retried the next time the message is seen
+  const acknowledge = async (messages: Message[], receipt: ReceiptKind): Promise<void> => {
+    const ids = messages
+      .filter(
+        (message) =>
+          message.sender === otherUser.id &&
+          !message.deleted_at &&
+          !message.read &&
+          !(receipt === 'delivered' && message.delivered)
+      )
+      .map((message) => message.id)
+      .filter((id) => !acknowledged.has(`${receipt}:${id}`));
+    if (ids.length === 0) return;
+    ids.forEach((id) => acknowledged.add(`${receipt}:${id}`));
+    try {
+      await repository.acknowledgeMessages(ids, receipt);
+    } catch (error) {
+      ids.forEach((id) => acknowledged.delete(`${receipt}:${id}`));
+      console.warn(`Failed to send ${receipt} receipts:`, error);
+    }
+  };
+
+  const markRead = async (messages: Message[]): Promise<void> => {
+    try {
+      if (!(await storage.getPrivacySettings(currentUser.id)).readReceipts) return;
+      await acknowledge(messages, 'read');
+    } catch (error) {
+      warn('send read receipts')(error);
+    }
+  };
+
+  const fetchHistory = async (cursor: HistoryCursor = {}): Promise<HistoryPage> => {
+    // One extra row tells whether another page follows
+    const fetched = await repository.fetchMessages(conversationId, { ...cursor, limit: MESSAGE_PAGE_SIZE + 1 });
+    const hasMore = fetched.length > MESSAGE_PAGE_SIZE;
+    const page = !hasMore ? fetched : cursor.after ? fetched.slice(0, MESSAGE_PAGE_SIZE) : fetched.slice(1);
+    // Messages that arrived while the chat was closed reached this device now
+    acknowledge(page, 'delivered');
+    return { messages: await Promise.all(page.map(decryptMessage)), hasMore };
+  };
+
+  // The repository calls handlers without waiting on them, so their failures end here
+  const subscribe = ({ onMessage, onReceipt, onChange }: MessageListener): (() => void) => {
+    const handleInsert = async (message: Message) => {
+      acknowledge([message], 'delivered');
+      onMessage(await decryptMessage(message));
+    };
+    const handleUpdate = async (message: Message) => {
+      const { id, delivered, read, delivered_at, read_at } = message;
+      onReceipt({ id, delivered, read, delivered_at, read_at });
+      if ((message.edited_at || message.deleted_at) && !seenVersions.has(versionId(message))) {
+        onChange(await decryptMessage(message));
+      }
+    };
+    return repository.subscribe(conversationId, {
+      onInsert: (message) => handleInsert(message).catch(warn('handle a new message')),
+      onUpdate: (message) => handleUpdate(message).catch(warn('handle a message update')),
+    });
+  };
+
+  const acceptPeerKeyChange = async (): Promise<void> => {
+    const peer = await getPeerIdentity();
+    if (peer.status !== 'changed') return;
+    await storage.acceptContactIdentity(currentUser.id, otherUser.id, peer.change.newKeys);
+    // Sessions were agreed with the old keys; the next message starts a new one
+    await sessions.discardConversationSessions(currentUser.id, conversationId);
+    peerIdentity = null;
+  };
+
+  return {
+    fetchHistory,
+    subscribe,
+    sendText,
+    sendMedia,
+    canEdit,
+    editText,
+    fetchEditHistory,
+    canDeleteForEveryone,
+    deleteForEveryone,
+    deleteForMe,
+    getHiddenMessageIds: () => storage.getHiddenMessageIds(currentUser.id, conversationId),
+    markRead,
+    decryptMessage,
+    getPeerIdentity,
+    acceptPeerKeyChange,
+    getSigningPublicKey,
+  };
+}
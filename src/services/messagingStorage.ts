@@ -0,0 +1,21 @@
+import * as localStore from './localStore';
+import { getHiddenMessageIds, hideMessages } from './hiddenMessages';
+import type { MessagingStorage } from './messaging';
+import { getPrivacySettings } from './privacySettings';
+import { consumeOneTimePrekey, getOneTimePrekey, getSignedPrekey } from './prekeys';
+import { createConversationSessions } from './ratchetSessions';
+import { acceptContactIdentity, checkContactIdentity } from './trustStore';
+
+/**
+ * The messaging service's state on this install, in the encrypted local store
+ * (services/localStore). Shared by every chat: the sessions' caches and locks
+ * assume they are the only writer.
+ */
+export const deviceMessagingStorage: MessagingStorage = {
+  sessions: createConversationSessions(localStore, { getSignedPrekey, getOneTimePrekey, consumeOneTimePrekey }),
+  checkContactIdentity,
+  acceptContactIdentity,
+  getPrivacySettings,
+  getHiddenMessageIds,
+  hideMessages,
+};
@@ -0,0 +1,88 @@
+import { supabase } from './supabase';
+import { isKeyringUnlocked, refreshUnlockedKeys } from './keyring';
+import { encryptKeyBackupColumns, openKeyBackup } from '../utils/crypto';
+import { createBackupKek } from '../utils/keyBackup';
+import { BackupKek } from '../types';
+
+/**
+ * Password change.
+ *
+ * The key backups are encrypted under the account password, so the auth
+ * password and the backups must change together. The backups are re-wrapped
+ * first and restored if the auth update fails, leaving the account unlockable
+ * with exactly one of the two passwords.
+ */
+
+/**
+ * Change the account password. The current password is verified by decrypting
+ * the key backup; nothing is changed if it is wrong.
+ */
+export async function changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+  if (!newPassword) {
+    throw new Error('New password is required');
+  }
+
+  // Throws on a wrong password; it does not count towards the unlock attempts
+  const unlocked = await openKeyBackup(userId, currentPassword, supabase);
+
+  if (!unlocked) {
+    throw new Error('No key backup found for this account');
+  }
+  const { keypair } = unlocked;
+  let kek: BackupKek | null = null;
+  let committed = false;
+  try {
+    // Snapshot after the load, which may have upgraded the backup in place
+    const { data: previous, error } = await supabase
+      .from('users')
+      .select('encrypted_private_key, recovery_key_backup')
+      .eq('id', userId)
+      .single();
+    if (error) throw error;
+    if (!previous?.encrypted_private_key) {
+      throw new Error('No key backup found for this account');
+    }
+    kek = await createBackupKek(newPassword);
+
+    // Only replace the backup we verified, in case another device rewrote it meanwhile
+    const { data: updated, error: updateError } = await supabase
+      .from('users')
+      .update(await encryptKeyBackupColumns(keypair, kek))
+      .eq('id', userId)
+      .eq('encrypted_private_key', previous.encrypted_private_key)
+      .select('id');
+    if (updateError) throw updateError;
+    if (!updated || updated.length === 0) {
+      throw new Error('Your keys changed on another device. Please try again.');
+    }
+
+    const { error: authError } = await supabase.auth.updateUser({ password: newPassword });
+    if (authError) {
+      const { error: rollbackError } = await supabase
+        .from('users')
+        .update({
+          encrypted_private_key: previous.encrypted_private_key,
+          recovery_key_backup: previous.recovery_key_backup,
+        })
+        .eq('id', userId);
+      if (rollbackError) {
+        console.error('Failed to restore key backup after password change failed:', rollbackError);
+        throw new Error(
+          'Password change failed and your key backup could not be restored. Unlock with your new password or your recovery phrase.'
+        );
+      }
+      throw new Error(authError.message || 'Failed to change password');
+    }
+
+    // The keyring's KEK was derived from the old password and no longer opens the backup
+    if (isKeyringUnlocked(userId)) {
+      refreshUnlockedKeys(userId, { keypair, kek });
+      committed = true;
+    }
+  } finally {
+    // The old KEK only verified the current password. The new one is kept by
+    // the keyring, or by no one when the change failed or the keyring is locked.
+    unlocked.kek.key.fill(0);
+    if (kek && !committed) kek.key.fill(0);
+  }
+}
@@ -0,0 +1,220 @@
+import { supabase } from './supabase';
+import { readEncryptedItem, writeEncryptedItem } from './localStore';
+import { LocalDevice } from './devices';
+import { Keypair, PrekeyBundle } from '../types';
+import { generatePrekey, signPrekey, verifyPrekeySignature } from '../utils/x3dh';
+
+/**
+ * X3DH prekeys (signed + one-time) published through Supabase, per device.
+ *
+ * Private halves stay on the device in the encrypted local store; the server
+ * only holds public keys. Signed prekeys are signed with the device's signing
+ * key (itself certified by the account, see services/devices). One-time prekeys
+ * are handed out (and deleted) by the claim_prekey_bundle RPC, so each is used
+ * for at most one session.
+ */
+
+interface LocalSignedPrekey extends Keypair {
+  keyId: number;
+  createdAt: number;
+}
+
+interface LocalPrekeys {
+  signedPrekeys: LocalSignedPrekey[];
+  oneTimePrekeys: Record<string, Keypair>;
+  nextKeyId: number;
+}
+
+const PREKEYS_ITEM = 'prekeys';
+
+// Signed prekeys are rotated weekly; older ones are kept for messages still in flight
+const SIGNED_PREKEY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SIGNED_PREKEYS = 3;
+// Replenish one-time prekeys back up to the target once fewer than the minimum remain
+const ONE_TIME_PREKEY_TARGET = 100;
+const ONE_TIME_PREKEY_MINIMUM = 20;
+// Claimed one-time prekeys whose first message never arrived are eventually dropped
+const MAX_LOCAL_ONE_TIME_PREKEYS = 500;
+
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run read-modify-write cycles on a user's local prekeys one at a time
+ */
+function withPrekeyLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(userId) || Promise.resolve();
+  const run = previous.then(task, task);
+  locks.set(userId, run.catch(() => undefined));
+  return run;
+}
+
+async function loadLocalPrekeys(userId: string): Promise<LocalPrekeys> {
+  return (
+    (await readEncryptedItem<LocalPrekeys>(userId, PREKEYS_ITEM)) || {
+      signedPrekeys: [],
+      oneTimePrekeys: {},
+      nextKeyId: 1,
+    }
+  );
+}
+
+function saveLocalPrekeys(userId: string, prekeys: LocalPrekeys): Promise<void> {
+  return writeEncryptedItem(userId, PREKEYS_ITEM, prekeys);
+}
+
+// Rows of signed_prekeys / one_time_prekeys, as far as replenishPrekeys reads them
+type PrekeyIdRow = { key_id: number };
+
+async function replenishPrekeys(userId: string, device: LocalDevice): Promise<void> {
+  const signingPrivateKey = device.keypair.signingPrivateKey;
+  if (!signingPrivateKey) {
+    throw new Error('Signing key required to publish prekeys');
+  }
+  const local = await loadLocalPrekeys(userId);
+
+  const { data: serverSigned, error: signedError } = await supabase
+    .from('signed_prekeys')
+    .select('key_id')
+    .eq('device_id', device.id)
+    .overrideTypes<PrekeyIdRow[], { merge: false }>();
+  if (signedError) throw signedError;
+  const { data: serverOneTime, error: oneTimeError } = await supabase
+    .from('one_time_prekeys')
+    .select('key_id')
+    .eq('device_id', device.id)
+    .overrideTypes<PrekeyIdRow[], { merge: false }>();
+  if (oneTimeError) throw oneTimeError;
+
+  // Never reuse an id still on the server (e.g. left behind by a previous install)
+  const serverIds = [...(serverSigned || []), ...(serverOneTime || [])].map((row) => row.key_id);
+  local.nextKeyId = Math.max(local.nextKeyId, ...serverIds.map((keyId) => keyId + 1));
+
+  // Signed prekey: rotate when missing, stale, or published by another install
+  const latest = local.signedPrekeys[0];
+  const latestPublished = !!latest && (serverSigned || []).some((row) => row.key_id === latest.keyId);
+  if (!latest || !latestPublished || Date.now() - latest.createdAt > SIGNED_PREKEY_MAX_AGE_MS) {
+    const prekey = generatePrekey();
+    const signedPrekey: LocalSignedPrekey = { ...prekey, keyId: local.nextKeyId++, createdAt: Date.now() };
+    local.signedPrekeys = [signedPrekey, ...local.signedPrekeys].slice(0, MAX_SIGNED_PREKEYS);
+    // Persist the private half before the public half becomes claimable
+    await saveLocalPrekeys(userId, local);
+
+    const { error } = await supabase.from('signed_prekeys').insert({
+      user_id: userId,
+      device_id: device.id,
+      key_id: signedPrekey.keyId,
+      public_key: signedPrekey.publicKey,
+      signature: signPrekey(signingPrivateKey, signedPrekey.publicKey),
+    });
+    if (error) throw error;
+  }
+
+  // Drop server prekeys this device can no longer answer for
+  const keptSignedIds = local.signedPrekeys.map((p) => p.keyId);
+  const staleSignedIds = (serverSigned || [])
+    .map((row) => row.key_id)
+    .filter((keyId) => !keptSignedIds.includes(keyId));
+  if (staleSignedIds.length > 0) {
+    const { error } = await supabase
+      .from('signed_prekeys')
+      .delete()
+      .eq('device_id', device.id)
+      .in('key_id', staleSignedIds);
+    if (error) console.warn('Failed to remove stale signed prekeys:', error);
+  }
+
+  const serverOneTimeIds = (serverOneTime || []).map((row) => row.key_id);
+  const unknownOneTimeIds = serverOneTimeIds.filter((keyId) => !local.oneTimePrekeys[keyId]);
+  if (unknownOneTimeIds.length > 0) {
+    const { error } = await supabase
+      .from('one_time_prekeys')
+      .delete()
+      .eq('device_id', device.id)
+      .in('key_id', unknownOneTimeIds);
+    if (error) console.warn('Failed to remove stale one-time prekeys:', error);
+  }
+
+  const available = serverOneTimeIds.length - unknownOneTimeIds.length;
+  if (available >= ONE_TIME_PREKEY_MINIMUM) return;
+
+  const rows: { user_id: string; device_id: string; key_id: number; public_key: string }[] = [];
+  for (let i = available; i < ONE_TIME_PREKEY_TARGET; i++) {
+    const keyId = local.nextKeyId++;
+    const prekey = generatePrekey();
+    local.oneTimePrekeys[keyId] = prekey;
+    rows.push({ user_id: userId, device_id: device.id, key_id: keyId, public_key: prekey.publicKey });
+  }
+  // Evict the oldest claimed-but-unused keys (lowest ids)
+  const localIds = Object.keys(local.oneTimePrekeys).map(Number).sort((a, b) => a - b);
+  for (let i = 0; i < localIds.length - MAX_LOCAL_ONE_TIME_PREKEYS; i++) {
+    delete local.oneTimePrekeys[localIds[i]];
+  }
+  await saveLocalPrekeys(userId, local);
+
+  const { error } = await supabase.from('one_time_prekeys').insert(rows);
+  if (error) throw error;
+}
+
+/**
+ * Upload a signed prekey and one-time prekeys for this device, rotating and
+ * replenishing as needed. Safe to call repeatedly (e.g. on every unlock).
+ */
+export function publishPrekeys(userId: string, device: LocalDevice): Promise<void> {
+  return withPrekeyLock(userId, () => replenishPrekeys(userId, device));
+}
+
+/**
+ * Fetch a device's prekey bundle, consuming one of its one-time prekeys.
+ * Returns null if the device has not published prekeys or was revoked.
+ */
+export async function fetchPrekeyBundle(deviceId: string): Promise<PrekeyBundle | null> {
+  const { data, error } = await supabase.rpc('claim_prekey_bundle', { target_device: deviceId });
+  if (error) throw error;
+  if (!data || !data.signing_key) return null;
+
+  const bundle: PrekeyBundle = {
+    identityKey: data.identity_key,
+    signingKey: data.signing_key,
+    signedPrekey: {
+      keyId: data.signed_prekey.key_id,
+      publicKey: data.signed_prekey.public_key,
+      signature: data.signed_prekey.signature,
+    },
+    oneTimePrekey: data.one_time_prekey
+      ? { keyId: data.one_time_prekey.key_id, publicKey: data.one_time_prekey.public_key }
+      : null,
+  };
+  if (!verifyPrekeySignature(bundle.signingKey, bundle.signedPrekey.publicKey, bundle.signedPrekey.signature)) {
+    throw new Error('Invalid signed prekey signature');
+  }
+  return bundle;
+}
+
+/**
+ * Look up the private half of one of our signed prekeys
+ */
+export async function getSignedPrekey(userId: string, keyId: number): Promise<Keypair | null> {
+  const local = await loadLocalPrekeys(userId);
+  const prekey = local.signedPrekeys.find((p) => p.keyId === keyId);
+  return prekey ? { publicKey: prekey.publicKey, privateKey: prekey.privateKey } : null;
+}
+
+/**
+ * Look up the private half of one of our one-time prekeys
+ */
+export async function getOneTimePrekey(userId: string, keyId: number): Promise<Keypair | null> {
+  const local = await loadLocalPrekeys(userId);
+  return local.oneTimePrekeys[keyId] || null;
+}
+
+/**
+ * Delete a one-time prekey once the session it started is established
+ */
+export function consumeOneTimePrekey(userId: string, keyId: number): Promise<void> {
+  return withPrekeyLock(userId, async () => {
+    const local = await loadLocalPrekeys(userId);
+    if (!local.oneTimePrekeys[keyId]) return;
+    delete local.oneTimePrekeys[keyId];
+    await saveLocalPrekeys(userId, local);
+  });
+}
@@ -0,0 +1,68 @@
+import { readEncryptedItem, writeEncryptedItem } from './localStore';
+import { DEFAULT_MEDIA_PADDING, isPaddingPolicy, PaddingPolicy } from '../utils/padding';
+
+/**
+ * Per-user privacy choices, kept in the encrypted local store so the server
+ * never learns them.
+ */
+
+export interface PrivacySettings {
+  // Tell contacts when their messages were read
+  readReceipts: boolean;
+  // Show contacts when you're typing to them
+  typingIndicators: boolean;
+  // Show contacts when you're online in your chat with them, and when you were last
+  onlineStatus: boolean;
+}
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  readReceipts: true,
+  typingIndicators: true,
+  onlineStatus: true,
+};
+
+const PRIVACY_ITEM = 'privacy_settings';
+const MEDIA_PADDING_ITEM = 'media_padding';
+
+const settings = new Map<string, Promise<PrivacySettings>>();
+
+export function getPrivacySettings(userId: string): Promise<PrivacySettings> {
+  let current = settings.get(userId);
+  if (!current) {
+    current = readEncryptedItem<Partial<PrivacySettings>>(userId, PRIVACY_ITEM).then((stored) => ({
+      ...DEFAULT_PRIVACY_SETTINGS,
+      ...stored,
+    }));
+    settings.set(userId, current);
+    current.catch(() => settings.delete(userId));
+  }
+  return current;
+}
+
+/**
+ * Change some settings and return the full updated set
+ */
+export async function updatePrivacySettings(
+  userId: string,
+  changes: Partial<PrivacySettings>
+): Promise<PrivacySettings> {
+  const next = { ...(await getPrivacySettings(userId)), ...changes };
+  await writeEncryptedItem(userId, PRIVACY_ITEM, next);
+  settings.set(userId, Promise.resolve(next));
+  return next;
+}
+
+/**
+ * Padding policy for attachments shared with a contact (utils/padding). Kept
+ * here rather than on the conversation row so the server can't turn it off.
+ */
+export async function getMediaPadding(userId: string, contactId: string): Promise<PaddingPolicy> {
+  const stored = await readEncryptedItem<Record<string, unknown>>(userId, MEDIA_PADDING_ITEM);
+  const policy = stored?.[contactId];
+  return isPaddingPolicy(policy) ? policy : DEFAULT_MEDIA_PADDING;
+}
+
+export async function setMediaPadding(userId: string, contactId: string, policy: PaddingPolicy): Promise<void> {
+  const stored = await readEncryptedItem<Record<string, PaddingPolicy>>(userId, MEDIA_PADDING_ITEM);
+  await writeEncryptedItem(userId, MEDIA_PADDING_ITEM, { ...stored, [contactId]: policy });
+}
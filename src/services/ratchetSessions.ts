@@ -0,0 +1,335 @@
+import * as naclUtil from 'tweetnacl-util';
+import { Keypair, PrekeyBundle, RatchetHeader, RatchetState } from '../types';
+import {
+  acceptSession,
+  deriveStaticSharedSecret,
+  generateSessionId,
+  initiateSession,
+  ratchetDecrypt,
+  ratchetEncrypt,
+} from '../utils/ratchet';
+import { x3dhInitiate, x3dhRespond } from '../utils/x3dh';
+
+/**
+ * Double Ratchet sessions for 1:1 conversations.
+ *
+ * One session record per conversation and peer device (the contact's devices
+ * and our own other devices), persisted encrypted on this device. Message keys
+ * are deleted once used, so received plaintexts are cached (also encrypted), one
+ * item per message, to keep history readable when the chat is reopened.
+ *
+ * Storage is passed in: services/localStore and services/prekeys in the app
+ * (services/messagingStorage), in-memory stand-ins under Node.
+ */
+
+interface SessionRecord {
+  current: RatchetState | null;
+  // Older sessions kept around for late or simultaneous-initiation messages
+  previous: RatchetState[];
+}
+
+export interface ConversationContext {
+  userId: string;
+  conversationId: string;
+  // This device's keys (the account identity for account-level sessions)
+  identity: Keypair;
+  peerUserId: string;
+  // Null for sessions between account identity keys: from before devices, or with a contact who has none yet
+  peerDeviceId: string | null;
+  peerIdentityKey: string;
+  peerSigningKey?: string;
+  // Where new sessions claim the peer device's prekeys; without it they use static-static agreement
+  fetchPrekeyBundle?: (deviceId: string) => Promise<PrekeyBundle | null>;
+}
+
+// Encrypted per-user items on this device, as kept by services/localStore
+export interface EncryptedItemStore {
+  readEncryptedItem<T>(userId: string, name: string): Promise<T | null>;
+  writeEncryptedItem(userId: string, name: string, value: unknown): Promise<void>;
+  removeEncryptedItem(userId: string, name: string): Promise<void>;
+}
+
+// This device's own prekeys (services/prekeys), for sessions peers start with X3DH
+export interface LocalPrekeys {
+  getSignedPrekey(userId: string, keyId: number): Promise<Keypair | null>;
+  getOneTimePrekey(userId: string, keyId: number): Promise<Keypair | null>;
+  consumeOneTimePrekey(userId: string, keyId: number): Promise<void>;
+}
+
+export interface ConversationSessions {
+  /** Encrypt a message for a peer device, starting a new session if none exists */
+  encryptConversationMessage(
+    ctx: ConversationContext,
+    plaintext: string
+  ): Promise<{ ciphertext: string; nonce: string; header: RatchetHeader }>;
+  /**
+   * Decrypt a message from a peer device. Plaintexts are cached by message id
+   * (`${id}@${edited_at}` for edited versions), so messages can be decrypted
+   * again after their message keys are gone.
+   */
+  decryptConversationMessage(
+    ctx: ConversationContext,
+    messageId: string,
+    header: RatchetHeader,
+    ciphertext: string,
+    nonce: string
+  ): Promise<string>;
+  /**
+   * Drop the cached plaintexts of a message, every version of it included, e.g.
+   * once it was deleted. Its message keys are long gone, so it can't be read again.
+   */
+  forgetConversationPlaintexts(
+    ctx: Pick<ConversationContext, 'userId' | 'conversationId'>,
+    messageId: string
+  ): Promise<void>;
+  /**
+   * Forget the conversation's sessions, e.g. after the peer's identity key changed.
+   * The next message starts fresh sessions against the peer's current devices.
+   */
+  discardConversationSessions(userId: string, conversationId: string): Promise<void>;
+}
+
+const MAX_PREVIOUS_SESSIONS = 5;
+// Record key of the account-level session of a conversation
+const ACCOUNT_SESSION = 'account';
+
+function getSessionItemName(conversationId: string) {
+  return `sessions_${conversationId}`;
+}
+function getLegacySessionItemName(conversationId: string) {
+  return `ratchet_${conversationId}`;
+}
+// Versions of a message share one item, so deleting the message drops them all
+function getPlaintextItemName(conversationId: string, messageId: string) {
+  return `plaintext_${conversationId}_${messageId.split('@')[0]}`;
+}
+// One map for the whole conversation, rewritten on every message; now only read and pruned
+function getLegacyPlaintextItemName(conversationId: string) {
+  return `plaintexts_${conversationId}`;
+}
+
+/**
+ * Make `state` the active session, demoting the previous one
+ */
+function promote(record: SessionRecord, state: RatchetState): SessionRecord {
+  const others = [record.current, ...record.previous].filter(
+    (s): s is RatchetState => !!s && s.sessionId !== state.sessionId
+  );
+  return { current: state, previous: others.slice(0, MAX_PREVIOUS_SESSIONS) };
+}
+
+/**
+ * Start a session as the initiator: X3DH against the peer device's prekey
+ * bundle, or static-static agreement if it has not published prekeys yet.
+ * Account-level sessions (contacts without devices) always use the latter.
+ */
+async function startSession(ctx: ConversationContext): Promise<RatchetState> {
+  const sessionId = generateSessionId();
+  const bundle =
+    ctx.fetchPrekeyBundle && ctx.peerDeviceId ? await ctx.fetchPrekeyBundle(ctx.peerDeviceId) : null;
+  if (bundle) {
+    if (bundle.identityKey !== ctx.peerIdentityKey || bundle.signingKey !== ctx.peerSigningKey) {
+      throw new Error('Prekey bundle does not match the peer device keys');
+    }
+    const { sharedSecret, init } = x3dhInitiate(ctx.identity, bundle);
+    // The signed prekey doubles as the peer's first ratchet key
+    const state = initiateSession(sharedSecret, bundle.signedPrekey.publicKey, sessionId, init);
+    sharedSecret.fill(0);
+    return state;
+  }
+
+  const sharedSecret = deriveStaticSharedSecret(ctx.identity.privateKey, ctx.peerIdentityKey, sessionId);
+  // The peer's identity key doubles as their first ratchet key
+  const state = initiateSession(sharedSecret, ctx.peerIdentityKey, sessionId, { ik: ctx.identity.publicKey });
+  sharedSecret.fill(0);
+  return state;
+}
+
+/**
+ * Sessions persisted in `store`. Create one per install and share it: its
+ * caches and locks assume it is the only writer of these items.
+ */
+export function createConversationSessions(store: EncryptedItemStore, prekeys: LocalPrekeys): ConversationSessions {
+  // Session records of each conversation, by peer device id
+  const records = new Map<string, Record<string, SessionRecord>>();
+  const legacyPlaintexts = new Map<string, Record<string, string>>();
+  const locks = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run ratchet operations for a conversation one at a time, in call order
+   */
+  const withConversationLock = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(key) || Promise.resolve();
+    const run = previous.then(task, task);
+    locks.set(key, run.catch(() => undefined));
+    return run;
+  };
+
+  const loadRecords = async (ctx: ConversationContext): Promise<Record<string, SessionRecord>> => {
+    const key = `${ctx.userId}:${ctx.conversationId}`;
+    let conversationRecords = records.get(key);
+    if (!conversationRecords) {
+      const stored = await store.readEncryptedItem<Record<string, SessionRecord>>(
+        ctx.userId,
+        getSessionItemName(ctx.conversationId)
+      );
+      // Single-session record from before devices: keep it as the account-level session
+      const legacy = stored
+        ? null
+        : await store.readEncryptedItem<SessionRecord>(ctx.userId, getLegacySessionItemName(ctx.conversationId));
+      conversationRecords = stored || (legacy ? { [ACCOUNT_SESSION]: legacy } : {});
+      records.set(key, conversationRecords);
+    }
+    return conversationRecords;
+  };
+
+  const loadRecord = async (ctx: ConversationContext): Promise<SessionRecord> => {
+    const conversationRecords = await loadRecords(ctx);
+    return conversationRecords[ctx.peerDeviceId ?? ACCOUNT_SESSION] || { current: null, previous: [] };
+  };
+
+  const saveRecord = async (ctx: ConversationContext, record: SessionRecord): Promise<void> => {
+    const conversationRecords = await loadRecords(ctx);
+    conversationRecords[ctx.peerDeviceId ?? ACCOUNT_SESSION] = record;
+    await store.writeEncryptedItem(ctx.userId, getSessionItemName(ctx.conversationId), conversationRecords);
+  };
+
+  const loadLegacyPlaintexts = async (
+    ctx: Pick<ConversationContext, 'userId' | 'conversationId'>
+  ): Promise<Record<string, string>> => {
+    const key = `${ctx.userId}:${ctx.conversationId}`;
+    let cache = legacyPlaintexts.get(key);
+    if (!cache) {
+      cache =
+        (await store.readEncryptedItem<Record<string, string>>(
+          ctx.userId,
+          getLegacyPlaintextItemName(ctx.conversationId)
+        )) || {};
+      legacyPlaintexts.set(key, cache);
+    }
+    return cache;
+  };
+
+  // Cached versions of a message, by version id
+  const loadPlaintexts = async (ctx: ConversationContext, messageId: string): Promise<Record<string, string>> =>
+    (await store.readEncryptedItem<Record<string, string>>(
+      ctx.userId,
+      getPlaintextItemName(ctx.conversationId, messageId)
+    )) || {};
+
+  /**
+   * Accept a session started by the peer, from the init block of its first message
+   */
+  const acceptIncomingSession = async (ctx: ConversationContext, header: RatchetHeader): Promise<RatchetState> => {
+    const init = header.init!;
+    if (!init.ek) {
+      const sharedSecret = deriveStaticSharedSecret(ctx.identity.privateKey, init.ik, header.sid);
+      const state = acceptSession(sharedSecret, ctx.identity, header.sid);
+      sharedSecret.fill(0);
+      return state;
+    }
+
+    const signedPrekey = init.spk !== undefined ? await prekeys.getSignedPrekey(ctx.userId, init.spk) : null;
+    if (!signedPrekey) {
+      throw new Error('Session started with an unknown signed prekey');
+    }
+    let oneTimePrekey: Keypair | null = null;
+    if (init.opk !== undefined) {
+      oneTimePrekey = await prekeys.getOneTimePrekey(ctx.userId, init.opk);
+      if (!oneTimePrekey) {
+        throw new Error('Session started with an unknown or used one-time prekey');
+      }
+    }
+    const sharedSecret = x3dhRespond(ctx.identity, signedPrekey, oneTimePrekey, init);
+    const state = acceptSession(sharedSecret, signedPrekey, header.sid);
+    sharedSecret.fill(0);
+    return state;
+  };
+
+  const encryptConversationMessage = (
+    ctx: ConversationContext,
+    plaintext: string
+  ): Promise<{ ciphertext: string; nonce: string; header: RatchetHeader }> =>
+    withConversationLock(`${ctx.userId}:${ctx.conversationId}`, async () => {
+      const record = await loadRecord(ctx);
+      const state = record.current || (await startSession(ctx));
+
+      const result = ratchetEncrypt(state, naclUtil.decodeUTF8(plaintext), naclUtil.decodeUTF8(ctx.conversationId));
+      await saveRecord(ctx, promote(record, result.state));
+      return { ciphertext: result.ciphertext, nonce: result.nonce, header: result.header };
+    });
+
+  const decryptConversationMessage = (
+    ctx: ConversationContext,
+    messageId: string,
+    header: RatchetHeader,
+    ciphertext: string,
+    nonce: string
+  ): Promise<string> =>
+    withConversationLock(`${ctx.userId}:${ctx.conversationId}`, async () => {
+      const plaintexts = await loadPlaintexts(ctx, messageId);
+      const cached = plaintexts[messageId] ?? (await loadLegacyPlaintexts(ctx))[messageId];
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const record = await loadRecord(ctx);
+      let state = [record.current, ...record.previous].find((s) => s?.sessionId === header.sid) || null;
+      const isNewSession = !state;
+      if (!state) {
+        if (!header.init) {
+          throw new Error('No session for message');
+        }
+        if (header.init.ik !== ctx.peerIdentityKey) {
+          throw new Error('Session initiated with an unexpected identity key');
+        }
+        state = await acceptIncomingSession(ctx, header);
+      }
+
+      const result = ratchetDecrypt(state, header, ciphertext, nonce, naclUtil.decodeUTF8(ctx.conversationId));
+      const text = naclUtil.encodeUTF8(result.plaintext);
+
+      // The session the peer last wrote on becomes the one we reply on
+      await saveRecord(ctx, promote(record, result.state));
+      if (isNewSession && header.init?.opk !== undefined) {
+        await prekeys.consumeOneTimePrekey(ctx.userId, header.init.opk);
+      }
+      plaintexts[messageId] = text;
+      try {
+        await store.writeEncryptedItem(ctx.userId, getPlaintextItemName(ctx.conversationId, messageId), plaintexts);
+      } catch (error) {
+        // The message keys are gone either way: show it now, even if it can't be shown again
+        console.warn('Failed to cache a decrypted message; it will not be readable after a reload:', error);
+      }
+      return text;
+    });
+
+  const forgetConversationPlaintexts = (
+    ctx: Pick<ConversationContext, 'userId' | 'conversationId'>,
+    messageId: string
+  ): Promise<void> =>
+    withConversationLock(`${ctx.userId}:${ctx.conversationId}`, async () => {
+      await store.removeEncryptedItem(ctx.userId, getPlaintextItemName(ctx.conversationId, messageId));
+      const legacy = await loadLegacyPlaintexts(ctx);
+      // Edits are cached as `${messageId}@${edited_at}`
+      const versions = Object.keys(legacy).filter((id) => id === messageId || id.startsWith(`${messageId}@`));
+      if (versions.length === 0) return;
+      versions.forEach((id) => delete legacy[id]);
+      await store.writeEncryptedItem(ctx.userId, getLegacyPlaintextItemName(ctx.conversationId), legacy);
+    });
+
+  const discardConversationSessions = (userId: string, conversationId: string): Promise<void> => {
+    const key = `${userId}:${conversationId}`;
+    return withConversationLock(key, async () => {
+      records.set(key, {});
+      await store.writeEncryptedItem(userId, getSessionItemName(conversationId), {});
+    });
+  };
+
+  return {
+    encryptConversationMessage,
+    decryptConversationMessage,
+    forgetConversationPlaintexts,
+    discardConversationSessions,
+  };
+}
@@ -0,0 +1,29 @@
+import { supabase } from './supabase';
+import { refreshUnlockedKeys } from './keyring';
+import { encryptKeyBackupColumns, openKeyBackup, storeKeypairForUser } from '../utils/crypto';
+import { createRecoveryKey, generateRecoveryPhrase } from '../utils/recoveryPhrase';
+
+/**
+ * Replace the user's recovery phrase. Requires the account password to open the
+ * key backup; both backups are rewritten so the old phrase stops working.
+ * Returns the new phrase, which is shown once and never stored.
+ */
+export async function setUpRecoveryPhrase(userId: string, password: string): Promise<string> {
+  const unlocked = await openKeyBackup(userId, password, supabase);
+  if (!unlocked) {
+    throw new Error('No key backup found for this account');
+  }
+  const { keypair, kek } = unlocked;
+
+  const phrase = generateRecoveryPhrase();
+  const next = { ...keypair, recovery: createRecoveryKey(phrase) };
+  const { error } = await supabase
+    .from('users')
+    .update(await encryptKeyBackupColumns(next, kek))
+    .eq('id', userId);
+  if (error) throw error;
+
+  await storeKeypairForUser(userId, next);
+  refreshUnlockedKeys(userId, { keypair: next, kek });
+  return phrase;
+}
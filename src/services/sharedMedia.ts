@@ -0,0 +1,69 @@
+import * as naclUtil from 'tweetnacl-util';
+import type { MessageRepository } from './messageRepository';
+import { Keypair, MediaAttachment } from '../types';
+import { getIdentityPublicKey } from '../utils/identityKeys';
+import { MEDIA_STREAM_FORMAT } from '../utils/mediaStream';
+import { generateContentKey, wrapContentKey } from '../utils/messageCrypto';
+import { PaddingPolicy } from '../utils/padding';
+
+/**
+ * Media shared between two users: encrypted chunk by chunk under a fresh
+ * content key, uploaded and saved to their shared gallery with the key sealed
+ * to both identity keys. The chat (services/messaging) also sends it as an
+ * attachment; the gallery screen only shares it.
+ */
+
+// A file to share; `source` is a Blob on web and a file URI on mobile
+export interface MediaUpload {
+  source: string | Blob;
+  type: 'image' | 'video';
+  mime: string;
+  width?: number;
+  height?: number;
+  padding: PaddingPolicy;
+}
+
+export interface MediaParticipants {
+  userId: string;
+  // The unlocked account keys; our copy is sealed to the current identity key
+  keypair: Keypair;
+  contactId: string;
+  // The contact's pinned identity key (services/trustStore)
+  contactPublicKey: string;
+}
+
+/**
+ * Upload a file and save it to the shared gallery. Returns the attachment,
+ * content key included, for sending it in a message.
+ */
+export async function shareMedia(
+  repository: MessageRepository,
+  { userId, keypair, contactId, contactPublicKey }: MediaParticipants,
+  { source, type, mime, width, height, padding }: MediaUpload
+): Promise<MediaAttachment> {
+  const contentKey = generateContentKey();
+  const fileName = `${Date.now()}_${Math.random().toString(36).slice(2)}.enc`;
+  const filePath = `galleries/${userId}/${fileName}`;
+  try {
+    await repository.uploadMedia(source, contentKey, filePath, padding);
+    await repository.insertGalleryItem({
+      owner_a: userId,
+      owner_b: contactId,
+      file_path: filePath,
+      file_type: type,
+      metadata: {
+        format: MEDIA_STREAM_FORMAT,
+        originalType: mime,
+        width,
+        height,
+        wrapped_keys: {
+          [userId]: wrapContentKey(contentKey, getIdentityPublicKey(keypair.privateKey)),
+          [contactId]: wrapContentKey(contentKey, contactPublicKey),
+        },
+      },
+    });
+    return { path: filePath, type, mime, key: naclUtil.encodeBase64(contentKey), format: MEDIA_STREAM_FORMAT };
+  } finally {
+    contentKey.fill(0);
+  }
+}
@@ -0,0 +1,210 @@
+import { ContactTrust, IdentityKeyChange, IdentityKeys, KeyRotationNotice, SafetyNumber } from '../types';
+import { verifyKeyRotation } from '../utils/signatures';
+import { readEncryptedItem, writeEncryptedItem } from './localStore';
+
+/**
+ * Local trust decisions about contacts, kept in the encrypted local store.
+ *
+ * Identity keys are pinned the first time a contact is seen (trust on first
+ * use). Keys fetched later that differ from the pin are recorded as changes and
+ * are not trusted until the user accepts them, so a server swapping keys can't
+ * silently redirect messages. Rotations the contact signed with the pinned
+ * signing key (services/keyRotation) are followed automatically. A contact is verified against a specific safety
+ * number; since the number is derived from both users' keys, a key change on
+ * either side resets it.
+ */
+
+const TRUST_ITEM = 'contact_trust';
+
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run read-modify-write cycles on a user's trust records one at a time
+ */
+function withTrustLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(userId) || Promise.resolve();
+  const run = previous.then(task, task);
+  locks.set(userId, run.catch(() => undefined));
+  return run;
+}
+
+async function loadTrust(userId: string): Promise<Record<string, ContactTrust>> {
+  return (await readEncryptedItem<Record<string, ContactTrust>>(userId, TRUST_ITEM)) || {};
+}
+
+function saveTrust(userId: string, trust: Record<string, ContactTrust>): Promise<void> {
+  return writeEncryptedItem(userId, TRUST_ITEM, trust);
+}
+
+function sameKeys(a: IdentityKeys, b: IdentityKeys): boolean {
+  return a.publicKey === b.publicKey && (a.signingPublicKey || null) === (b.signingPublicKey || null);
+}
+
+/**
+ * Whether signed rotation notices lead from the pinned key to the current one
+ */
+function followsRotations(
+  contactId: string,
+  signingPublicKey: string,
+  fromKey: string,
+  toKey: string,
+  rotations: KeyRotationNotice[]
+): boolean {
+  let key = fromKey;
+  // Each step consumes a notice, so a cycle can't loop forever
+  for (let i = 0; i < rotations.length && key !== toKey; i++) {
+    const next = rotations.find(
+      (notice) => notice.previous_public_key === key && verifyKeyRotation(signingPublicKey, contactId, notice)
+    );
+    if (!next) return false;
+    key = next.public_key;
+  }
+  return key === toKey;
+}
+
+export type IdentityCheck =
+  // `keys` are the pinned identity to encrypt to and verify against
+  | { status: 'trusted'; keys: IdentityKeys; changes: IdentityKeyChange[] }
+  | { status: 'changed'; keys: IdentityKeys; change: IdentityKeyChange; changes: IdentityKeyChange[] };
+
+/**
+ * Compare a contact's published keys with the pinned ones, pinning them if
+ * this is the first time the contact is seen
+ */
+export function checkContactIdentity(
+  userId: string,
+  contactId: string,
+  current: IdentityKeys,
+  rotations: KeyRotationNotice[] = []
+): Promise<IdentityCheck> {
+  return withTrustLock(userId, async () => {
+    const trust = await loadTrust(userId);
+    const record = trust[contactId] || {};
+    const changes = record.keyChanges || [];
+    const now = new Date().toISOString();
+
+    if (!record.pinned) {
+      trust[contactId] = { ...record, pinned: { ...current, pinnedAt: now } };
+      await saveTrust(userId, trust);
+      return { status: 'trusted', keys: current, changes };
+    }
+
+    const pinned: IdentityKeys = {
+      publicKey: record.pinned.publicKey,
+      signingPublicKey: record.pinned.signingPublicKey,
+    };
+    if (sameKeys(pinned, current)) {
+      return { status: 'trusted', keys: pinned, changes };
+    }
+    // Accounts created before signing keys get one on their next unlock; adopt it
+    // under the same identity key instead of warning (a removed one still warns)
+    if (pinned.publicKey === current.publicKey && !pinned.signingPublicKey && current.signingPublicKey) {
+      trust[contactId] = { ...record, pinned: { ...record.pinned, signingPublicKey: current.signingPublicKey } };
+      await saveTrust(userId, trust);
+      return { status: 'trusted', keys: current, changes };
+    }
+
+    // A new identity key vouched for by the pinned signing key replaces the pin
+    if (
+      pinned.signingPublicKey &&
+      pinned.signingPublicKey === current.signingPublicKey &&
+      followsRotations(contactId, pinned.signingPublicKey, pinned.publicKey, current.publicKey, rotations)
+    ) {
+      const rotation: IdentityKeyChange = {
+        detectedAt: now,
+        previousKeys: pinned,
+        newKeys: current,
+        acceptedAt: now,
+        rotated: true,
+      };
+      // A warning recorded before the notice arrived becomes the rotation entry
+      const updated = [...changes.filter((c) => c.acceptedAt || !sameKeys(c.newKeys, current)), rotation];
+      trust[contactId] = {
+        ...record,
+        pinned: { ...current, pinnedAt: now },
+        keyChanges: updated,
+        verifiedSafetyNumber: undefined,
+        verifiedAt: undefined,
+      };
+      await saveTrust(userId, trust);
+      return { status: 'trusted', keys: current, changes: updated };
+    }
+
+    let change = changes.find((c) => !c.acceptedAt && sameKeys(c.newKeys, current));
+    if (!change) {
+      change = { detectedAt: now, previousKeys: pinned, newKeys: current };
+      trust[contactId] = { ...record, keyChanges: [...changes, change] };
+      await saveTrust(userId, trust);
+    }
+    return { status: 'changed', keys: pinned, change, changes: trust[contactId].keyChanges || [] };
+  });
+}
+
+/**
+ * Trust a contact's new keys: they become the pinned identity and any
+ * verification made for the old keys is cleared
+ */
+export function acceptContactIdentity(userId: string, contactId: string, keys: IdentityKeys): Promise<void> {
+  return withTrustLock(userId, async () => {
+    const trust = await loadTrust(userId);
+    const record = trust[contactId] || {};
+    const now = new Date().toISOString();
+    trust[contactId] = {
+      ...record,
+      pinned: { ...keys, pinnedAt: now },
+      keyChanges: (record.keyChanges || []).map((c) =>
+        !c.acceptedAt && sameKeys(c.newKeys, keys) ? { ...c, acceptedAt: now } : c
+      ),
+      verifiedSafetyNumber: undefined,
+      verifiedAt: undefined,
+    };
+    await saveTrust(userId, trust);
+  });
+}
+
+/**
+ * Whether the contact is verified for the current safety number.
+ * A verification made against a different number is dropped.
+ */
+export function isContactVerified(userId: string, contactId: string, safetyNumber: SafetyNumber): Promise<boolean> {
+  return withTrustLock(userId, async () => {
+    const trust = await loadTrust(userId);
+    const record = trust[contactId];
+    if (!record?.verifiedSafetyNumber) {
+      return false;
+    }
+    if (record.verifiedSafetyNumber === safetyNumber.digits) {
+      return true;
+    }
+    trust[contactId] = { ...record, verifiedSafetyNumber: undefined, verifiedAt: undefined };
+    await saveTrust(userId, trust);
+    return false;
+  });
+}
+
+/**
+ * Mark the contact as verified for this safety number
+ */
+export function markContactVerified(userId: string, contactId: string, safetyNumber: SafetyNumber): Promise<void> {
+  return withTrustLock(userId, async () => {
+    const trust = await loadTrust(userId);
+    trust[contactId] = {
+      ...trust[contactId],
+      verifiedSafetyNumber: safetyNumber.digits,
+      verifiedAt: new Date().toISOString(),
+    };
+    await saveTrust(userId, trust);
+  });
+}
+
+/**
+ * Clear the contact's verified state
+ */
+export function clearContactVerification(userId: string, contactId: string): Promise<void> {
+  return withTrustLock(userId, async () => {
+    const trust = await loadTrust(userId);
+    if (!trust[contactId]) return;
+    trust[contactId] = { ...trust[contactId], verifiedSafetyNumber: undefined, verifiedAt: undefined };
+    await saveTrust(userId, trust);
+  });
+}
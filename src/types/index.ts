@@ -5,6 +5,8 @@ export interface User {
   display_name?: string;
   avatar_url?: string;
   public_key: string;
+  signing_public_key?: string;
+  identity_rotations?: KeyRotationNotice[];
   created_at: string;
   push_token?: string;
 }
@@ -22,15 +24,60 @@ export interface Message {
   id: string;
   conversation_id: string;
   sender: string;
-  ciphertext: string;
-  ciphertext_sender?: string; // Encrypted copy for sender (so they can read their own messages)
+  sender_device?: string;
+  device_ciphertexts?: Record<string, string>; // device id -> envelope, for every device of both users
+  ciphertext?: string; // legacy: recipient's copy
+  ciphertext_sender?: string; // legacy: encrypted copy for sender (so they can read their own messages)
   ephemeral_pubkey?: string;
   ephemeral_pubkey_sender?: string; // Ephemeral key for sender's copy
   attached_files?: AttachedFile[];
-  metadata?: Record<string, any>; // Store media references (file_path, file_type, nonce, etc.)
+  metadata?: Record<string, any>; // payload version, signature; legacy media references (file_path, file_type, nonce)
   created_at: string;
   delivered: boolean;
   read: boolean;
+  // Set by the server when the recipient acknowledges the message
+  delivered_at?: string | null;
+  read_at?: string | null;
+  // Set by the server when the sender replaces the content; earlier versions are in message_revisions
+  edited_at?: string | null;
+  // Set by the server when the sender deleted the message for everyone; the content is gone
+  deleted_at?: string | null;
+}
+
+// Message fields covered by the sender's Ed25519 signature (metadata.sig)
+export interface MessageEnvelope {
+  conversation_id: string;
+  sender: string;
+  sender_device?: string;
+  device_ciphertexts?: Record<string, string>;
+  ciphertext?: string;
+  ciphertext_sender?: string;
+  ephemeral_pubkey?: string;
+  ephemeral_pubkey_sender?: string;
+  metadata?: Record<string, any>;
+}
+
+// An earlier version of an edited message, archived by the server when it was replaced
+export interface MessageRevision extends MessageEnvelope {
+  id: string;
+  message_id: string;
+  // The message's created_at and edited_at while this version was current
+  created_at: string;
+  edited_at?: string | null;
+  replaced_at: string;
+}
+
+// A registered device with its own keys, certified by the account signing key
+export interface Device {
+  id: string;
+  user_id: string;
+  name: string;
+  public_key: string;
+  signing_public_key: string;
+  signature: string;
+  created_at: string;
+  last_seen_at?: string;
+  revoked_at?: string | null;
 }
 
 export interface AttachedFile {
@@ -50,12 +97,121 @@ export interface GalleryItem {
   file_type: 'image' | 'video';
   thumbnail_path?: string;
   created_at: string;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any>; // format, originalType, width, height; wrapped_keys: user id -> WrappedKey
+}
+
+// A media content key sealed to one participant's identity key (all base64)
+export interface WrappedKey {
+  ephemeralPublicKey: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+// Encrypted file in storage plus the random key it was encrypted under
+export interface MediaAttachment {
+  path: string;
+  type: 'image' | 'video';
+  mime: string;
+  key: string; // base64 content key
+  format: string; // storage format, see services/mediaStorage
+}
+
+// The message a reply quotes, with a short excerpt so the quote shows before the original is loaded
+export interface MessageReply {
+  id: string;
+  sender: string;
+  excerpt: string;
+}
+
+// Structured plaintext of messages whose metadata.payload is set (utils/messagePayload)
+export interface MessagePayload {
+  text: string;
+  attachment?: MediaAttachment;
+  replyTo?: MessageReply;
+}
+
+// A message with its decrypted payload, as shown in the chat (services/messaging)
+export interface DecryptedMessageItem extends Message {
+  decryptedText: string;
+  attachment?: MediaAttachment;
+  replyTo?: MessageReply;
+  decryptError?: boolean;
+  // Signature missing or invalid: the claimed sender may not have sent this
+  unauthenticated?: boolean;
 }
 
 export interface Keypair {
   publicKey: string;
   privateKey: string;
+  // Ed25519 identity signing key (identity keypairs only)
+  signingPublicKey?: string;
+  signingPrivateKey?: string;
+  // Previous identity keys, kept so older ciphertexts still decrypt
+  retiredKeys?: RetiredKey[];
+  // Key wrapping the recovery-phrase copy of the backup, if one was set up
+  recovery?: RecoveryKey;
+}
+
+// Derived from a recovery phrase (utils/recoveryPhrase); all base64
+export interface RecoveryKey {
+  salt: string;
+  key: string;
+}
+
+export interface RetiredKey {
+  keyId: string;
+  publicKey: string;
+  privateKey: string;
+  retiredAt: string;
+}
+
+// Published in users.identity_rotations, signed with the (unchanged) signing key
+export interface KeyRotationNotice {
+  previous_public_key: string;
+  public_key: string;
+  rotated_at: string;
+  signature: string;
+}
+
+export type KdfParams =
+  | { alg: 'scrypt'; N: number; r: number; p: number; salt: string }
+  | { alg: 'pbkdf2-sha256'; iterations: number; salt: string };
+
+// Key-encryption key derived from the password under a backup's KDF params.
+// Held instead of the password so the backup can be reopened or rewritten.
+export interface BackupKek {
+  key: Uint8Array;
+  kdf: KdfParams;
+}
+
+// Keys opened from the backup, with the KEK that opened it
+export interface UnlockedKeys {
+  keypair: Keypair;
+  kek: BackupKek;
+}
+
+// Versioned password-wrapped backup stored in users.encrypted_private_key
+export interface KeyBackupEnvelope {
+  version: number;
+  kdf: KdfParams;
+  nonce: string;
+  ciphertext: string;
+}
+
+// Recovery-phrase copy of the key backup, stored in users.recovery_key_backup
+export interface RecoveryBackupEnvelope {
+  version: number;
+  salt: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+// Plaintext contents of a key backup
+export interface KeyBackupPayload {
+  privateKey: string;
+  signingPrivateKey?: string;
+  retiredKeys?: RetiredKey[];
+  recovery?: RecoveryKey;
 }
 
 export interface EncryptedMessage {
@@ -69,3 +225,82 @@ export interface DecryptedMessage {
   timestamp: string;
   attachments?: AttachedFile[];
 }
+
+// Plaintext header sent with every Double Ratchet message
+export interface RatchetHeader {
+  sid: string; // session id chosen by the initiator
+  dh: string; // sender's current ratchet public key
+  pn: number; // length of the previous sending chain
+  n: number; // message number in the current sending chain
+  init?: RatchetInit; // present until the initiator receives a reply
+}
+
+// Key agreement details the responder needs to start the session
+export interface RatchetInit {
+  ik: string; // initiator identity key
+  ek?: string; // X3DH ephemeral key (absent for static-static sessions)
+  spk?: number; // responder signed prekey id
+  opk?: number; // responder one-time prekey id, if one was available
+}
+
+// Decoded form of the binary message envelope (utils/envelope), all bytes base64
+export type CipherEnvelope =
+  | { alg: 'ratchet'; header: RatchetHeader; nonce: string; ciphertext: string }
+  | { alg: 'ephemeral'; ephemeralPublicKey: string; nonce: string; ciphertext: string };
+
+// Prekey bundle of one device (its identity and signing keys), returned by claim_prekey_bundle
+export interface PrekeyBundle {
+  identityKey: string;
+  signingKey: string;
+  signedPrekey: { keyId: number; publicKey: string; signature: string };
+  oneTimePrekey: { keyId: number; publicKey: string } | null;
+}
+
+// Serializable Double Ratchet state (all keys base64)
+export interface RatchetState {
+  sessionId: string;
+  rootKey: string;
+  sendingRatchet: Keypair;
+  remoteRatchetKey: string | null;
+  sendingChainKey: string | null;
+  receivingChainKey: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skippedKeys: Record<string, string>; // `${ratchetKey}:${n}` -> message key
+  pendingInit?: RatchetInit;
+}
+
+// A user's published identity: X25519 key plus Ed25519 signing key (base64)
+export interface IdentityKeys {
+  publicKey: string;
+  signingPublicKey?: string;
+}
+
+// Keys a user is identified by when computing safety numbers (utils/safetyNumber)
+export interface SafetyIdentity extends IdentityKeys {
+  userId: string;
+}
+
+export interface SafetyNumber {
+  digits: string; // 60 digits, identical on both devices
+  blocks: string[]; // the digits in 5-digit groups for display
+  qrPayload: string; // shown as a QR code for the contact to scan
+}
+
+// Identity keys seen for a contact that differ from the pinned ones
+export interface IdentityKeyChange {
+  detectedAt: string;
+  previousKeys: IdentityKeys;
+  newKeys: IdentityKeys;
+  acceptedAt?: string; // set once the user re-accepts, making newKeys the pinned identity
+  rotated?: boolean; // accepted automatically from a signed rotation notice
+}
+
+// Per-contact trust state kept in the local store (services/trustStore)
+export interface ContactTrust {
+  pinned?: IdentityKeys & { pinnedAt: string }; // trusted on first use
+  keyChanges?: IdentityKeyChange[];
+  verifiedSafetyNumber?: string; // digits at the time the contact was verified
+  verifiedAt?: string;
+}
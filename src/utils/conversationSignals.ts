@@ -0,0 +1,63 @@
+import * as naclUtil from 'tweetnacl-util';
+import { concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { getCryptoProvider, SECRETBOX_NONCE_BYTES } from './cryptoProvider';
+
+/**
+ * Ephemeral conversation signals (typing and presence), relayed by the server
+ * without being stored.
+ *
+ * Signals are sealed with a key derived from the static shared key of the two
+ * identity keys and the conversation id, and padded to one size, so the server
+ * only relays equal-sized opaque blobs. Both users share the key, so each
+ * signal names its sender and carries its send time; stale ones are dropped.
+ */
+
+export type ConversationSignal =
+  | { type: 'typing'; from: string; typing: boolean; sentAt: number }
+  | { type: 'presence'; from: string; sentAt: number };
+
+const SIGNAL_INFO = utf8ToBytes('E2EChat-Signals-v1');
+// Every sealed signal has this plaintext size, in bytes
+const SIGNAL_SIZE = 256;
+
+/**
+ * Key for a conversation's signals, from the identity keys' shared key
+ */
+export function deriveSignalKey(sharedKey: Uint8Array, conversationId: string): Uint8Array {
+  return getCryptoProvider().hkdfSha256(sharedKey, utf8ToBytes(conversationId), SIGNAL_INFO, 32);
+}
+
+export function sealSignal(key: Uint8Array, signal: ConversationSignal): string {
+  const json = JSON.stringify(signal);
+  const length = naclUtil.decodeUTF8(json).length;
+  const padded = json + ' '.repeat(Math.max(0, SIGNAL_SIZE - length));
+  const nonce = getCryptoProvider().randomBytes(SECRETBOX_NONCE_BYTES);
+  const box = getCryptoProvider().secretbox(naclUtil.decodeUTF8(padded), nonce, key);
+  return naclUtil.encodeBase64(concatBytes(nonce, box));
+}
+
+/**
+ * Open a sealed signal. Returns null if it does not decrypt or parse.
+ */
+export function openSignal(key: Uint8Array, sealed: string): ConversationSignal | null {
+  try {
+    const bytes = naclUtil.decodeBase64(sealed);
+    const plaintext = getCryptoProvider().secretboxOpen(
+      bytes.subarray(SECRETBOX_NONCE_BYTES),
+      bytes.subarray(0, SECRETBOX_NONCE_BYTES),
+      key
+    );
+    if (!plaintext) return null;
+    const value = JSON.parse(naclUtil.encodeUTF8(plaintext).trimEnd());
+    if (!value || typeof value.from !== 'string' || typeof value.sentAt !== 'number') return null;
+    if (value.type === 'typing' && typeof value.typing === 'boolean') {
+      return { type: 'typing', from: value.from, typing: value.typing, sentAt: value.sentAt };
+    }
+    if (value.type === 'presence') {
+      return { type: 'presence', from: value.from, sentAt: value.sentAt };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
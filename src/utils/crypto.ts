@@ -3,7 +3,22 @@ import * as naclUtil from 'tweetnacl-util';
 import * as SecureStore from 'expo-secure-store';
 import * as Crypto from 'expo-crypto';
 import { Platform } from 'react-native';
-import { Keypair, EncryptedMessage } from '../types';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Keypair, UnlockedKeys } from '../types';
+import { CryptoProvider, getCryptoProvider, setCryptoProvider } from './cryptoProvider';
+import { tweetnaclProvider } from './cryptoProviders/tweetnacl';
+import { createWebCryptoProvider } from './cryptoProviders/webCrypto';
+import {
+  createBackupKek,
+  encryptKeyBackup,
+  decryptKeyBackup,
+  encryptRecoveryBackup,
+  decryptRecoveryBackup,
+  KeyBackupSecret,
+} from './keyBackup';
+import { getSigningPublicKey } from './identityKeys';
+import { deleteWebKeystoreItem, readWebKeystoreItem, writeWebKeystoreItem } from './webKeystore';
 
 // Store keys per user for multi-account support
 function getPrivateKeyStorageKey(userId: string) {
@@ -12,84 +27,92 @@ function getPrivateKeyStorageKey(userId: string) {
 function getPublicKeyStorageKey(userId: string) {
   return `user_public_key_${userId}`;
 }
-function getPasswordHashStorageKey(userId: string) {
-  return `user_password_hash_${userId}`;
+function getSigningKeyStorageKey(userId: string) {
+  return `user_signing_key_${userId}`;
 }
-
-// Set up random bytes for tweetnacl using expo-crypto
-if (Platform.OS !== 'web') {
-  nacl.setPRNG((buffer: Uint8Array, length: number) => {
-    const randomBytes = Crypto.getRandomBytes(length);
-    buffer.set(randomBytes);
-  });
+function getRetiredKeysStorageKey(userId: string) {
+  return `user_retired_keys_${userId}`;
 }
 
+// Key fields cached on this device (web keystore or SecureStore)
+type LocalKeypair = Pick<Keypair, 'privateKey' | 'publicKey' | 'signingPrivateKey' | 'retiredKeys'>;
+
 /**
- * Derive a key from password using PBKDF2
+ * Older web builds kept the keys in plaintext localStorage. Remove those copies.
  */
-async function deriveKeyFromPassword(password: string, salt: string): Promise<Uint8Array> {
-  // Use PBKDF2 with 100,000 iterations
-  const iterations = 100000;
-  const keyMaterial = await Crypto.digestStringAsync(
-    Crypto.CryptoDigestAlgorithm.SHA256,
-    password + salt
-  );
-  // In production, use proper PBKDF2 library. This is simplified.
-  // For now, hash multiple times to simulate PBKDF2
-  let key = keyMaterial;
-  for (let i = 0; i < 1000; i++) {
-    key = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, key + salt);
-  }
-  // Convert hex string to Uint8Array (take first 32 bytes for XSalsa20)
-  const keyBytes = new Uint8Array(32);
-  for (let i = 0; i < 32; i++) {
-    keyBytes[i] = parseInt(key.substr(i * 2, 2), 16);
-  }
-  return keyBytes;
+function removeLegacyWebKeypair(userId: string) {
+  localStorage.removeItem(getPrivateKeyStorageKey(userId));
+  localStorage.removeItem(getPublicKeyStorageKey(userId));
+  localStorage.removeItem(getSigningKeyStorageKey(userId));
+  localStorage.removeItem(getRetiredKeysStorageKey(userId));
 }
 
 /**
- * Encrypt private key with user's password
+ * Move keys from plaintext localStorage into the web keystore.
+ * Returns the migrated keys, or null if there were none.
  */
-export async function encryptPrivateKeyWithPassword(
-  privateKey: string,
-  password: string
-): Promise<{ encryptedKey: string; salt: string; nonce: string }> {
-  const salt = naclUtil.encodeBase64(nacl.randomBytes(32));
-  const derivedKey = await deriveKeyFromPassword(password, salt);
-  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
-  const privateKeyBytes = naclUtil.decodeUTF8(privateKey);
-  const encrypted = nacl.secretbox(privateKeyBytes, nonce, derivedKey);
-  
-  return {
-    encryptedKey: naclUtil.encodeBase64(encrypted),
-    salt,
-    nonce: naclUtil.encodeBase64(nonce),
+async function migrateLegacyWebKeypair(userId: string): Promise<LocalKeypair | null> {
+  const privateKey = localStorage.getItem(getPrivateKeyStorageKey(userId));
+  if (!privateKey) return null;
+  const retiredKeys = localStorage.getItem(getRetiredKeysStorageKey(userId));
+  const keypair: LocalKeypair = {
+    privateKey,
+    publicKey: localStorage.getItem(getPublicKeyStorageKey(userId)) || '',
+    signingPrivateKey: localStorage.getItem(getSigningKeyStorageKey(userId)) || undefined,
+    retiredKeys: retiredKeys ? JSON.parse(retiredKeys) : [],
   };
+  await writeWebKeystoreItem(userId, JSON.stringify(keypair));
+  removeLegacyWebKeypair(userId);
+  return keypair;
 }
 
 /**
- * Decrypt private key with user's password
+ * Cache keys on this device: the web keystore (IndexedDB, sealed with a
+ * non-extractable WebCrypto key) or SecureStore (Keychain/Keystore)
  */
-export async function decryptPrivateKeyWithPassword(
-  encryptedKey: string,
-  salt: string,
-  nonce: string,
-  password: string
-): Promise<string> {
-  const derivedKey = await deriveKeyFromPassword(password, salt);
-  const encryptedBytes = naclUtil.decodeBase64(encryptedKey);
-  const nonceBytes = naclUtil.decodeBase64(nonce);
-  const decrypted = nacl.secretbox.open(encryptedBytes, nonceBytes, derivedKey);
-  
-  if (!decrypted) {
-    throw new Error('Failed to decrypt private key. Wrong password?');
+async function writeLocalKeypair(userId: string, keypair: LocalKeypair): Promise<void> {
+  const retiredKeys = keypair.retiredKeys || [];
+  if (Platform.OS === 'web') {
+    await writeWebKeystoreItem(
+      userId,
+      JSON.stringify({
+        privateKey: keypair.privateKey,
+        publicKey: keypair.publicKey,
+        signingPrivateKey: keypair.signingPrivateKey,
+        retiredKeys,
+      })
+    );
+    removeLegacyWebKeypair(userId);
+    return;
   }
-  
-  return naclUtil.encodeUTF8(decrypted);
+  if (keypair.privateKey.length > 2048) {
+    throw new Error('Private key too large for SecureStore');
+  }
+  await SecureStore.setItemAsync(getPrivateKeyStorageKey(userId), keypair.privateKey);
+  if (keypair.signingPrivateKey) {
+    await SecureStore.setItemAsync(getSigningKeyStorageKey(userId), keypair.signingPrivateKey);
+  }
+  await SecureStore.setItemAsync(getRetiredKeysStorageKey(userId), JSON.stringify(retiredKeys));
 }
 
-// Set up random bytes for tweetnacl using expo-crypto
+async function readLocalKeypair(userId: string): Promise<LocalKeypair | null> {
+  if (Platform.OS === 'web') {
+    const stored = await readWebKeystoreItem(userId);
+    return stored ? JSON.parse(stored) : migrateLegacyWebKeypair(userId);
+  }
+  const privateKey = await SecureStore.getItemAsync(getPrivateKeyStorageKey(userId));
+  if (!privateKey) return null;
+  const signingPrivateKey = await SecureStore.getItemAsync(getSigningKeyStorageKey(userId));
+  const retiredKeys = await SecureStore.getItemAsync(getRetiredKeysStorageKey(userId));
+  return {
+    privateKey,
+    publicKey: '',
+    signingPrivateKey: signingPrivateKey || undefined,
+    retiredKeys: retiredKeys ? JSON.parse(retiredKeys) : [],
+  };
+}
+
+// tweetnacl has no PRNG on React Native: use the platform CSPRNG from expo-crypto
 if (Platform.OS !== 'web') {
   nacl.setPRNG((buffer: Uint8Array, length: number) => {
     const randomBytes = Crypto.getRandomBytes(length);
@@ -97,63 +120,65 @@ if (Platform.OS !== 'web') {
   });
 }
 
-/**
- * Initialize libsodium (must be called before any crypto operations)
- */
-export async function initCrypto(): Promise<void> {
-  // No initialization needed for tweetnacl
-  return Promise.resolve();
+let cryptoReady: Promise<void> | null = null;
+
+async function selectCryptoProvider(): Promise<CryptoProvider> {
+  if (Platform.OS === 'web') {
+    try {
+      return createWebCryptoProvider(globalThis.crypto);
+    } catch (error) {
+      console.warn('WebCrypto unavailable, using tweetnacl:', error);
+      return tweetnaclProvider;
+    }
+  }
+  try {
+    // Loaded lazily so a libsodium build that cannot run here does not break startup
+    const { createLibsodiumProvider } = await import('./cryptoProviders/libsodium');
+    const provider = await createLibsodiumProvider();
+    // Throws when libsodium finds no entropy source
+    provider.randomBytes(1);
+    return provider;
+  } catch (error) {
+    console.warn('libsodium unavailable, using tweetnacl:', error);
+    return tweetnaclProvider;
+  }
 }
 
 /**
- * Generate an identity keypair using X25519 (Curve25519)
+ * Pick the crypto provider for this platform: WebCrypto in browsers, libsodium
+ * on native, tweetnacl as the fallback. Safe to call more than once.
  */
-export function generateIdentityKeypair(): Keypair {
-  const kp = nacl.box.keyPair();
-  return {
-    publicKey: naclUtil.encodeBase64(kp.publicKey),
-    privateKey: naclUtil.encodeBase64(kp.secretKey),
-  };
+export function initCrypto(): Promise<void> {
+  if (!cryptoReady) {
+    cryptoReady = selectCryptoProvider().then(setCryptoProvider);
+  }
+  return cryptoReady;
 }
 
-/**
- * Store keypair securely
- * Mobile: Uses SecureStore (Keychain/Keystore)
- * Web: Uses IndexedDB (should be password-protected in production)
- */
 /**
  * Store keypair securely for a specific user (local storage + database backup)
+ * Mobile: SecureStore (Keychain/Keystore)
+ * Web: IndexedDB, sealed with a non-extractable WebCrypto key (utils/webKeystore)
  */
 export async function storeKeypairForUser(
   userId: string,
   keypair: Keypair,
   password?: string,
-  supabase?: any
+  supabase?: SupabaseClient
 ): Promise<void> {
   // Store locally first
-  if (Platform.OS === 'web') {
-    localStorage.setItem(getPrivateKeyStorageKey(userId), keypair.privateKey);
-    localStorage.setItem(getPublicKeyStorageKey(userId), keypair.publicKey);
-  } else {
-    if (keypair.privateKey.length > 2048) {
-      throw new Error('Private key too large for SecureStore');
-    }
-    try {
-      await SecureStore.setItemAsync(getPrivateKeyStorageKey(userId), keypair.privateKey);
-    } catch (err) {
-      throw new Error('Failed to store private key securely');
-    }
+  try {
+    await writeLocalKeypair(userId, keypair);
+  } catch (err) {
+    throw new Error('Failed to store private key securely');
   }
 
   // Also store encrypted private key in database if password and supabase provided
   if (password && supabase) {
     try {
-      const encrypted = await encryptPrivateKeyWithPassword(keypair.privateKey, password);
-      const encryptedData = JSON.stringify(encrypted);
-      
       const { error } = await supabase
         .from('users')
-        .update({ encrypted_private_key: encryptedData })
+        .update(await encryptKeyBackupColumns(keypair, password))
         .eq('id', userId);
       
       if (error) {
@@ -164,227 +189,254 @@ export async function storeKeypairForUser(
     }
   }
 }
-/**
- * Load keypair for a specific user (try database first if password provided, then local as cache)
- * This ensures keys are always account-bound, not device-bound.
- */
-export async function getStoredKeypairForUser(
-  userId: string,
-  password?: string,
-  supabase?: any
-): Promise<Keypair | null> {
-  let privateKey: string | null = null;
-  let publicKey: string | null = null;
-  
-  // PRIORITY 1: Try loading from database first if password + supabase provided
-  // This ensures cross-device/cross-platform consistency
-  if (password && supabase) {
-    try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('encrypted_private_key, public_key')
-        .eq('id', userId)
-        .single();
-      
-      if (data?.encrypted_private_key) {
-        // Decrypt the private key
-        const encrypted = JSON.parse(data.encrypted_private_key);
-        privateKey = await decryptPrivateKeyWithPassword(
-          encrypted.encryptedKey,
-          encrypted.salt,
-          encrypted.nonce,
-          password
-        );
-        publicKey = data.public_key;
-
-        // Validate: derive public key from decrypted private key and compare
-        try {
-          const privBytes = naclUtil.decodeBase64(privateKey);
-          const derivedPub = nacl.box.keyPair.fromSecretKey(privBytes).publicKey;
-          const derivedPubB64 = naclUtil.encodeBase64(derivedPub);
-          if (publicKey && derivedPubB64 !== publicKey) {
-            throw new Error('Decrypted private key does not match public key. Wrong password?');
-          }
-        } catch (e) {
-          throw new Error('Failed to validate decrypted private key. Wrong password?');
-        }
-
-        // Cache decrypted key locally for faster future access
-        if (privateKey) {
-          if (Platform.OS === 'web') {
-            localStorage.setItem(getPrivateKeyStorageKey(userId), privateKey);
-            localStorage.setItem(getPublicKeyStorageKey(userId), publicKey || '');
-          } else {
-            try {
-              await SecureStore.setItemAsync(getPrivateKeyStorageKey(userId), privateKey);
-            } catch (err) {
-              console.warn('Failed to cache private key locally:', err);
-            }
-          }
-        }
-        
-        return { privateKey, publicKey: publicKey || '' };
-      }
-    } catch (error) {
-      console.error('Error loading encrypted private key from database:', error);
-      throw error;
-    }
-  }
-  
-  // PRIORITY 2: Fallback to local storage if no password or DB load failed
-  // This is only used as a cache or when operating offline
-  if (Platform.OS === 'web') {
-    privateKey = localStorage.getItem(getPrivateKeyStorageKey(userId));
-    publicKey = localStorage.getItem(getPublicKeyStorageKey(userId));
-  } else {
-    privateKey = await SecureStore.getItemAsync(getPrivateKeyStorageKey(userId));
-  }
-  
-  if (!privateKey) return null;
-  return { privateKey, publicKey: publicKey || '' };
-}
 
 /**
- * Derive a session key using your private key and peer's public key (Diffie-Hellman)
- */
-export function deriveSessionKey(myPrivateKeyBase64: string, peerPublicKeyBase64: string): Uint8Array {
-  const myPrivateKey = naclUtil.decodeBase64(myPrivateKeyBase64);
-  const peerPublicKey = naclUtil.decodeBase64(peerPublicKeyBase64);
-  // Use nacl.box.before for shared secret
-  return nacl.box.before(peerPublicKey, myPrivateKey);
-}
-/**
- * Generate a fingerprint/security code for a public key
+ * Encrypt the key backup columns for users: the password-protected backup and,
+ * if a recovery phrase was set up, the recovery copy
  */
-export async function getPublicKeyFingerprint(publicKeyBase64: string): Promise<string> {
-  // Use SHA-256 and return first 8 hex chars
-  const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, publicKeyBase64);
-  return hash.slice(0, 8);
+export async function encryptKeyBackupColumns(
+  keypair: Keypair,
+  secret: KeyBackupSecret
+): Promise<{ encrypted_private_key: string; recovery_key_backup?: string }> {
+  const payload = {
+    privateKey: keypair.privateKey,
+    signingPrivateKey: keypair.signingPrivateKey,
+    retiredKeys: keypair.retiredKeys,
+    recovery: keypair.recovery,
+  };
+  const columns: { encrypted_private_key: string; recovery_key_backup?: string } = {
+    encrypted_private_key: await encryptKeyBackup(payload, secret),
+  };
+  if (keypair.recovery) {
+    columns.recovery_key_backup = encryptRecoveryBackup(payload, keypair.recovery);
+  }
+  return columns;
 }
 
 /**
- * @deprecated Use getStoredKeypairForUser(userId) instead
- * Retrieve stored keypair (legacy - do not use)
+ * Restore keys from the recovery copy of the backup (e.g. after a forgotten
+ * password) and protect them again with the account's current password
  */
-export async function getStoredKeypair(): Promise<Keypair | null> {
-  throw new Error('getStoredKeypair() is deprecated. Use getStoredKeypairForUser(userId) instead.');
-}
+export async function restoreKeypairWithRecoveryPhrase(
+  userId: string,
+  phrase: string,
+  password: string,
+  supabase: SupabaseClient
+): Promise<UnlockedKeys> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('recovery_key_backup, public_key')
+    .eq('id', userId)
+    .single();
+  if (error) throw error;
+  if (!data?.recovery_key_backup) {
+    throw new Error('No recovery phrase was set up for this account');
+  }
 
-/**
- * Derive a shared symmetric key from local private key and remote public key
- */
-export function deriveSharedKey(
-  localPrivateB64: string,
-  remotePublicB64: string
-): Uint8Array {
-  const localPriv = naclUtil.decodeBase64(localPrivateB64);
-  const remotePub = naclUtil.decodeBase64(remotePublicB64);
-  const shared = nacl.box.before(remotePub, localPriv);
-  return shared;
-}
+  const payload = decryptRecoveryBackup(data.recovery_key_backup, phrase);
+  const derivedPub = naclUtil.encodeBase64(
+    getCryptoProvider().boxKeyPairFromSecretKey(naclUtil.decodeBase64(payload.privateKey)).publicKey
+  );
+  if (data.public_key && derivedPub !== data.public_key) {
+    throw new Error('Recovered key does not match the published public key');
+  }
 
-/**
- * Encrypt a message using symmetric key (XSalsa20-Poly1305)
- */
-export function encryptMessage(
-  symKey: Uint8Array,
-  plaintext: string
-): EncryptedMessage {
-  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
-  const messageUint8 = naclUtil.decodeUTF8(plaintext);
-  const cipher = nacl.secretbox(messageUint8, nonce, symKey);
-  return {
-    ciphertext: naclUtil.encodeBase64(cipher),
-    nonce: naclUtil.encodeBase64(nonce),
+  const keypair: Keypair = {
+    privateKey: payload.privateKey,
+    publicKey: derivedPub,
+    retiredKeys: payload.retiredKeys || [],
+    recovery: payload.recovery,
+    ...(payload.signingPrivateKey
+      ? { signingPrivateKey: payload.signingPrivateKey, signingPublicKey: getSigningPublicKey(payload.signingPrivateKey) }
+      : {}),
   };
-}
-
-/**
- * Decrypt a message using symmetric key
- */
-export function decryptMessage(
-  symKey: Uint8Array,
-  ciphertextB64: string,
-  nonceB64: string
-): string {
-  const cipher = naclUtil.decodeBase64(ciphertextB64);
-  const nonce = naclUtil.decodeBase64(nonceB64);
-  const decrypted = nacl.secretbox.open(cipher, nonce, symKey);
-  if (!decrypted) {
-    throw new Error('Decryption failed');
+  const kek = await createBackupKek(password);
+  const { error: updateError } = await supabase
+    .from('users')
+    .update(await encryptKeyBackupColumns(keypair, kek))
+    .eq('id', userId);
+  if (updateError) {
+    kek.key.fill(0);
+    throw updateError;
   }
-  return naclUtil.encodeUTF8(decrypted);
+
+  await storeKeypairForUser(userId, keypair);
+  return { keypair, kek };
 }
 
+const pendingDatabaseLoads = new Map<string, Promise<UnlockedKeys | null>>();
+
 /**
- * Generate ephemeral keypair for forward secrecy
+ * Decrypt the keypair from the database backup, upgrading the backup if needed.
+ * Returns null if the user has no backup yet.
  */
-export function generateEphemeralKeypair(): Keypair {
-  return generateIdentityKeypair();
+async function loadKeypairFromDatabase(
+  userId: string,
+  secret: KeyBackupSecret,
+  supabase: SupabaseClient
+): Promise<UnlockedKeys | null> {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('encrypted_private_key, public_key, signing_public_key')
+      .eq('id', userId)
+      .single();
+    
+    if (data?.encrypted_private_key) {
+      // Decrypt the private key
+      const { payload, needsUpgrade: outdatedBackup, kek } = await decryptKeyBackup(data.encrypted_private_key, secret);
+      let needsUpgrade = outdatedBackup;
+      const privateKey = payload.privateKey;
+      const publicKey = data.public_key;
+
+      // Validate: derive public key from decrypted private key and compare
+      try {
+        const privBytes = naclUtil.decodeBase64(privateKey);
+        const derivedPub = getCryptoProvider().boxKeyPairFromSecretKey(privBytes).publicKey;
+        const derivedPubB64 = naclUtil.encodeBase64(derivedPub);
+        if (publicKey && derivedPubB64 !== publicKey) {
+          throw new Error('Decrypted private key does not match public key. Wrong password?');
+        }
+      } catch (e) {
+        throw new Error('Failed to validate decrypted private key. Wrong password?');
+      }
+
+      // Accounts created before signing keys existed get one on first unlock
+      const newSigningKey = !payload.signingPrivateKey;
+      if (newSigningKey) {
+        payload.signingPrivateKey = naclUtil.encodeBase64(nacl.sign.keyPair().secretKey);
+        needsUpgrade = true;
+      }
+      const signingPrivateKey = payload.signingPrivateKey!;
+      const signingPublicKey = getSigningPublicKey(signingPrivateKey);
+
+      // Re-encrypt legacy or weak-KDF backups now that we know the password. A new
+      // signing key is published in the same update as the backup that holds it,
+      // so the published key is always the one the next unlock restores.
+      if (needsUpgrade) {
+        try {
+          const upgraded = await encryptKeyBackup(payload, kek);
+          const { error: upgradeError } = await supabase
+            .from('users')
+            .update({
+              encrypted_private_key: upgraded,
+              ...(newSigningKey ? { signing_public_key: signingPublicKey } : {}),
+            })
+            .eq('id', userId);
+          if (upgradeError) throw upgradeError;
+        } catch (err) {
+          if (newSigningKey) {
+            // Unlocking without the backup would sign with a key the next unlock can't restore
+            if (typeof secret === 'string') kek.key.fill(0);
+            throw new Error('Failed to save your new signing key. Check your connection and try again.');
+          }
+          console.warn('Failed to upgrade encrypted private key:', err);
+        }
+      }
+      if (!newSigningKey && data.signing_public_key !== signingPublicKey) {
+        // The key is already in the backup, so a failed publish is retried at the next unlock
+        const { error: signingKeyError } = await supabase
+          .from('users')
+          .update({ signing_public_key: signingPublicKey })
+          .eq('id', userId);
+        if (signingKeyError) {
+          console.warn('Failed to publish signing public key:', signingKeyError);
+        }
+      }
+
+      // Cache decrypted key locally for faster future access
+      const retiredKeys = payload.retiredKeys || [];
+      if (privateKey) {
+        try {
+          await writeLocalKeypair(userId, { privateKey, publicKey: publicKey || '', signingPrivateKey, retiredKeys });
+        } catch (err) {
+          console.warn('Failed to cache private key locally:', err);
+        }
+      }
+      
+      return {
+        keypair: {
+          privateKey,
+          publicKey: publicKey || '',
+          signingPrivateKey,
+          signingPublicKey,
+          retiredKeys,
+          recovery: payload.recovery,
+        },
+        kek,
+      };
+    }
+  } catch (error) {
+    console.error('Error loading encrypted private key from database:', error);
+    throw error;
+  }
+  return null;
 }
 
 /**
- * Encrypt message with ephemeral key (for forward secrecy)
+ * Open the account's key backup from the database, with the password (used
+ * once, to derive the KEK) or a KEK from an earlier unlock. The backup holds
+ * the account keys (identity, signing and retired keys), which every device of
+ * the account restores; each device's own keys stay on it (services/devices)
+ * and are certified by the account signing key. Returns null if the user has
+ * no backup yet.
  */
-export function encryptMessageWithEphemeral(
-  recipientPublicKeyB64: string,
-  plaintext: string
-): EncryptedMessage {
-  const ephemeralKeypair = generateEphemeralKeypair();
-  const symKey = deriveSharedKey(
-    ephemeralKeypair.privateKey,
-    recipientPublicKeyB64
-  );
-  const encrypted = encryptMessage(symKey, plaintext);
-  return {
-    ...encrypted,
-    ephemeralPublicKey: ephemeralKeypair.publicKey,
-  };
+export async function openKeyBackup(
+  userId: string,
+  secret: KeyBackupSecret,
+  supabase: SupabaseClient
+): Promise<UnlockedKeys | null> {
+  // Concurrent callers with the same secret share one load so first-unlock
+  // upgrades run exactly once; a different secret gets its own verdict
+  const loadKey = getDatabaseLoadKey(userId, secret);
+  let pending = pendingDatabaseLoads.get(loadKey);
+  if (!pending) {
+    pending = loadKeypairFromDatabase(userId, secret, supabase).finally(() => pendingDatabaseLoads.delete(loadKey));
+    pendingDatabaseLoads.set(loadKey, pending);
+  }
+  return pending;
 }
 
 /**
- * Decrypt message using ephemeral public key
+ * Dedupe key for openKeyBackup: the secret's type and a hash of the secret
  */
-export function decryptMessageWithEphemeral(
-  localPrivateKeyB64: string,
-  ephemeralPublicKeyB64: string,
-  ciphertextB64: string,
-  nonceB64: string
-): string {
-  const symKey = deriveSharedKey(localPrivateKeyB64, ephemeralPublicKeyB64);
-  return decryptMessage(symKey, ciphertextB64, nonceB64);
+function getDatabaseLoadKey(userId: string, secret: KeyBackupSecret): string {
+  if (typeof secret === 'string') {
+    return `${userId}:password:${bytesToHex(getCryptoProvider().sha256(naclUtil.decodeUTF8(secret)))}`;
+  }
+  const kdf = naclUtil.decodeUTF8(JSON.stringify(secret.kdf));
+  const material = new Uint8Array(kdf.length + secret.key.length);
+  material.set(kdf);
+  material.set(secret.key, kdf.length);
+  const digest = bytesToHex(getCryptoProvider().sha256(material));
+  material.fill(0);
+  return `${userId}:kek:${digest}`;
 }
 
 /**
- * Encrypt file data (for media attachments)
+ * Load the locally cached keypair for a specific user, for use while offline.
+ * Prefer the unlocked keyring (services/keyring); this cache is device-bound.
  */
-export function encryptFileData(
-  symKey: Uint8Array,
-  fileData: Uint8Array
-): { ciphertext: string; nonce: string } {
-  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
-  const cipher = nacl.secretbox(fileData, nonce, symKey);
+export async function getStoredKeypairForUser(userId: string): Promise<Keypair | null> {
+  const stored = await readLocalKeypair(userId);
+  if (!stored) return null;
+  const { privateKey, publicKey, signingPrivateKey, retiredKeys } = stored;
   return {
-    ciphertext: naclUtil.encodeBase64(cipher),
-    nonce: naclUtil.encodeBase64(nonce),
+    privateKey,
+    publicKey: publicKey || '',
+    ...(signingPrivateKey
+      ? { signingPrivateKey, signingPublicKey: getSigningPublicKey(signingPrivateKey) }
+      : {}),
+    retiredKeys: retiredKeys || [],
   };
 }
 
 /**
- * Decrypt file data
+ * @deprecated Use getStoredKeypairForUser(userId) instead
+ * Retrieve stored keypair (legacy - do not use)
  */
-export function decryptFileData(
-  symKey: Uint8Array,
-  ciphertextB64: string,
-  nonceB64: string
-): Uint8Array {
-  const cipher = naclUtil.decodeBase64(ciphertextB64);
-  const nonce = naclUtil.decodeBase64(nonceB64);
-  const decrypted = nacl.secretbox.open(cipher, nonce, symKey);
-  if (!decrypted) {
-    throw new Error('File decryption failed');
-  }
-  return decrypted;
+export async function getStoredKeypair(): Promise<Keypair | null> {
+  throw new Error('getStoredKeypair() is deprecated. Use getStoredKeypairForUser(userId) instead.');
 }
 
 /**
@@ -392,12 +444,19 @@ export function decryptFileData(
  */
 export async function removeKeypairForUser(userId: string): Promise<void> {
   if (Platform.OS === 'web') {
-    localStorage.removeItem(getPrivateKeyStorageKey(userId));
-    localStorage.removeItem(getPublicKeyStorageKey(userId));
+    // Wipe both the keystore and any plaintext copy left by older builds
+    removeLegacyWebKeypair(userId);
+    try {
+      await deleteWebKeystoreItem(userId);
+    } catch (err) {
+      console.warn('Failed to remove keypair for user:', err);
+    }
   } else {
     try {
       await SecureStore.deleteItemAsync(getPrivateKeyStorageKey(userId));
       await SecureStore.deleteItemAsync(getPublicKeyStorageKey(userId));
+      await SecureStore.deleteItemAsync(getSigningKeyStorageKey(userId));
+      await SecureStore.deleteItemAsync(getRetiredKeysStorageKey(userId));
     } catch (err) {
       console.warn('Failed to remove keypair for user:', err);
     }
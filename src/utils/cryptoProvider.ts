@@ -0,0 +1,60 @@
+import { tweetnaclProvider } from './cryptoProviders/tweetnacl';
+
+/**
+ * Pluggable crypto backend.
+ *
+ * Every primitive the app relies on (random bytes, X25519 box keys, XSalsa20-Poly1305
+ * secretbox, hashing and key derivation) goes through the active provider, so the
+ * implementation can be swapped per platform without touching the protocol code.
+ * All providers must produce byte-identical output; utils/cryptoProviders/knownAnswers
+ * holds the vectors that prove it. Ed25519 signatures still use tweetnacl directly.
+ */
+
+export const SECRETBOX_KEY_BYTES = 32;
+export const SECRETBOX_NONCE_BYTES = 24;
+export const SECRETBOX_OVERHEAD_BYTES = 16;
+
+export interface BoxKeyPair {
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface CryptoProvider {
+  readonly name: string;
+  randomBytes(length: number): Uint8Array;
+  // X25519
+  boxKeyPair(): BoxKeyPair;
+  boxKeyPairFromSecretKey(secretKey: Uint8Array): BoxKeyPair;
+  scalarMult(secretKey: Uint8Array, publicKey: Uint8Array): Uint8Array;
+  // Precomputed crypto_box key: HSalsa20 of the X25519 shared secret
+  boxBefore(publicKey: Uint8Array, secretKey: Uint8Array): Uint8Array;
+  // XSalsa20-Poly1305
+  secretbox(message: Uint8Array, nonce: Uint8Array, key: Uint8Array): Uint8Array;
+  secretboxOpen(box: Uint8Array, nonce: Uint8Array, key: Uint8Array): Uint8Array | null;
+  sha256(data: Uint8Array): Uint8Array;
+  sha512(data: Uint8Array): Uint8Array;
+  hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array;
+  hkdfSha256(ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Uint8Array;
+  // Password KDFs are async so slow backends do not block the UI thread
+  pbkdf2Sha256(password: Uint8Array, salt: Uint8Array, iterations: number, length: number): Promise<Uint8Array>;
+  scrypt(password: Uint8Array, salt: Uint8Array, params: ScryptParams, length: number): Promise<Uint8Array>;
+}
+
+let activeProvider: CryptoProvider = tweetnaclProvider;
+
+/**
+ * The provider used by the crypto utils (tweetnacl until initCrypto picks one)
+ */
+export function getCryptoProvider(): CryptoProvider {
+  return activeProvider;
+}
+
+export function setCryptoProvider(provider: CryptoProvider): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,211 @@
+import * as naclUtil from 'tweetnacl-util';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { CryptoProvider, getCryptoProvider, setCryptoProvider } from '../cryptoProvider';
+import { acceptSession, initiateSession, ratchetDecrypt, ratchetEncrypt } from '../ratchet';
+import { computeSafetyNumber } from '../safetyNumber';
+
+/**
+ * Known-answer vectors shared by every crypto provider.
+ *
+ * Published vectors (RFC 7748, NaCl, FIPS 180, RFC 4231, RFC 5869, RFC 7914)
+ * pin the primitives; the remaining expected values were produced once with the
+ * tweetnacl provider and pin the app's own constructions (secretbox output, the
+ * first ratchet message, safety numbers). Randomness is replaced by a seeded
+ * stream so ciphertexts are reproducible. Run with `npm run test:crypto`.
+ */
+
+export interface KnownAnswerResult {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+const hex = hexToBytes;
+const b64 = naclUtil.encodeBase64;
+
+// RFC 7748 section 6.1
+const ALICE_SECRET = '77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a';
+const ALICE_PUBLIC = '8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a';
+const BOB_SECRET = '5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb';
+const BOB_PUBLIC = 'de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f';
+const X25519_SHARED = '4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742';
+// NaCl tests/box.c: crypto_box_beforenm(bobpk, alicesk)
+const BOX_BEFORE = '1b27556473e985d462cd51197a9a46c76009549eac6474f206c4ee0844f68389';
+const BOX_NONCE = '69696ee955b62b73cd62bda875fc73d68219e0036b7a0b37';
+
+const SECRETBOX_MESSAGE = 'E2EChat known-answer vector: XSalsa20-Poly1305';
+const SECRETBOX_CIPHERTEXT =
+  '7c78fa181d1e1510531f788c063e4b7e75ac21191c88948666ec2cdbb73a1bdb696c8eff7a59381378664e6475dd04f749401ae19b4ccd0e3b19e9f68211';
+
+const RATCHET_SHARED_SECRET = '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f';
+const RATCHET_SESSION_ID = 'AAECAwQFBgcICQoLDA0ODw==';
+const RATCHET_PLAINTEXT = 'Hello from the known-answer vectors';
+const RATCHET_AD = 'conversation-1';
+const RATCHET_HEADER_DH = '5fyND2+6ESc3mx+z+q48C+VGB67F1h2dntUIy9KZwGU=';
+const RATCHET_NONCE = 'Rqcm2Sb8/+FZdOriWnQT/qWDy6Pj+07q';
+const RATCHET_CIPHERTEXT = 'F+cG3vlp1OuiriJI6BOOH6SeOkAS6U0OLV/LCbU+Ti1zgW9KOi8Z1KBGha1+RgtpGB7W';
+
+// Ed25519 public keys from RFC 8032 section 7.1 (tests 1 and 2)
+const SAFETY_LOCAL = {
+  userId: 'alice',
+  publicKey: b64(hex(ALICE_PUBLIC)),
+  signingPublicKey: b64(hex('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a')),
+};
+const SAFETY_REMOTE = {
+  userId: 'bob',
+  publicKey: b64(hex(BOB_PUBLIC)),
+  signingPublicKey: b64(hex('3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c')),
+};
+const SAFETY_DIGITS = '541429296717479459498905315641609243054912929978302273875127';
+const SAFETY_QR_PAYLOAD =
+  'e2echat-safety:1:HspFV5xUYxjsFa6xKDmhEcDp5EZHoY4asndd/pr3KyU=:yKY2lP7W6L5kRyn8tA1nQ70gtD2qiFARfdvtzCBZef8=';
+
+/**
+ * Wrap a provider so its randomness (including fresh box keypairs) comes from a
+ * SHA-256 counter stream; everything else is the provider's own implementation
+ */
+export function withSeededRandom(provider: CryptoProvider, seed: string): CryptoProvider {
+  const seedBytes = utf8ToBytes(seed);
+  let counter = 0;
+  const randomBytes = (length: number) => {
+    const out = new Uint8Array(length);
+    for (let offset = 0; offset < length; offset += 32) {
+      const counterBytes = Uint8Array.of(counter >>> 24, counter >>> 16, counter >>> 8, counter);
+      const block = provider.sha256(concatBytes(seedBytes, counterBytes));
+      counter++;
+      out.set(block.subarray(0, Math.min(32, length - offset)), offset);
+    }
+    return out;
+  };
+  return {
+    ...provider,
+    name: `${provider.name} (seeded)`,
+    randomBytes,
+    boxKeyPair: () => provider.boxKeyPairFromSecretKey(randomBytes(32)),
+  };
+}
+
+type Check = [name: string, run: (provider: CryptoProvider) => Promise<string> | string, expected: string];
+
+const CHECKS: Check[] = [
+  [
+    'X25519 public key, alice (RFC 7748)',
+    (p) => bytesToHex(p.boxKeyPairFromSecretKey(hex(ALICE_SECRET)).publicKey),
+    ALICE_PUBLIC,
+  ],
+  [
+    'X25519 public key, bob (RFC 7748)',
+    (p) => bytesToHex(p.boxKeyPairFromSecretKey(hex(BOB_SECRET)).publicKey),
+    BOB_PUBLIC,
+  ],
+  [
+    'X25519 shared secret (RFC 7748)',
+    (p) => bytesToHex(p.scalarMult(hex(ALICE_SECRET), hex(BOB_PUBLIC))),
+    X25519_SHARED,
+  ],
+  ['box.before (NaCl)', (p) => bytesToHex(p.boxBefore(hex(BOB_PUBLIC), hex(ALICE_SECRET))), BOX_BEFORE],
+  [
+    'secretbox',
+    (p) => bytesToHex(p.secretbox(utf8ToBytes(SECRETBOX_MESSAGE), hex(BOX_NONCE), hex(BOX_BEFORE))),
+    SECRETBOX_CIPHERTEXT,
+  ],
+  [
+    'secretbox.open',
+    (p) => naclUtil.encodeUTF8(p.secretboxOpen(hex(SECRETBOX_CIPHERTEXT), hex(BOX_NONCE), hex(BOX_BEFORE))!),
+    SECRETBOX_MESSAGE,
+  ],
+  [
+    'secretbox.open rejects tampering',
+    (p) => {
+      const tampered = hex(SECRETBOX_CIPHERTEXT);
+      tampered[tampered.length - 1] ^= 1;
+      return String(p.secretboxOpen(tampered, hex(BOX_NONCE), hex(BOX_BEFORE)));
+    },
+    'null',
+  ],
+  [
+    'SHA-256 "abc" (FIPS 180)',
+    (p) => bytesToHex(p.sha256(utf8ToBytes('abc'))),
+    'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+  ],
+  [
+    'SHA-512 "abc" (FIPS 180)',
+    (p) => bytesToHex(p.sha512(utf8ToBytes('abc'))),
+    'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+  ],
+  [
+    'HMAC-SHA-256 (RFC 4231 case 2)',
+    (p) => bytesToHex(p.hmacSha256(utf8ToBytes('Jefe'), utf8ToBytes('what do ya want for nothing?'))),
+    '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+  ],
+  [
+    'HKDF-SHA-256 (RFC 5869 case 1)',
+    (p) =>
+      bytesToHex(
+        p.hkdfSha256(
+          hex('0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b'),
+          hex('000102030405060708090a0b0c'),
+          hex('f0f1f2f3f4f5f6f7f8f9'),
+          42
+        )
+      ),
+    '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865',
+  ],
+  [
+    'PBKDF2-HMAC-SHA-256 (c = 4096)',
+    async (p) => bytesToHex(await p.pbkdf2Sha256(utf8ToBytes('password'), utf8ToBytes('salt'), 4096, 32)),
+    'c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a',
+  ],
+  [
+    'scrypt (RFC 7914)',
+    async (p) => bytesToHex(await p.scrypt(utf8ToBytes('password'), utf8ToBytes('NaCl'), { N: 1024, r: 8, p: 16 }, 64)),
+    'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b3731622eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640',
+  ],
+  [
+    'ratchet first message',
+    () => {
+      const bob = { publicKey: b64(hex(BOB_PUBLIC)), privateKey: b64(hex(BOB_SECRET)) };
+      const sender = initiateSession(hex(RATCHET_SHARED_SECRET), bob.publicKey, RATCHET_SESSION_ID, {
+        ik: b64(hex(ALICE_PUBLIC)),
+      });
+      const sent = ratchetEncrypt(sender, utf8ToBytes(RATCHET_PLAINTEXT), utf8ToBytes(RATCHET_AD));
+      const receiver = acceptSession(hex(RATCHET_SHARED_SECRET), bob, RATCHET_SESSION_ID);
+      const received = ratchetDecrypt(receiver, sent.header, sent.ciphertext, sent.nonce, utf8ToBytes(RATCHET_AD));
+      return [sent.header.dh, sent.nonce, sent.ciphertext, naclUtil.encodeUTF8(received.plaintext)].join(' ');
+    },
+    [RATCHET_HEADER_DH, RATCHET_NONCE, RATCHET_CIPHERTEXT, RATCHET_PLAINTEXT].join(' '),
+  ],
+  [
+    'safety number',
+    () => {
+      const safetyNumber = computeSafetyNumber(SAFETY_LOCAL, SAFETY_REMOTE);
+      return `${safetyNumber.digits} ${safetyNumber.qrPayload}`;
+    },
+    `${SAFETY_DIGITS} ${SAFETY_QR_PAYLOAD}`,
+  ],
+];
+
+/**
+ * Run every vector against a provider. The utils are exercised with the provider
+ * active (and seeded randomness); the previously active provider is restored.
+ */
+export async function runKnownAnswerTests(provider: CryptoProvider): Promise<KnownAnswerResult[]> {
+  const previous = getCryptoProvider();
+  const results: KnownAnswerResult[] = [];
+  try {
+    for (const [name, run, expected] of CHECKS) {
+      setCryptoProvider(withSeededRandom(provider, name));
+      try {
+        const actual = await run(getCryptoProvider());
+        results.push(
+          actual === expected ? { name, passed: true } : { name, passed: false, detail: `got ${actual}` }
+        );
+      } catch (error) {
+        results.push({ name, passed: false, detail: `threw ${(error as Error).message}` });
+      }
+    }
+  } finally {
+    setCryptoProvider(previous);
+  }
+  return results;
+}
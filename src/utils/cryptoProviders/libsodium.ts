@@ -0,0 +1,36 @@
+import sodium from 'libsodium-wrappers';
+import type { CryptoProvider } from '../cryptoProvider';
+import { tweetnaclProvider } from './tweetnacl';
+
+/**
+ * libsodium provider for the NaCl primitives and SHA-512. The standard
+ * libsodium-wrappers build has no SHA-256, HMAC with arbitrary keys, HKDF,
+ * PBKDF2 or scrypt, so those come from @noble/hashes like the tweetnacl provider.
+ */
+export async function createLibsodiumProvider(): Promise<CryptoProvider> {
+  await sodium.ready;
+  return {
+    ...tweetnaclProvider,
+    name: 'libsodium',
+    randomBytes: (length) => sodium.randombytes_buf(length),
+    boxKeyPair: () => {
+      const { publicKey, privateKey } = sodium.crypto_box_keypair();
+      return { publicKey, secretKey: privateKey };
+    },
+    boxKeyPairFromSecretKey: (secretKey) => ({
+      publicKey: sodium.crypto_scalarmult_base(secretKey),
+      secretKey: new Uint8Array(secretKey),
+    }),
+    scalarMult: (secretKey, publicKey) => sodium.crypto_scalarmult(secretKey, publicKey),
+    boxBefore: (publicKey, secretKey) => sodium.crypto_box_beforenm(publicKey, secretKey),
+    secretbox: (message, nonce, key) => sodium.crypto_secretbox_easy(message, nonce, key),
+    secretboxOpen: (box, nonce, key) => {
+      try {
+        return sodium.crypto_secretbox_open_easy(box, nonce, key);
+      } catch {
+        return null;
+      }
+    },
+    sha512: (data) => sodium.crypto_hash(data),
+  };
+}
@@ -0,0 +1,31 @@
+import * as nacl from 'tweetnacl';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha256';
+import { sha512 } from '@noble/hashes/sha512';
+import type { CryptoProvider } from '../cryptoProvider';
+
+/**
+ * Pure JavaScript provider: tweetnacl for the NaCl primitives, @noble/hashes for
+ * hashing and key derivation. Runs everywhere; on React Native tweetnacl needs a
+ * PRNG installed with nacl.setPRNG (see initCrypto).
+ */
+export const tweetnaclProvider: CryptoProvider = {
+  name: 'tweetnacl',
+  randomBytes: (length) => nacl.randomBytes(length),
+  boxKeyPair: () => nacl.box.keyPair(),
+  boxKeyPairFromSecretKey: (secretKey) => nacl.box.keyPair.fromSecretKey(secretKey),
+  scalarMult: (secretKey, publicKey) => nacl.scalarMult(secretKey, publicKey),
+  boxBefore: (publicKey, secretKey) => nacl.box.before(publicKey, secretKey),
+  secretbox: (message, nonce, key) => nacl.secretbox(message, nonce, key),
+  secretboxOpen: (box, nonce, key) => nacl.secretbox.open(box, nonce, key),
+  sha256: (data) => sha256(data),
+  sha512: (data) => sha512(data),
+  hmacSha256: (key, data) => hmac(sha256, key, data),
+  hkdfSha256: (ikm, salt, info, length) => hkdf(sha256, ikm, salt, info, length),
+  pbkdf2Sha256: (password, salt, iterations, length) =>
+    pbkdf2Async(sha256, password, salt, { c: iterations, dkLen: length }),
+  scrypt: (password, salt, { N, r, p }, length) => scryptAsync(password, salt, { N, r, p, dkLen: length }),
+};
@@ -0,0 +1,38 @@
+import type { CryptoProvider } from '../cryptoProvider';
+import { tweetnaclProvider } from './tweetnacl';
+
+// getRandomValues fills at most 64 KiB per call
+const MAX_RANDOM_CHUNK = 65536;
+
+/**
+ * WebCrypto provider for browsers: the platform CSPRNG and native PBKDF2.
+ * WebCrypto has no XSalsa20-Poly1305 and its digests are async only, so the
+ * box, secretbox, hash and HKDF primitives stay on the tweetnacl provider.
+ */
+export function createWebCryptoProvider(webCrypto: Crypto): CryptoProvider {
+  if (!webCrypto?.subtle || typeof webCrypto.getRandomValues !== 'function') {
+    throw new Error('WebCrypto is not available');
+  }
+  return {
+    ...tweetnaclProvider,
+    name: 'webcrypto',
+    randomBytes: (length) => {
+      const bytes = new Uint8Array(length);
+      for (let offset = 0; offset < length; offset += MAX_RANDOM_CHUNK) {
+        webCrypto.getRandomValues(bytes.subarray(offset, Math.min(length, offset + MAX_RANDOM_CHUNK)));
+      }
+      return bytes;
+    },
+    pbkdf2Sha256: async (password, salt, iterations, length) => {
+      const baseKey = await webCrypto.subtle.importKey('raw', new Uint8Array(password), 'PBKDF2', false, [
+        'deriveBits',
+      ]);
+      const bits = await webCrypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: new Uint8Array(salt), iterations },
+        baseKey,
+        length * 8
+      );
+      return new Uint8Array(bits);
+    },
+  };
+}
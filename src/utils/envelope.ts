@@ -0,0 +1,273 @@
+import * as naclUtil from 'tweetnacl-util';
+import { CipherEnvelope, RatchetHeader, RatchetInit } from '../types';
+import { SECRETBOX_NONCE_BYTES, SECRETBOX_OVERHEAD_BYTES } from './cryptoProvider';
+
+/**
+ * Versioned binary envelope for message ciphertexts, stored base64-encoded.
+ *
+ * Layout (v1):
+ *   [version u8][algorithm u8][header length u16 BE][header][nonce 24][ciphertext]
+ * The header is a sequence of TLV fields: [type u8][length u16 BE][value].
+ *
+ * Parsing is strict: unknown versions, algorithms or fields, duplicate or
+ * missing fields, wrong key or nonce sizes and truncated input are all rejected.
+ * Rows written before the envelope existed ("ciphertext:nonce" strings with the
+ * key material in separate columns) are adapted by parseStoredCiphertext.
+ */
+
+export const ENVELOPE_VERSION = 1;
+
+const ALG_RATCHET = 1;
+const ALG_EPHEMERAL = 2;
+
+const FIELD_SESSION_ID = 1;
+const FIELD_RATCHET_KEY = 2;
+const FIELD_PREVIOUS_COUNT = 3;
+const FIELD_MESSAGE_NUMBER = 4;
+const FIELD_INIT_IDENTITY_KEY = 5;
+const FIELD_INIT_EPHEMERAL_KEY = 6;
+const FIELD_INIT_SIGNED_PREKEY_ID = 7;
+const FIELD_INIT_ONE_TIME_PREKEY_ID = 8;
+const FIELD_EPHEMERAL_KEY = 9;
+
+const PREAMBLE_LENGTH = 4;
+const KEY_LENGTH = 32;
+const MAX_SESSION_ID_LENGTH = 64;
+
+const ALLOWED_FIELDS: Record<number, number[]> = {
+  [ALG_RATCHET]: [
+    FIELD_SESSION_ID,
+    FIELD_RATCHET_KEY,
+    FIELD_PREVIOUS_COUNT,
+    FIELD_MESSAGE_NUMBER,
+    FIELD_INIT_IDENTITY_KEY,
+    FIELD_INIT_EPHEMERAL_KEY,
+    FIELD_INIT_SIGNED_PREKEY_ID,
+    FIELD_INIT_ONE_TIME_PREKEY_ID,
+  ],
+  [ALG_EPHEMERAL]: [FIELD_EPHEMERAL_KEY],
+};
+
+function envelopeError(reason: string): Error {
+  return new Error(`Invalid message envelope: ${reason}`);
+}
+
+function decodeBase64Strict(value: string, what: string): Uint8Array {
+  try {
+    return naclUtil.decodeBase64(value);
+  } catch {
+    throw envelopeError(`${what} is not valid base64`);
+  }
+}
+
+function u32(value: number): Uint8Array {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    throw envelopeError(`counter out of range: ${value}`);
+  }
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value);
+  return out;
+}
+
+function readU32(value: Uint8Array, what: string): number {
+  if (value.length !== 4) throw envelopeError(`${what} must be 4 bytes`);
+  return new DataView(value.buffer, value.byteOffset, 4).getUint32(0);
+}
+
+function readKey(value: Uint8Array, what: string): string {
+  if (value.length !== KEY_LENGTH) throw envelopeError(`${what} must be ${KEY_LENGTH} bytes`);
+  return naclUtil.encodeBase64(value);
+}
+
+function keyBytes(value: string, what: string): Uint8Array {
+  const bytes = decodeBase64Strict(value, what);
+  if (bytes.length !== KEY_LENGTH) throw envelopeError(`${what} must be ${KEY_LENGTH} bytes`);
+  return bytes;
+}
+
+function encodeFields(fields: [number, Uint8Array][]): Uint8Array {
+  const total = fields.reduce((sum, [, value]) => sum + 3 + value.length, 0);
+  if (total > 0xffff) throw envelopeError('header too large');
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const [type, value] of fields) {
+    if (value.length > 0xffff) throw envelopeError('header field too large');
+    out[offset] = type;
+    view.setUint16(offset + 1, value.length);
+    out.set(value, offset + 3);
+    offset += 3 + value.length;
+  }
+  return out;
+}
+
+function decodeFields(header: Uint8Array, algorithm: number): Map<number, Uint8Array> {
+  const fields = new Map<number, Uint8Array>();
+  const view = new DataView(header.buffer, header.byteOffset, header.length);
+  let offset = 0;
+  while (offset < header.length) {
+    if (offset + 3 > header.length) throw envelopeError('truncated header field');
+    const type = header[offset];
+    const length = view.getUint16(offset + 1);
+    const start = offset + 3;
+    if (start + length > header.length) throw envelopeError('header field overruns header');
+    if (!ALLOWED_FIELDS[algorithm].includes(type)) throw envelopeError(`unknown header field ${type}`);
+    if (fields.has(type)) throw envelopeError(`duplicate header field ${type}`);
+    fields.set(type, header.subarray(start, start + length));
+    offset = start + length;
+  }
+  return fields;
+}
+
+function requireField(fields: Map<number, Uint8Array>, type: number, what: string): Uint8Array {
+  const value = fields.get(type);
+  if (!value) throw envelopeError(`missing ${what}`);
+  return value;
+}
+
+function encodeRatchetHeader(header: RatchetHeader): [number, Uint8Array][] {
+  const sessionId = decodeBase64Strict(header.sid, 'session id');
+  if (sessionId.length === 0 || sessionId.length > MAX_SESSION_ID_LENGTH) {
+    throw envelopeError('session id has an invalid length');
+  }
+  const fields: [number, Uint8Array][] = [
+    [FIELD_SESSION_ID, sessionId],
+    [FIELD_RATCHET_KEY, keyBytes(header.dh, 'ratchet key')],
+    [FIELD_PREVIOUS_COUNT, u32(header.pn)],
+    [FIELD_MESSAGE_NUMBER, u32(header.n)],
+  ];
+  if (header.init) {
+    fields.push([FIELD_INIT_IDENTITY_KEY, keyBytes(header.init.ik, 'identity key')]);
+    if (header.init.ek !== undefined) {
+      fields.push([FIELD_INIT_EPHEMERAL_KEY, keyBytes(header.init.ek, 'ephemeral key')]);
+    }
+    if (header.init.spk !== undefined) {
+      fields.push([FIELD_INIT_SIGNED_PREKEY_ID, u32(header.init.spk)]);
+    }
+    if (header.init.opk !== undefined) {
+      fields.push([FIELD_INIT_ONE_TIME_PREKEY_ID, u32(header.init.opk)]);
+    }
+  }
+  return fields;
+}
+
+function decodeRatchetHeader(fields: Map<number, Uint8Array>): RatchetHeader {
+  const sessionId = requireField(fields, FIELD_SESSION_ID, 'session id');
+  if (sessionId.length === 0 || sessionId.length > MAX_SESSION_ID_LENGTH) {
+    throw envelopeError('session id has an invalid length');
+  }
+  const header: RatchetHeader = {
+    sid: naclUtil.encodeBase64(sessionId),
+    dh: readKey(requireField(fields, FIELD_RATCHET_KEY, 'ratchet key'), 'ratchet key'),
+    pn: readU32(requireField(fields, FIELD_PREVIOUS_COUNT, 'previous chain length'), 'previous chain length'),
+    n: readU32(requireField(fields, FIELD_MESSAGE_NUMBER, 'message number'), 'message number'),
+  };
+
+  const ik = fields.get(FIELD_INIT_IDENTITY_KEY);
+  const ek = fields.get(FIELD_INIT_EPHEMERAL_KEY);
+  const spk = fields.get(FIELD_INIT_SIGNED_PREKEY_ID);
+  const opk = fields.get(FIELD_INIT_ONE_TIME_PREKEY_ID);
+  if (!ik) {
+    if (ek || spk || opk) throw envelopeError('session init fields without an identity key');
+    return header;
+  }
+  const init: RatchetInit = { ik: readKey(ik, 'identity key') };
+  if (ek || spk) {
+    // X3DH init: ephemeral key and signed prekey id come together
+    if (!ek || !spk) throw envelopeError('incomplete X3DH init');
+    init.ek = readKey(ek, 'ephemeral key');
+    init.spk = readU32(spk, 'signed prekey id');
+    if (opk) init.opk = readU32(opk, 'one-time prekey id');
+  } else if (opk) {
+    throw envelopeError('one-time prekey id without X3DH init');
+  }
+  header.init = init;
+  return header;
+}
+
+/**
+ * Serialize an envelope to its base64 storage form
+ */
+export function encodeEnvelope(envelope: CipherEnvelope): string {
+  let algorithm: number;
+  let fields: [number, Uint8Array][];
+  if (envelope.alg === 'ratchet') {
+    algorithm = ALG_RATCHET;
+    fields = encodeRatchetHeader(envelope.header);
+  } else {
+    algorithm = ALG_EPHEMERAL;
+    fields = [[FIELD_EPHEMERAL_KEY, keyBytes(envelope.ephemeralPublicKey, 'ephemeral key')]];
+  }
+  const header = encodeFields(fields);
+  const nonce = decodeBase64Strict(envelope.nonce, 'nonce');
+  if (nonce.length !== SECRETBOX_NONCE_BYTES) throw envelopeError('nonce has an invalid length');
+  const ciphertext = decodeBase64Strict(envelope.ciphertext, 'ciphertext');
+  if (ciphertext.length < SECRETBOX_OVERHEAD_BYTES) throw envelopeError('ciphertext too short');
+
+  const out = new Uint8Array(PREAMBLE_LENGTH + header.length + nonce.length + ciphertext.length);
+  const view = new DataView(out.buffer);
+  out[0] = ENVELOPE_VERSION;
+  out[1] = algorithm;
+  view.setUint16(2, header.length);
+  out.set(header, PREAMBLE_LENGTH);
+  out.set(nonce, PREAMBLE_LENGTH + header.length);
+  out.set(ciphertext, PREAMBLE_LENGTH + header.length + nonce.length);
+  return naclUtil.encodeBase64(out);
+}
+
+/**
+ * Parse a base64 envelope, throwing on any malformed input
+ */
+export function decodeEnvelope(encoded: string): CipherEnvelope {
+  const bytes = decodeBase64Strict(encoded, 'envelope');
+  if (bytes.length < PREAMBLE_LENGTH) throw envelopeError('truncated preamble');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const version = bytes[0];
+  if (version !== ENVELOPE_VERSION) throw envelopeError(`unsupported version ${version}`);
+  const algorithm = bytes[1];
+  if (!ALLOWED_FIELDS[algorithm]) throw envelopeError(`unsupported algorithm ${algorithm}`);
+
+  const headerEnd = PREAMBLE_LENGTH + view.getUint16(2);
+  const nonceEnd = headerEnd + SECRETBOX_NONCE_BYTES;
+  if (nonceEnd + SECRETBOX_OVERHEAD_BYTES > bytes.length) throw envelopeError('truncated body');
+
+  const fields = decodeFields(bytes.subarray(PREAMBLE_LENGTH, headerEnd), algorithm);
+  const nonce = naclUtil.encodeBase64(bytes.subarray(headerEnd, nonceEnd));
+  const ciphertext = naclUtil.encodeBase64(bytes.subarray(nonceEnd));
+  if (algorithm === ALG_RATCHET) {
+    return { alg: 'ratchet', header: decodeRatchetHeader(fields), nonce, ciphertext };
+  }
+  const ephemeralPublicKey = readKey(requireField(fields, FIELD_EPHEMERAL_KEY, 'ephemeral key'), 'ephemeral key');
+  return { alg: 'ephemeral', ephemeralPublicKey, nonce, ciphertext };
+}
+
+/**
+ * Read a stored ciphertext column: a v1 envelope, or a legacy "ciphertext:nonce"
+ * string whose key material lives in the ephemeral key column / metadata.ratchet
+ */
+export function parseStoredCiphertext(
+  stored: string,
+  legacy: { ephemeralPublicKey?: string | null; ratchet?: RatchetHeader }
+): CipherEnvelope {
+  // Base64 never contains ':', so the two formats cannot be confused
+  if (!stored.includes(':')) {
+    return decodeEnvelope(stored);
+  }
+
+  const parts = stored.split(':');
+  if (parts.length !== 2) throw envelopeError('legacy ciphertext must have exactly two parts');
+  const [ciphertext, nonce] = parts;
+  if (decodeBase64Strict(nonce, 'nonce').length !== SECRETBOX_NONCE_BYTES) {
+    throw envelopeError('nonce has an invalid length');
+  }
+  if (decodeBase64Strict(ciphertext, 'ciphertext').length < SECRETBOX_OVERHEAD_BYTES) {
+    throw envelopeError('ciphertext too short');
+  }
+  if (legacy.ratchet) {
+    return { alg: 'ratchet', header: legacy.ratchet, nonce, ciphertext };
+  }
+  if (legacy.ephemeralPublicKey) {
+    return { alg: 'ephemeral', ephemeralPublicKey: legacy.ephemeralPublicKey, nonce, ciphertext };
+  }
+  throw envelopeError('legacy ciphertext without key material');
+}
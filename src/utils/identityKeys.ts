@@ -0,0 +1,84 @@
+import * as nacl from 'tweetnacl';
+import * as naclUtil from 'tweetnacl-util';
+import { bytesToHex } from '@noble/hashes/utils';
+import { Keypair, RetiredKey } from '../types';
+import { getCryptoProvider } from './cryptoProvider';
+
+/**
+ * Identity keys: generation, rotation and trying retired keys on old messages.
+ * No platform dependencies; key storage is in utils/crypto.
+ */
+
+/**
+ * Generate an identity keypair using X25519 (Curve25519),
+ * plus the Ed25519 signing keypair that vouches for it
+ */
+export function generateIdentityKeypair(): Keypair {
+  const kp = getCryptoProvider().boxKeyPair();
+  const signing = nacl.sign.keyPair();
+  return {
+    publicKey: naclUtil.encodeBase64(kp.publicKey),
+    privateKey: naclUtil.encodeBase64(kp.secretKey),
+    signingPublicKey: naclUtil.encodeBase64(signing.publicKey),
+    signingPrivateKey: naclUtil.encodeBase64(signing.secretKey),
+  };
+}
+
+/**
+ * Get the Ed25519 public key for a base64 signing secret key
+ */
+export function getSigningPublicKey(signingPrivateKeyB64: string): string {
+  const secretKey = naclUtil.decodeBase64(signingPrivateKeyB64);
+  return naclUtil.encodeBase64(nacl.sign.keyPair.fromSecretKey(secretKey).publicKey);
+}
+
+/**
+ * Get the X25519 public key for a base64 identity private key
+ */
+export function getIdentityPublicKey(privateKeyB64: string): string {
+  return naclUtil.encodeBase64(getCryptoProvider().boxKeyPairFromSecretKey(naclUtil.decodeBase64(privateKeyB64)).publicKey);
+}
+
+/**
+ * Short identifier for an identity public key (hex of its SHA-256, truncated)
+ */
+export function getKeyId(publicKeyB64: string): string {
+  return bytesToHex(getCryptoProvider().sha256(naclUtil.decodeBase64(publicKeyB64))).slice(0, 16);
+}
+
+/**
+ * Retire the current identity key and generate a new one. The signing key is
+ * kept so contacts can verify the rotation notice against the key they know.
+ */
+export function rotateIdentityKeypair(current: Keypair): Keypair {
+  const kp = getCryptoProvider().boxKeyPair();
+  const retired: RetiredKey = {
+    keyId: getKeyId(current.publicKey),
+    publicKey: current.publicKey,
+    privateKey: current.privateKey,
+    retiredAt: new Date().toISOString(),
+  };
+  return {
+    ...current,
+    publicKey: naclUtil.encodeBase64(kp.publicKey),
+    privateKey: naclUtil.encodeBase64(kp.secretKey),
+    retiredKeys: [...(current.retiredKeys || []), retired],
+  };
+}
+
+/**
+ * Run a decryption with the current identity private key, then with each
+ * retired key (newest first), returning the first that succeeds
+ */
+export function withIdentityKeys<T>(keypair: Keypair, decrypt: (privateKeyB64: string) => T): T {
+  const candidates = [keypair.privateKey, ...(keypair.retiredKeys || []).map((k) => k.privateKey).reverse()];
+  let lastError: unknown;
+  for (const privateKey of candidates) {
+    try {
+      return decrypt(privateKey);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
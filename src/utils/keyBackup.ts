@@ -0,0 +1,343 @@
+import * as naclUtil from 'tweetnacl-util';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  BackupKek,
+  KdfParams,
+  KeyBackupEnvelope,
+  KeyBackupPayload,
+  RecoveryBackupEnvelope,
+  RecoveryKey,
+  RetiredKey,
+} from '../types';
+import { getCryptoProvider, SECRETBOX_NONCE_BYTES } from './cryptoProvider';
+import { deriveRecoveryKey } from './recoveryPhrase';
+
+export const KEY_BACKUP_VERSION = 1;
+
+// scrypt with 32 MiB of memory per derivation (RFC 7914 interactive profile)
+export const DEFAULT_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+// OWASP 2023 recommendation for PBKDF2-HMAC-SHA256
+export const DEFAULT_PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+/**
+ * The password, or a KEK already derived from it. Passwords are only used to
+ * derive a KEK and are never kept.
+ */
+export type KeyBackupSecret = string | BackupKek;
+
+/**
+ * Derive a symmetric key from a password using the KDF described by params.
+ * The encoded password is wiped once the KDF has run.
+ */
+export async function deriveKeyFromPassword(password: string, params: KdfParams): Promise<Uint8Array> {
+  const provider = getCryptoProvider();
+  const salt = naclUtil.decodeBase64(params.salt);
+  const passwordBytes = utf8ToBytes(password);
+  try {
+    switch (params.alg) {
+      case 'scrypt':
+        return await provider.scrypt(passwordBytes, salt, { N: params.N, r: params.r, p: params.p }, KEY_BYTES);
+      case 'pbkdf2-sha256':
+        return await provider.pbkdf2Sha256(passwordBytes, salt, params.iterations, KEY_BYTES);
+      default: {
+        const unknown: never = params;
+        throw new Error(`Unsupported key backup KDF: ${(unknown as { alg: string }).alg}`);
+      }
+    }
+  } finally {
+    passwordBytes.fill(0);
+  }
+}
+
+// Unversioned backup blob from before envelopes, under deriveLegacyKeyFromPassword
+interface LegacyKeyBackup {
+  encryptedKey: string;
+  salt: string;
+  nonce: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+function isKdfParams(value: unknown): value is KdfParams {
+  if (!isRecord(value) || typeof value.salt !== 'string') return false;
+  if (value.alg === 'scrypt') {
+    return typeof value.N === 'number' && typeof value.r === 'number' && typeof value.p === 'number';
+  }
+  return value.alg === 'pbkdf2-sha256' && typeof value.iterations === 'number';
+}
+
+function isKeyBackupEnvelope(value: unknown): value is KeyBackupEnvelope {
+  return (
+    isRecord(value) &&
+    typeof value.version === 'number' &&
+    isKdfParams(value.kdf) &&
+    typeof value.nonce === 'string' &&
+    typeof value.ciphertext === 'string'
+  );
+}
+
+function isLegacyKeyBackup(value: unknown): value is LegacyKeyBackup {
+  return (
+    isRecord(value) &&
+    typeof value.encryptedKey === 'string' &&
+    !!value.encryptedKey &&
+    typeof value.salt === 'string' &&
+    !!value.salt &&
+    typeof value.nonce === 'string' &&
+    !!value.nonce
+  );
+}
+
+function isRecoveryBackupEnvelope(value: unknown): value is RecoveryBackupEnvelope {
+  return (
+    isRecord(value) &&
+    typeof value.version === 'number' &&
+    typeof value.salt === 'string' &&
+    typeof value.nonce === 'string' &&
+    typeof value.ciphertext === 'string'
+  );
+}
+
+function isRetiredKey(value: unknown): value is RetiredKey {
+  return (
+    isRecord(value) &&
+    typeof value.keyId === 'string' &&
+    typeof value.publicKey === 'string' &&
+    typeof value.privateKey === 'string' &&
+    typeof value.retiredAt === 'string'
+  );
+}
+
+function isKeyBackupPayload(value: unknown): value is KeyBackupPayload {
+  return (
+    isRecord(value) &&
+    typeof value.privateKey === 'string' &&
+    !!value.privateKey &&
+    (value.signingPrivateKey === undefined || typeof value.signingPrivateKey === 'string') &&
+    (value.retiredKeys === undefined || (Array.isArray(value.retiredKeys) && value.retiredKeys.every(isRetiredKey))) &&
+    (value.recovery === undefined ||
+      (isRecord(value.recovery) && typeof value.recovery.salt === 'string' && typeof value.recovery.key === 'string'))
+  );
+}
+
+/**
+ * Key derivation used by unversioned backups: 1,000 chained SHA-256 hex digests.
+ * Only kept so old blobs can be opened once and re-encrypted.
+ */
+function deriveLegacyKeyFromPassword(password: string, salt: string): Uint8Array {
+  const hexDigest = (input: string) => bytesToHex(getCryptoProvider().sha256(utf8ToBytes(input)));
+  let key = hexDigest(password + salt);
+  for (let i = 0; i < 1000; i++) {
+    key = hexDigest(key + salt);
+  }
+  const keyBytes = new Uint8Array(KEY_BYTES);
+  for (let i = 0; i < KEY_BYTES; i++) {
+    keyBytes[i] = parseInt(key.substr(i * 2, 2), 16);
+  }
+  return keyBytes;
+}
+
+/**
+ * Derive a KEK under a fresh salt with the preferred KDF, falling back to
+ * PBKDF2 when scrypt cannot run (e.g. the device refuses the memory allocation)
+ */
+export async function createBackupKek(password: string): Promise<BackupKek> {
+  const salt = naclUtil.encodeBase64(getCryptoProvider().randomBytes(SALT_BYTES));
+  const scryptParams: KdfParams = { alg: 'scrypt', ...DEFAULT_SCRYPT_PARAMS, salt };
+  try {
+    return { key: await deriveKeyFromPassword(password, scryptParams), kdf: scryptParams };
+  } catch (error) {
+    console.warn('scrypt unavailable, falling back to PBKDF2:', error);
+    const pbkdf2Params: KdfParams = { alg: 'pbkdf2-sha256', iterations: DEFAULT_PBKDF2_ITERATIONS, salt };
+    return { key: await deriveKeyFromPassword(password, pbkdf2Params), kdf: pbkdf2Params };
+  }
+}
+
+/**
+ * Encrypt a key backup payload with the user's password or KEK.
+ * Returns the serialized envelope stored in users.encrypted_private_key.
+ */
+export async function encryptKeyBackup(payload: KeyBackupPayload, secret: KeyBackupSecret): Promise<string> {
+  const { key, kdf } = typeof secret === 'string' ? await createBackupKek(secret) : secret;
+  const nonce = getCryptoProvider().randomBytes(SECRETBOX_NONCE_BYTES);
+  const encrypted = getCryptoProvider().secretbox(naclUtil.decodeUTF8(JSON.stringify(payload)), nonce, key);
+  // A caller's KEK stays usable; one derived here is not needed again
+  if (typeof secret === 'string') key.fill(0);
+
+  const envelope: KeyBackupEnvelope = {
+    version: KEY_BACKUP_VERSION,
+    kdf,
+    nonce: naclUtil.encodeBase64(nonce),
+    ciphertext: naclUtil.encodeBase64(encrypted),
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Whether a backup was written with a KDF weaker than the current defaults
+ */
+function isOutdatedKdf(kdf: KdfParams): boolean {
+  if (kdf.alg === 'scrypt') {
+    return kdf.N < DEFAULT_SCRYPT_PARAMS.N || kdf.r < DEFAULT_SCRYPT_PARAMS.r;
+  }
+  return kdf.iterations < DEFAULT_PBKDF2_ITERATIONS;
+}
+
+function sameKdf(a: KdfParams, b: KdfParams): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Parse the decrypted contents of a key backup or its recovery copy
+ */
+function parseKeyBackupPayload(plaintext: string): KeyBackupPayload {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(plaintext);
+  } catch {
+    throw new Error('Key backup is corrupted');
+  }
+  if (!isKeyBackupPayload(payload)) {
+    throw new Error('Key backup is corrupted');
+  }
+  return payload;
+}
+
+/**
+ * Decrypt a serialized key backup with the user's password or KEK.
+ * Accepts both versioned envelopes and the legacy {encryptedKey, salt, nonce} blob;
+ * needsUpgrade is set when the caller should re-encrypt with encryptKeyBackup.
+ *
+ * Also returns the KEK for later access to the backup. When opened with a
+ * password that needs an upgrade, the KEK is a fresh one with current KDF
+ * defaults, for the caller to re-encrypt under.
+ */
+export async function decryptKeyBackup(
+  serialized: string,
+  secret: KeyBackupSecret
+): Promise<{ payload: KeyBackupPayload; needsUpgrade: boolean; kek: BackupKek }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(serialized);
+  } catch {
+    throw new Error('Key backup is corrupted');
+  }
+
+  let key: Uint8Array;
+  let nonce: Uint8Array;
+  let ciphertext: Uint8Array;
+  let needsUpgrade: boolean;
+  // KDF of a versioned envelope; legacy blobs have none
+  let kdf: KdfParams | null = null;
+
+  if (isRecord(parsed) && typeof parsed.version === 'number') {
+    if (parsed.version !== KEY_BACKUP_VERSION) {
+      throw new Error(`Unsupported key backup version: ${parsed.version}`);
+    }
+    if (isRecord(parsed.kdf) && !isKdfParams(parsed.kdf)) {
+      throw new Error(`Unsupported key backup KDF: ${String(parsed.kdf.alg)}`);
+    }
+    if (!isKeyBackupEnvelope(parsed)) {
+      throw new Error('Key backup is corrupted');
+    }
+    const envelope = parsed;
+    kdf = envelope.kdf;
+    if (typeof secret === 'string') {
+      key = await deriveKeyFromPassword(secret, envelope.kdf);
+    } else if (sameKdf(secret.kdf, envelope.kdf)) {
+      key = secret.key;
+    } else {
+      // Rewritten under another password, e.g. changed on another device
+      throw new Error('Failed to decrypt private key. The key backup was re-encrypted with another password.');
+    }
+    nonce = naclUtil.decodeBase64(envelope.nonce);
+    ciphertext = naclUtil.decodeBase64(envelope.ciphertext);
+    needsUpgrade = isOutdatedKdf(envelope.kdf);
+  } else if (isLegacyKeyBackup(parsed)) {
+    if (typeof secret !== 'string') {
+      throw new Error('Failed to decrypt private key. Legacy backups can only be opened with the password.');
+    }
+    key = deriveLegacyKeyFromPassword(secret, parsed.salt);
+    nonce = naclUtil.decodeBase64(parsed.nonce);
+    ciphertext = naclUtil.decodeBase64(parsed.encryptedKey);
+    needsUpgrade = true;
+  } else {
+    throw new Error('Key backup is corrupted');
+  }
+
+  const decrypted = getCryptoProvider().secretboxOpen(ciphertext, nonce, key);
+  if (!decrypted) {
+    if (typeof secret === 'string') key.fill(0);
+    throw new Error('Failed to decrypt private key. Wrong password?');
+  }
+
+  const plaintext = naclUtil.encodeUTF8(decrypted);
+  // Legacy blobs held the base64 private key directly
+  const payload = kdf ? parseKeyBackupPayload(plaintext) : { privateKey: plaintext };
+
+  if (typeof secret !== 'string') {
+    // Upgrading the KDF needs the password; it happens at the next password unlock
+    return { payload, needsUpgrade: false, kek: secret };
+  }
+  if (needsUpgrade || !kdf) {
+    key.fill(0);
+    return { payload, needsUpgrade, kek: await createBackupKek(secret) };
+  }
+  return { payload, needsUpgrade, kek: { key, kdf } };
+}
+
+/**
+ * Encrypt the recovery-phrase copy of a key backup.
+ * Returns the serialized envelope stored in users.recovery_key_backup.
+ */
+export function encryptRecoveryBackup(payload: KeyBackupPayload, recovery: RecoveryKey): string {
+  const nonce = getCryptoProvider().randomBytes(SECRETBOX_NONCE_BYTES);
+  const encrypted = getCryptoProvider().secretbox(
+    naclUtil.decodeUTF8(JSON.stringify(payload)),
+    nonce,
+    naclUtil.decodeBase64(recovery.key)
+  );
+  const envelope: RecoveryBackupEnvelope = {
+    version: KEY_BACKUP_VERSION,
+    salt: recovery.salt,
+    nonce: naclUtil.encodeBase64(nonce),
+    ciphertext: naclUtil.encodeBase64(encrypted),
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Decrypt the recovery-phrase copy of a key backup
+ */
+export function decryptRecoveryBackup(serialized: string, phrase: string): KeyBackupPayload {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(serialized);
+  } catch {
+    throw new Error('Recovery backup is corrupted');
+  }
+  if (isRecord(parsed) && parsed.version !== KEY_BACKUP_VERSION) {
+    throw new Error(`Unsupported recovery backup version: ${String(parsed.version)}`);
+  }
+  if (!isRecoveryBackupEnvelope(parsed)) {
+    throw new Error('Recovery backup is corrupted');
+  }
+  const envelope = parsed;
+
+  const key = deriveRecoveryKey(phrase, envelope.salt);
+  const decrypted = getCryptoProvider().secretboxOpen(
+    naclUtil.decodeBase64(envelope.ciphertext),
+    naclUtil.decodeBase64(envelope.nonce),
+    key
+  );
+  key.fill(0);
+  if (!decrypted) {
+    throw new Error('Failed to decrypt recovery backup. Wrong recovery phrase?');
+  }
+  return parseKeyBackupPayload(naclUtil.encodeUTF8(decrypted));
+}
@@ -0,0 +1,221 @@
+import {
+  getCryptoProvider,
+  SECRETBOX_KEY_BYTES,
+  SECRETBOX_NONCE_BYTES,
+  SECRETBOX_OVERHEAD_BYTES,
+} from './cryptoProvider';
+import { DEFAULT_MEDIA_PADDING, PaddingPolicy, paddedLength } from './padding';
+
+/**
+ * Chunked authenticated encryption for media, in the style of libsodium's secretstream.
+ *
+ * Stream layout:
+ *   [version u8][chunk size u32 BE][nonce prefix 16][sealed length 24] followed by encrypted chunks.
+ * Each chunk is secretbox([tag u8][plaintext], prefix || u64 BE chunk counter).
+ * Every chunk but the last carries exactly `chunkSize` plaintext bytes; only the
+ * last carries TAG_FINAL. The counter nonce rejects reordered or dropped chunks,
+ * the final tag rejects truncation, and data after the final chunk is an error.
+ *
+ * Version 2 pads the content with zeros (utils/padding) so the stored size does
+ * not reveal the file size. The real length is sealed in the header under the
+ * nonce prefix || 0xff..ff, which no chunk counter reaches. Version 1 streams
+ * have no sealed length and no padding.
+ */
+
+// Marks media stored in the chunked stream format (absent on legacy single-box files)
+export const MEDIA_STREAM_FORMAT = 'stream-v1';
+
+export const MEDIA_STREAM_VERSION = 2;
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+const BASE_HEADER_LENGTH = 1 + 4 + 16;
+const SEALED_LENGTH_BYTES = 8 + SECRETBOX_OVERHEAD_BYTES;
+const HEADER_LENGTHS: Record<number, number> = {
+  1: BASE_HEADER_LENGTH,
+  2: BASE_HEADER_LENGTH + SEALED_LENGTH_BYTES,
+};
+const MAX_CHUNK_SIZE = 4 * 1024 * 1024;
+const NONCE_PREFIX_LENGTH = 16;
+const TAG_MESSAGE = 0;
+const TAG_FINAL = 1;
+
+export interface StreamEncryptor {
+  header: Uint8Array;
+  chunkSize: number;
+  // Encrypt the next chunk of content; `final` must be set on the last one (which may be empty)
+  push(plaintext: Uint8Array, final: boolean): Uint8Array;
+  // Encrypted padding chunks, written after the final content chunk
+  padding(): Generator<Uint8Array>;
+}
+
+export interface StreamDecryptor {
+  chunkSize: number;
+  // Size of a full encrypted chunk; the final chunk may be shorter
+  encryptedChunkSize: number;
+  pull(ciphertext: Uint8Array): { plaintext: Uint8Array; final: boolean };
+  // Throws unless the final chunk has been seen
+  finish(): void;
+}
+
+function chunkNonce(prefix: Uint8Array, counter: number): Uint8Array {
+  const nonce = new Uint8Array(SECRETBOX_NONCE_BYTES);
+  nonce.set(prefix);
+  const view = new DataView(nonce.buffer);
+  view.setUint32(NONCE_PREFIX_LENGTH, Math.floor(counter / 0x100000000));
+  view.setUint32(NONCE_PREFIX_LENGTH + 4, counter >>> 0);
+  return nonce;
+}
+
+function lengthNonce(prefix: Uint8Array): Uint8Array {
+  const nonce = new Uint8Array(SECRETBOX_NONCE_BYTES).fill(0xff);
+  nonce.set(prefix);
+  return nonce;
+}
+
+/**
+ * Header length of a stream, from its first byte (the version)
+ */
+export function getMediaStreamHeaderLength(version: number): number {
+  const length = HEADER_LENGTHS[version];
+  if (!length) throw new Error(`Unsupported media stream version ${version}`);
+  return length;
+}
+
+/**
+ * Start encrypting `contentLength` bytes under a 32-byte key, padded per `padding`
+ */
+export function createStreamEncryptor(
+  key: Uint8Array,
+  contentLength: number,
+  padding: PaddingPolicy = DEFAULT_MEDIA_PADDING,
+  chunkSize = DEFAULT_CHUNK_SIZE
+): StreamEncryptor {
+  if (key.length !== SECRETBOX_KEY_BYTES) {
+    throw new Error('Invalid media key length');
+  }
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error('Invalid media chunk size');
+  }
+  if (!Number.isSafeInteger(contentLength) || contentLength < 0) {
+    throw new Error('Invalid media length');
+  }
+  const provider = getCryptoProvider();
+  const prefix = provider.randomBytes(NONCE_PREFIX_LENGTH);
+  const header = new Uint8Array(getMediaStreamHeaderLength(MEDIA_STREAM_VERSION));
+  header[0] = MEDIA_STREAM_VERSION;
+  new DataView(header.buffer).setUint32(1, chunkSize);
+  header.set(prefix, 5);
+  const length = new Uint8Array(8);
+  const lengthView = new DataView(length.buffer);
+  lengthView.setUint32(0, Math.floor(contentLength / 0x100000000));
+  lengthView.setUint32(4, contentLength >>> 0);
+  header.set(provider.secretbox(length, lengthNonce(prefix), key), BASE_HEADER_LENGTH);
+
+  const totalLength = paddedLength(contentLength, padding);
+  let written = 0;
+  let counter = 0;
+  let contentDone = false;
+  let finished = false;
+
+  // Pad the last content chunk out to a full chunk if padding follows it
+  const seal = (plaintext: Uint8Array) => {
+    const chunkLength = Math.min(chunkSize, totalLength - written);
+    const final = contentDone && written + chunkLength >= totalLength;
+    const tagged = new Uint8Array(1 + chunkLength);
+    tagged[0] = final ? TAG_FINAL : TAG_MESSAGE;
+    tagged.set(plaintext, 1);
+    const sealed = provider.secretbox(tagged, chunkNonce(prefix, counter), key);
+    tagged.fill(0);
+    counter += 1;
+    written += chunkLength;
+    finished = final;
+    return sealed;
+  };
+
+  return {
+    header,
+    chunkSize,
+    push(plaintext, final) {
+      if (contentDone) throw new Error('Media stream already finalized');
+      if (plaintext.length > chunkSize || (!final && plaintext.length !== chunkSize)) {
+        throw new Error('Media chunk has an invalid size');
+      }
+      const end = written + plaintext.length;
+      if (final ? end !== contentLength : end > contentLength) {
+        throw new Error('Media content does not match its declared length');
+      }
+      contentDone = final;
+      return seal(plaintext);
+    },
+    *padding() {
+      if (!contentDone) throw new Error('Media content not finalized');
+      while (!finished) {
+        yield seal(new Uint8Array(0));
+      }
+    },
+  };
+}
+
+/**
+ * Start decrypting a stream from its header
+ */
+export function createStreamDecryptor(key: Uint8Array, header: Uint8Array): StreamDecryptor {
+  if (key.length !== SECRETBOX_KEY_BYTES) {
+    throw new Error('Invalid media key length');
+  }
+  const version = header[0];
+  if (header.length !== getMediaStreamHeaderLength(version)) {
+    throw new Error('Truncated media stream header');
+  }
+  const chunkSize = new DataView(header.buffer, header.byteOffset, header.length).getUint32(1);
+  if (chunkSize === 0 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error('Invalid media chunk size');
+  }
+  const prefix = header.slice(5, BASE_HEADER_LENGTH);
+  const encryptedChunkSize = 1 + chunkSize + SECRETBOX_OVERHEAD_BYTES;
+
+  // Null for version 1 streams, which are unpadded
+  let contentLength: number | null = null;
+  if (version >= 2) {
+    const length = getCryptoProvider().secretboxOpen(header.subarray(BASE_HEADER_LENGTH), lengthNonce(prefix), key);
+    if (!length) throw new Error('Media stream header authentication failed');
+    const view = new DataView(length.buffer, length.byteOffset, length.length);
+    contentLength = view.getUint32(0) * 0x100000000 + view.getUint32(4);
+  }
+
+  let counter = 0;
+  let received = 0;
+  let finished = false;
+  return {
+    chunkSize,
+    encryptedChunkSize,
+    pull(ciphertext) {
+      if (finished) throw new Error('Unexpected data after final media chunk');
+      if (ciphertext.length > encryptedChunkSize || ciphertext.length < 1 + SECRETBOX_OVERHEAD_BYTES) {
+        throw new Error('Media chunk has an invalid size');
+      }
+      const opened = getCryptoProvider().secretboxOpen(ciphertext, chunkNonce(prefix, counter), key);
+      if (!opened) throw new Error('Media chunk authentication failed');
+      const final = opened[0] === TAG_FINAL;
+      if (opened[0] !== TAG_FINAL && opened[0] !== TAG_MESSAGE) {
+        throw new Error('Invalid media chunk tag');
+      }
+      if (!final && ciphertext.length !== encryptedChunkSize) {
+        throw new Error('Short media chunk before the final chunk');
+      }
+      counter += 1;
+      finished = final;
+      const chunk = opened.subarray(1);
+      // Drop the padding after the content
+      const plaintext = contentLength === null ? chunk : chunk.subarray(0, Math.max(0, contentLength - received));
+      received += chunk.length;
+      return { plaintext, final };
+    },
+    finish() {
+      if (!finished) throw new Error('Truncated media stream');
+      if (contentLength !== null && received < contentLength) {
+        throw new Error('Media stream is shorter than its declared length');
+      }
+    },
+  };
+}
@@ -0,0 +1,178 @@
+import * as naclUtil from 'tweetnacl-util';
+import { EncryptedMessage, Keypair, WrappedKey } from '../types';
+import { getCryptoProvider, SECRETBOX_KEY_BYTES, SECRETBOX_NONCE_BYTES } from './cryptoProvider';
+
+/**
+ * Public-key and symmetric encryption of messages, files and media content keys
+ */
+
+/**
+ * Derive a session key using your private key and peer's public key (Diffie-Hellman)
+ */
+export function deriveSessionKey(myPrivateKeyBase64: string, peerPublicKeyBase64: string): Uint8Array {
+  const myPrivateKey = naclUtil.decodeBase64(myPrivateKeyBase64);
+  const peerPublicKey = naclUtil.decodeBase64(peerPublicKeyBase64);
+  return getCryptoProvider().boxBefore(peerPublicKey, myPrivateKey);
+}
+
+/**
+ * Derive a shared symmetric key from local private key and remote public key
+ */
+export function deriveSharedKey(
+  localPrivateB64: string,
+  remotePublicB64: string
+): Uint8Array {
+  const localPriv = naclUtil.decodeBase64(localPrivateB64);
+  const remotePub = naclUtil.decodeBase64(remotePublicB64);
+  const shared = getCryptoProvider().boxBefore(remotePub, localPriv);
+  return shared;
+}
+
+/**
+ * Encrypt a message using symmetric key (XSalsa20-Poly1305)
+ */
+export function encryptMessage(
+  symKey: Uint8Array,
+  plaintext: string
+): EncryptedMessage {
+  const nonce = getCryptoProvider().randomBytes(SECRETBOX_NONCE_BYTES);
+  const messageUint8 = naclUtil.decodeUTF8(plaintext);
+  const cipher = getCryptoProvider().secretbox(messageUint8, nonce, symKey);
+  return {
+    ciphertext: naclUtil.encodeBase64(cipher),
+    nonce: naclUtil.encodeBase64(nonce),
+  };
+}
+
+/**
+ * Decrypt a message using symmetric key
+ */
+export function decryptMessage(
+  symKey: Uint8Array,
+  ciphertextB64: string,
+  nonceB64: string
+): string {
+  const cipher = naclUtil.decodeBase64(ciphertextB64);
+  const nonce = naclUtil.decodeBase64(nonceB64);
+  const decrypted = getCryptoProvider().secretboxOpen(cipher, nonce, symKey);
+  if (!decrypted) {
+    throw new Error('Decryption failed');
+  }
+  return naclUtil.encodeUTF8(decrypted);
+}
+
+/**
+ * Generate ephemeral keypair for forward secrecy
+ */
+export function generateEphemeralKeypair(): Keypair {
+  const kp = getCryptoProvider().boxKeyPair();
+  return {
+    publicKey: naclUtil.encodeBase64(kp.publicKey),
+    privateKey: naclUtil.encodeBase64(kp.secretKey),
+  };
+}
+
+/**
+ * Encrypt message with ephemeral key (for forward secrecy)
+ */
+export function encryptMessageWithEphemeral(
+  recipientPublicKeyB64: string,
+  plaintext: string
+): EncryptedMessage {
+  const ephemeralKeypair = generateEphemeralKeypair();
+  const symKey = deriveSharedKey(
+    ephemeralKeypair.privateKey,
+    recipientPublicKeyB64
+  );
+  const encrypted = encryptMessage(symKey, plaintext);
+  return {
+    ...encrypted,
+    ephemeralPublicKey: ephemeralKeypair.publicKey,
+  };
+}
+
+/**
+ * Decrypt message using ephemeral public key
+ */
+export function decryptMessageWithEphemeral(
+  localPrivateKeyB64: string,
+  ephemeralPublicKeyB64: string,
+  ciphertextB64: string,
+  nonceB64: string
+): string {
+  const symKey = deriveSharedKey(localPrivateKeyB64, ephemeralPublicKeyB64);
+  return decryptMessage(symKey, ciphertextB64, nonceB64);
+}
+
+/**
+ * Encrypt file data in the legacy single-box format.
+ * @deprecated Unpadded. New media uses the padded stream format (services/mediaStorage).
+ */
+export function encryptFileData(
+  symKey: Uint8Array,
+  fileData: Uint8Array
+): { ciphertext: string; nonce: string } {
+  const nonce = getCryptoProvider().randomBytes(SECRETBOX_NONCE_BYTES);
+  const cipher = getCryptoProvider().secretbox(fileData, nonce, symKey);
+  return {
+    ciphertext: naclUtil.encodeBase64(cipher),
+    nonce: naclUtil.encodeBase64(nonce),
+  };
+}
+
+/**
+ * Decrypt file data
+ */
+export function decryptFileData(
+  symKey: Uint8Array,
+  ciphertextB64: string,
+  nonceB64: string
+): Uint8Array {
+  const cipher = naclUtil.decodeBase64(ciphertextB64);
+  const nonce = naclUtil.decodeBase64(nonceB64);
+  const decrypted = getCryptoProvider().secretboxOpen(cipher, nonce, symKey);
+  if (!decrypted) {
+    throw new Error('File decryption failed');
+  }
+  return decrypted;
+}
+
+/**
+ * Generate a fresh random key for a single media file
+ */
+export function generateContentKey(): Uint8Array {
+  return getCryptoProvider().randomBytes(SECRETBOX_KEY_BYTES);
+}
+
+/**
+ * Wrap a content key for one participant (anonymous box to their identity key)
+ */
+export function wrapContentKey(contentKey: Uint8Array, recipientPublicKeyB64: string): WrappedKey {
+  const ephemeralKeypair = generateEphemeralKeypair();
+  const symKey = deriveSharedKey(ephemeralKeypair.privateKey, recipientPublicKeyB64);
+  const nonce = getCryptoProvider().randomBytes(SECRETBOX_NONCE_BYTES);
+  const cipher = getCryptoProvider().secretbox(contentKey, nonce, symKey);
+  symKey.fill(0);
+  return {
+    ephemeralPublicKey: ephemeralKeypair.publicKey,
+    nonce: naclUtil.encodeBase64(nonce),
+    ciphertext: naclUtil.encodeBase64(cipher),
+  };
+}
+
+/**
+ * Unwrap a content key with the local identity private key
+ */
+export function unwrapContentKey(wrapped: WrappedKey, localPrivateKeyB64: string): Uint8Array {
+  const symKey = deriveSharedKey(localPrivateKeyB64, wrapped.ephemeralPublicKey);
+  const contentKey = getCryptoProvider().secretboxOpen(
+    naclUtil.decodeBase64(wrapped.ciphertext),
+    naclUtil.decodeBase64(wrapped.nonce),
+    symKey
+  );
+  symKey.fill(0);
+  if (!contentKey || contentKey.length !== SECRETBOX_KEY_BYTES) {
+    throw new Error('Content key unwrap failed');
+  }
+  return contentKey;
+}
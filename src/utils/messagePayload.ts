@@ -0,0 +1,104 @@
+import * as naclUtil from 'tweetnacl-util';
+import { MediaAttachment, MessagePayload, MessageReply } from '../types';
+import { paddedLength } from './padding';
+
+/**
+ * Structured plaintext for messages: JSON text plus an optional attachment
+ * and an optional quoted reply.
+ *
+ * The attachment carries the file's random content key, so the key travels
+ * end-to-end encrypted inside the message and the same upload can be shared
+ * again by sending its attachment in another message. A reply names the quoted
+ * message and carries a short excerpt of it, so the server sees neither; older
+ * readers ignore it. Messages written with this format set metadata.payload to
+ * the version; older messages are plain text.
+ *
+ * Serialized payloads are padded with trailing whitespace to a size bucket
+ * (utils/padding) before encryption, so the ciphertext does not reveal the
+ * length of the text. JSON ignores the whitespace, so older readers are unaffected.
+ */
+
+export const MESSAGE_PAYLOAD_VERSION = 1;
+
+const CONTENT_KEY_LENGTH = 32;
+
+// Longest reply excerpt, in characters
+export const REPLY_EXCERPT_LENGTH = 100;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+function isContentKey(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    return naclUtil.decodeBase64(value).length === CONTENT_KEY_LENGTH;
+  } catch {
+    return false;
+  }
+}
+
+function parseAttachment(value: unknown): MediaAttachment {
+  if (!isRecord(value)) {
+    throw new Error('Invalid message attachment');
+  }
+  const { path, type, mime, key, format } = value;
+  if (typeof path !== 'string' || !path) {
+    throw new Error('Message attachment is missing its path');
+  }
+  if (type !== 'image' && type !== 'video') {
+    throw new Error('Invalid message attachment type');
+  }
+  if (typeof mime !== 'string' || typeof format !== 'string') {
+    throw new Error('Invalid message attachment');
+  }
+  if (!isContentKey(key)) {
+    throw new Error('Invalid message attachment key');
+  }
+  return { path, type, mime, key, format };
+}
+
+function parseReply(value: unknown): MessageReply {
+  if (!isRecord(value)) {
+    throw new Error('Invalid message reply');
+  }
+  const { id, sender, excerpt } = value;
+  if (typeof id !== 'string' || !id || typeof sender !== 'string' || typeof excerpt !== 'string') {
+    throw new Error('Invalid message reply');
+  }
+  return { id, sender, excerpt: excerpt.slice(0, REPLY_EXCERPT_LENGTH) };
+}
+
+/**
+ * Shorten a quoted message's text for a reply, on one line
+ */
+export function toReplyExcerpt(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > REPLY_EXCERPT_LENGTH ? `${line.slice(0, REPLY_EXCERPT_LENGTH - 1)}…` : line;
+}
+
+/**
+ * Serialize and pad a payload for encryption
+ */
+export function encodeMessagePayload(payload: MessagePayload): string {
+  const json = JSON.stringify({ v: MESSAGE_PAYLOAD_VERSION, ...payload });
+  const length = naclUtil.decodeUTF8(json).length;
+  return json + ' '.repeat(paddedLength(length, 'buckets') - length);
+}
+
+/**
+ * Parse a decrypted payload
+ */
+export function decodeMessagePayload(plaintext: string, version: number): MessagePayload {
+  if (version !== MESSAGE_PAYLOAD_VERSION) {
+    throw new Error(`Unsupported message payload version ${version}`);
+  }
+  const value: unknown = JSON.parse(plaintext.trimEnd());
+  if (!isRecord(value) || value.v !== version || typeof value.text !== 'string') {
+    throw new Error('Invalid message payload');
+  }
+  const payload: MessagePayload = { text: value.text };
+  if (value.attachment !== undefined) payload.attachment = parseAttachment(value.attachment);
+  if (value.replyTo !== undefined) payload.replyTo = parseReply(value.replyTo);
+  return payload;
+}
@@ -0,0 +1,47 @@
+/**
+ * Length padding, so ciphertext sizes do not reveal plaintext sizes.
+ *
+ * - buckets: the next power of two, at least 256 bytes. Messages always use
+ *   this, so short texts and attachment placeholders look the same.
+ * - padme: Padmé (Nikitin et al., "Reducing Metadata Leakage from Encrypted
+ *   Files and Communication with PURBs"): at most 12% overhead and O(log log L)
+ *   bits of the length leaked. The default for attachments.
+ * - none: no padding.
+ */
+
+export type PaddingPolicy = 'buckets' | 'padme' | 'none';
+
+export const PADDING_POLICIES: PaddingPolicy[] = ['padme', 'buckets', 'none'];
+
+export const DEFAULT_MEDIA_PADDING: PaddingPolicy = 'padme';
+
+const MIN_BUCKET = 256;
+
+function padme(length: number): number {
+  if (length < 2) return length;
+  const exponent = Math.floor(Math.log2(length));
+  const bitsOfExponent = Math.floor(Math.log2(exponent)) + 1;
+  // Keep only the top bitsOfExponent bits of the length, rounding up
+  const step = 2 ** (exponent - bitsOfExponent);
+  return Math.ceil(length / step) * step;
+}
+
+/**
+ * Size a plaintext of `length` bytes is padded to under a policy
+ */
+export function paddedLength(length: number, policy: PaddingPolicy): number {
+  switch (policy) {
+    case 'buckets':
+      return Math.max(MIN_BUCKET, 2 ** Math.ceil(Math.log2(Math.max(length, 1))));
+    case 'padme':
+      return padme(length);
+    case 'none':
+      return length;
+    default:
+      throw new Error(`Unknown padding policy: ${policy as string}`);
+  }
+}
+
+export function isPaddingPolicy(value: unknown): value is PaddingPolicy {
+  return typeof value === 'string' && (PADDING_POLICIES as string[]).includes(value);
+}
@@ -0,0 +1,253 @@
+import * as naclUtil from 'tweetnacl-util';
+import { concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { Keypair, RatchetHeader, RatchetInit, RatchetState } from '../types';
+import { getCryptoProvider, SECRETBOX_KEY_BYTES, SECRETBOX_NONCE_BYTES } from './cryptoProvider';
+
+/**
+ * Double Ratchet (https://signal.org/docs/specifications/doubleratchet/)
+ *
+ * Pure state machine: every operation works on a copy of the state and returns
+ * the new state, so a failed decryption never corrupts a session. Persistence
+ * lives in services/ratchetSessions.
+ */
+
+// Maximum number of message keys skipped in a single chain
+const MAX_SKIP = 1000;
+// Maximum number of skipped message keys kept per session
+const MAX_STORED_SKIPPED_KEYS = 2000;
+
+const ROOT_INFO = utf8ToBytes('E2EChat-Ratchet-Root');
+const MESSAGE_INFO = utf8ToBytes('E2EChat-Ratchet-Message');
+const SESSION_INFO = utf8ToBytes('E2EChat-Ratchet-Session');
+
+const encode = naclUtil.encodeBase64;
+const decode = naclUtil.decodeBase64;
+
+function generateRatchetKeypair(): Keypair {
+  const kp = getCryptoProvider().boxKeyPair();
+  return { publicKey: encode(kp.publicKey), privateKey: encode(kp.secretKey) };
+}
+
+function dh(privateKeyB64: string, publicKeyB64: string): Uint8Array {
+  return getCryptoProvider().scalarMult(decode(privateKeyB64), decode(publicKeyB64));
+}
+
+function kdfRootKey(rootKeyB64: string, dhOutput: Uint8Array): { rootKey: string; chainKey: string } {
+  const out = getCryptoProvider().hkdfSha256(dhOutput, decode(rootKeyB64), ROOT_INFO, 64);
+  return { rootKey: encode(out.slice(0, 32)), chainKey: encode(out.slice(32)) };
+}
+
+function kdfChainKey(chainKeyB64: string): { chainKey: string; messageKey: Uint8Array } {
+  const chainKey = decode(chainKeyB64);
+  return {
+    chainKey: encode(getCryptoProvider().hmacSha256(chainKey, Uint8Array.of(0x02))),
+    messageKey: getCryptoProvider().hmacSha256(chainKey, Uint8Array.of(0x01)),
+  };
+}
+
+/**
+ * Canonical header encoding, authenticated together with the caller's associated data
+ */
+function encodeHeader(header: RatchetHeader): Uint8Array {
+  return utf8ToBytes(`${header.sid}|${header.dh}|${header.pn}|${header.n}`);
+}
+
+/**
+ * Bind a message key to the header and associated data; any tampering yields a different key
+ */
+function deriveCipherKey(messageKey: Uint8Array, header: RatchetHeader, associatedData: Uint8Array): Uint8Array {
+  const info = concatBytes(MESSAGE_INFO, associatedData, encodeHeader(header));
+  return getCryptoProvider().hkdfSha256(messageKey, new Uint8Array(32), info, SECRETBOX_KEY_BYTES);
+}
+
+function cloneState(state: RatchetState): RatchetState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Generate a random session id
+ */
+export function generateSessionId(): string {
+  return encode(getCryptoProvider().randomBytes(16));
+}
+
+/**
+ * Derive the initial shared secret from both identity keys (static-static X25519),
+ * salted with the session id so every session starts from a distinct root key
+ */
+export function deriveStaticSharedSecret(
+  localIdentityPrivateB64: string,
+  remoteIdentityPublicB64: string,
+  sessionId: string
+): Uint8Array {
+  const dhOutput = dh(localIdentityPrivateB64, remoteIdentityPublicB64);
+  return getCryptoProvider().hkdfSha256(dhOutput, decode(sessionId), SESSION_INFO, 32);
+}
+
+/**
+ * Start a session as the initiator (Alice), sending to the responder's ratchet key
+ */
+export function initiateSession(
+  sharedSecret: Uint8Array,
+  remoteRatchetKey: string,
+  sessionId: string,
+  init: RatchetInit
+): RatchetState {
+  const sendingRatchet = generateRatchetKeypair();
+  const { rootKey, chainKey } = kdfRootKey(encode(sharedSecret), dh(sendingRatchet.privateKey, remoteRatchetKey));
+  return {
+    sessionId,
+    rootKey,
+    sendingRatchet,
+    remoteRatchetKey,
+    sendingChainKey: chainKey,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+    pendingInit: init,
+  };
+}
+
+/**
+ * Start a session as the responder (Bob), using the key pair the initiator sent to
+ */
+export function acceptSession(sharedSecret: Uint8Array, localRatchetKeypair: Keypair, sessionId: string): RatchetState {
+  return {
+    sessionId,
+    rootKey: encode(sharedSecret),
+    sendingRatchet: localRatchetKeypair,
+    remoteRatchetKey: null,
+    sendingChainKey: null,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+  };
+}
+
+/**
+ * Encrypt the next message in a session
+ */
+export function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: Uint8Array,
+  associatedData: Uint8Array
+): { state: RatchetState; header: RatchetHeader; ciphertext: string; nonce: string } {
+  if (!state.sendingChainKey) {
+    throw new Error('Session cannot send before receiving a message');
+  }
+  const next = cloneState(state);
+  const { chainKey, messageKey } = kdfChainKey(next.sendingChainKey!);
+  next.sendingChainKey = chainKey;
+
+  const header: RatchetHeader = {
+    sid: next.sessionId,
+    dh: next.sendingRatchet.publicKey,
+    pn: next.previousSendCount,
+    n: next.sendCount,
+  };
+  if (next.pendingInit) {
+    header.init = next.pendingInit;
+  }
+  next.sendCount += 1;
+
+  const key = deriveCipherKey(messageKey, header, associatedData);
+  const nonce = getCryptoProvider().randomBytes(SECRETBOX_NONCE_BYTES);
+  const cipher = getCryptoProvider().secretbox(plaintext, nonce, key);
+  messageKey.fill(0);
+  key.fill(0);
+
+  return { state: next, header, ciphertext: encode(cipher), nonce: encode(nonce) };
+}
+
+function skipMessageKeys(state: RatchetState, until: number): void {
+  if (!state.receivingChainKey || !state.remoteRatchetKey) return;
+  if (until - state.receiveCount > MAX_SKIP) {
+    throw new Error('Too many skipped messages');
+  }
+  while (state.receiveCount < until) {
+    const { chainKey, messageKey } = kdfChainKey(state.receivingChainKey);
+    state.receivingChainKey = chainKey;
+    state.skippedKeys[`${state.remoteRatchetKey}:${state.receiveCount}`] = encode(messageKey);
+    state.receiveCount += 1;
+  }
+  // Evict the oldest keys (insertion order) once over the limit
+  const stored = Object.keys(state.skippedKeys);
+  for (let i = 0; i < stored.length - MAX_STORED_SKIPPED_KEYS; i++) {
+    delete state.skippedKeys[stored[i]];
+  }
+}
+
+function dhRatchet(state: RatchetState, header: RatchetHeader): void {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.receiveCount = 0;
+  state.remoteRatchetKey = header.dh;
+
+  const receiving = kdfRootKey(state.rootKey, dh(state.sendingRatchet.privateKey, header.dh));
+  state.rootKey = receiving.rootKey;
+  state.receivingChainKey = receiving.chainKey;
+
+  state.sendingRatchet = generateRatchetKeypair();
+  const sending = kdfRootKey(state.rootKey, dh(state.sendingRatchet.privateKey, header.dh));
+  state.rootKey = sending.rootKey;
+  state.sendingChainKey = sending.chainKey;
+}
+
+function openWithMessageKey(
+  messageKey: Uint8Array,
+  header: RatchetHeader,
+  associatedData: Uint8Array,
+  ciphertextB64: string,
+  nonceB64: string
+): Uint8Array {
+  const key = deriveCipherKey(messageKey, header, associatedData);
+  const opened = getCryptoProvider().secretboxOpen(decode(ciphertextB64), decode(nonceB64), key);
+  key.fill(0);
+  if (!opened) {
+    throw new Error('Decryption failed');
+  }
+  return opened;
+}
+
+/**
+ * Decrypt a message, handling DH ratchet steps and out-of-order delivery.
+ * Throws without modifying the session if the message cannot be authenticated.
+ */
+export function ratchetDecrypt(
+  state: RatchetState,
+  header: RatchetHeader,
+  ciphertextB64: string,
+  nonceB64: string,
+  associatedData: Uint8Array
+): { state: RatchetState; plaintext: Uint8Array } {
+  const next = cloneState(state);
+
+  const skippedId = `${header.dh}:${header.n}`;
+  const skipped = next.skippedKeys[skippedId];
+  if (skipped) {
+    const plaintext = openWithMessageKey(decode(skipped), header, associatedData, ciphertextB64, nonceB64);
+    delete next.skippedKeys[skippedId];
+    delete next.pendingInit;
+    return { state: next, plaintext };
+  }
+
+  if (header.dh !== next.remoteRatchetKey) {
+    skipMessageKeys(next, header.pn);
+    dhRatchet(next, header);
+  }
+  skipMessageKeys(next, header.n);
+
+  const { chainKey, messageKey } = kdfChainKey(next.receivingChainKey!);
+  next.receivingChainKey = chainKey;
+  next.receiveCount += 1;
+
+  const plaintext = openWithMessageKey(messageKey, header, associatedData, ciphertextB64, nonceB64);
+  messageKey.fill(0);
+  // The peer evidently holds this session, so stop attaching the init block
+  delete next.pendingInit;
+  return { state: next, plaintext };
+}
@@ -0,0 +1,62 @@
+import * as naclUtil from 'tweetnacl-util';
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { RecoveryKey } from '../types';
+import { getCryptoProvider, SECRETBOX_KEY_BYTES } from './cryptoProvider';
+
+/**
+ * Recovery phrases: 24 BIP-39 English words encoding 256 bits of entropy plus
+ * an 8-bit checksum, so typos are caught before any decryption is attempted.
+ *
+ * The phrase already carries full key strength, so the wrapping key is derived
+ * with HKDF rather than a slow password KDF. The derived key (not the phrase)
+ * is kept inside the password-protected backup, which lets the recovery copy be
+ * re-sealed whenever the keys change without asking for the phrase again.
+ */
+
+export const RECOVERY_PHRASE_WORDS = 24;
+
+const ENTROPY_BYTES = 32;
+const SALT_BYTES = 16;
+const RECOVERY_INFO = naclUtil.decodeUTF8('E2EChat-Recovery-v1');
+
+/**
+ * Lowercase and collapse whitespace so hand-typed phrases compare equal
+ */
+export function normalizeRecoveryPhrase(input: string): string {
+  return input.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+export function isValidRecoveryPhrase(input: string): boolean {
+  const phrase = normalizeRecoveryPhrase(input);
+  return phrase.split(' ').length === RECOVERY_PHRASE_WORDS && validateMnemonic(phrase, wordlist);
+}
+
+/**
+ * Generate a new random recovery phrase
+ */
+export function generateRecoveryPhrase(): string {
+  return entropyToMnemonic(getCryptoProvider().randomBytes(ENTROPY_BYTES), wordlist);
+}
+
+/**
+ * Derive the key that wraps the recovery copy of the key backup
+ */
+export function deriveRecoveryKey(input: string, saltB64: string): Uint8Array {
+  if (!isValidRecoveryPhrase(input)) {
+    throw new Error('Invalid recovery phrase');
+  }
+  const entropy = mnemonicToEntropy(normalizeRecoveryPhrase(input), wordlist);
+  const salt = naclUtil.decodeBase64(saltB64);
+  const key = getCryptoProvider().hkdfSha256(entropy, salt, RECOVERY_INFO, SECRETBOX_KEY_BYTES);
+  entropy.fill(0);
+  return key;
+}
+
+/**
+ * Create the recovery key for a freshly generated phrase
+ */
+export function createRecoveryKey(phrase: string): RecoveryKey {
+  const salt = naclUtil.encodeBase64(getCryptoProvider().randomBytes(SALT_BYTES));
+  return { salt, key: naclUtil.encodeBase64(deriveRecoveryKey(phrase, salt)) };
+}
@@ -0,0 +1,160 @@
+import * as nacl from 'tweetnacl';
+import * as naclUtil from 'tweetnacl-util';
+import { Device, KeyRotationNotice, MessageEnvelope } from '../types';
+
+/**
+ * Ed25519 signatures over message envelopes, device certificates and identity
+ * key rotation notices, each under its own context string
+ */
+
+const MESSAGE_SIGNATURE_CONTEXT = 'E2EChat-Message-Signature-v1';
+
+/**
+ * Deterministic JSON (sorted object keys) so signer and verifier hash the same bytes
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function encodeMessageEnvelope(envelope: MessageEnvelope): Uint8Array {
+  // The signature itself travels in metadata.sig and is not part of the signed bytes
+  const { sig, ...metadata } = envelope.metadata || {};
+  return naclUtil.decodeUTF8(
+    MESSAGE_SIGNATURE_CONTEXT +
+      canonicalJson({
+        conversation_id: envelope.conversation_id,
+        sender: envelope.sender,
+        // Only present on multi-device messages; absent fields are left out of the signed bytes
+        sender_device: envelope.sender_device ?? undefined,
+        device_ciphertexts: envelope.device_ciphertexts ?? undefined,
+        ciphertext: envelope.ciphertext ?? undefined,
+        ciphertext_sender: envelope.ciphertext_sender ?? null,
+        ephemeral_pubkey: envelope.ephemeral_pubkey ?? null,
+        ephemeral_pubkey_sender: envelope.ephemeral_pubkey_sender ?? null,
+        metadata,
+      })
+  );
+}
+
+/**
+ * Sign a message envelope with the sender's Ed25519 identity key
+ */
+export function signMessageEnvelope(signingPrivateKeyB64: string, envelope: MessageEnvelope): string {
+  const signature = nacl.sign.detached(encodeMessageEnvelope(envelope), naclUtil.decodeBase64(signingPrivateKeyB64));
+  return naclUtil.encodeBase64(signature);
+}
+
+/**
+ * Verify a message envelope against the claimed sender's Ed25519 public key
+ */
+export function verifyMessageEnvelope(
+  signingPublicKeyB64: string,
+  envelope: MessageEnvelope,
+  signatureB64: string
+): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      encodeMessageEnvelope(envelope),
+      naclUtil.decodeBase64(signatureB64),
+      naclUtil.decodeBase64(signingPublicKeyB64)
+    );
+  } catch {
+    return false;
+  }
+}
+
+const DEVICE_CERTIFICATE_CONTEXT = 'E2EChat-Device-v1';
+
+function encodeDeviceCertificate(
+  device: Pick<Device, 'id' | 'user_id' | 'public_key' | 'signing_public_key'>
+): Uint8Array {
+  return naclUtil.decodeUTF8(
+    DEVICE_CERTIFICATE_CONTEXT +
+      canonicalJson({
+        user_id: device.user_id,
+        device_id: device.id,
+        public_key: device.public_key,
+        signing_public_key: device.signing_public_key,
+      })
+  );
+}
+
+/**
+ * Certify a device's keys with the account's Ed25519 signing key
+ */
+export function signDeviceCertificate(
+  signingPrivateKeyB64: string,
+  device: Pick<Device, 'id' | 'user_id' | 'public_key' | 'signing_public_key'>
+): string {
+  const signature = nacl.sign.detached(encodeDeviceCertificate(device), naclUtil.decodeBase64(signingPrivateKeyB64));
+  return naclUtil.encodeBase64(signature);
+}
+
+/**
+ * Verify that a device was certified by the account with this signing key
+ */
+export function verifyDeviceCertificate(signingPublicKeyB64: string, device: Device): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      encodeDeviceCertificate(device),
+      naclUtil.decodeBase64(device.signature),
+      naclUtil.decodeBase64(signingPublicKeyB64)
+    );
+  } catch {
+    return false;
+  }
+}
+
+const KEY_ROTATION_CONTEXT = 'E2EChat-Key-Rotation-v1';
+
+function encodeKeyRotation(userId: string, notice: Omit<KeyRotationNotice, 'signature'>): Uint8Array {
+  return naclUtil.decodeUTF8(
+    KEY_ROTATION_CONTEXT +
+      canonicalJson({
+        user_id: userId,
+        previous_public_key: notice.previous_public_key,
+        public_key: notice.public_key,
+        rotated_at: notice.rotated_at,
+      })
+  );
+}
+
+/**
+ * Create a rotation notice vouching for a new identity key with the signing key
+ */
+export function signKeyRotation(
+  signingPrivateKeyB64: string,
+  userId: string,
+  previousPublicKey: string,
+  publicKey: string
+): KeyRotationNotice {
+  const notice = { previous_public_key: previousPublicKey, public_key: publicKey, rotated_at: new Date().toISOString() };
+  const signature = nacl.sign.detached(encodeKeyRotation(userId, notice), naclUtil.decodeBase64(signingPrivateKeyB64));
+  return { ...notice, signature: naclUtil.encodeBase64(signature) };
+}
+
+/**
+ * Verify a rotation notice against the user's Ed25519 public key
+ */
+export function verifyKeyRotation(signingPublicKeyB64: string, userId: string, notice: KeyRotationNotice): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      encodeKeyRotation(userId, notice),
+      naclUtil.decodeBase64(notice.signature),
+      naclUtil.decodeBase64(signingPublicKeyB64)
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Key storage for the web build.
+ *
+ * Each user's keys are sealed with AES-GCM under a per-user WebCrypto key that
+ * is generated non-extractable and kept in IndexedDB as a CryptoKey object, so
+ * script running in the page can use it but can't read or copy it out. The
+ * sealed keys are stored next to it and bound to the user ID. A user has one
+ * unnamed item (the keypair, utils/crypto) and may have named ones next to it.
+ */
+
+const DB_NAME = 'keystore';
+const DB_VERSION = 1;
+const WRAPPING_KEYS = 'wrapping_keys';
+const SEALED_ITEMS = 'sealed_items';
+const IV_BYTES = 12;
+
+interface SealedItem {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+const wrappingKeys = new Map<string, Promise<CryptoKey>>();
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(WRAPPING_KEYS);
+        req.result.createObjectStore(SEALED_ITEMS);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function getFromStore<T>(storeName: string, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return request<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+}
+
+async function putInStore(storeName: string, key: string, value: unknown): Promise<void> {
+  const db = await openDatabase();
+  await request(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value, key));
+}
+
+function getWrappingKey(userId: string): Promise<CryptoKey> {
+  // Share one pending load so concurrent first calls don't generate two keys
+  let key = wrappingKeys.get(userId);
+  if (!key) {
+    key = loadOrCreateWrappingKey(userId);
+    wrappingKeys.set(userId, key);
+    key.catch(() => wrappingKeys.delete(userId));
+  }
+  return key;
+}
+
+async function loadOrCreateWrappingKey(userId: string): Promise<CryptoKey> {
+  const stored = await getFromStore<CryptoKey>(WRAPPING_KEYS, userId);
+  if (stored) return stored;
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await putInStore(WRAPPING_KEYS, userId, key);
+  return key;
+}
+
+// The unnamed item keeps the bare user ID as its key, as before named items
+function getItemKey(userId: string, name?: string) {
+  return name ? `${userId}:${name}` : userId;
+}
+
+function isUserItemKey(userId: string, itemKey: IDBValidKey) {
+  return itemKey === userId || (typeof itemKey === 'string' && itemKey.startsWith(`${userId}:`));
+}
+
+function additionalData(itemKey: string) {
+  return new TextEncoder().encode(`keystore:${itemKey}`);
+}
+
+/**
+ * Seal a value under the user's wrapping key, replacing any stored value
+ */
+export async function writeWebKeystoreItem(userId: string, value: string, name?: string): Promise<void> {
+  const itemKey = getItemKey(userId, name);
+  const key = await getWrappingKey(userId);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(itemKey) },
+    key,
+    new TextEncoder().encode(value)
+  );
+  const item: SealedItem = { iv, ciphertext };
+  await putInStore(SEALED_ITEMS, itemKey, item);
+}
+
+/**
+ * Open the user's sealed value. Returns null if there is none.
+ */
+export async function readWebKeystoreItem(userId: string, name?: string): Promise<string | null> {
+  const itemKey = getItemKey(userId, name);
+  const item = await getFromStore<SealedItem>(SEALED_ITEMS, itemKey);
+  if (!item) return null;
+  const key = await getWrappingKey(userId);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: new Uint8Array(item.iv), additionalData: additionalData(itemKey) },
+    key,
+    item.ciphertext
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Delete the user's sealed value, and the wrapping key once no other item
+ * of the user's needs it
+ */
+export async function deleteWebKeystoreItem(userId: string, name?: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([WRAPPING_KEYS, SEALED_ITEMS], 'readwrite');
+  const items = tx.objectStore(SEALED_ITEMS);
+  items.delete(getItemKey(userId, name));
+  const remaining = items.getAllKeys();
+  remaining.onsuccess = () => {
+    if (!remaining.result.some((itemKey) => isUserItemKey(userId, itemKey))) {
+      wrappingKeys.delete(userId);
+      tx.objectStore(WRAPPING_KEYS).delete(userId);
+    }
+  };
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,105 @@
+import * as nacl from 'tweetnacl';
+import * as naclUtil from 'tweetnacl-util';
+import { concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { Keypair, PrekeyBundle, RatchetInit } from '../types';
+import { getCryptoProvider } from './cryptoProvider';
+
+/**
+ * X3DH initial key agreement (https://signal.org/docs/specifications/x3dh/)
+ *
+ * The initiator combines the responder's identity key, signed prekey and, when
+ * available, a one-time prekey with a fresh ephemeral key. The resulting secret
+ * seeds a Double Ratchet session (see utils/ratchet).
+ */
+
+const X3DH_INFO = utf8ToBytes('E2EChat-X3DH');
+
+const encode = naclUtil.encodeBase64;
+const decode = naclUtil.decodeBase64;
+
+function dh(privateKeyB64: string, publicKeyB64: string): Uint8Array {
+  return getCryptoProvider().scalarMult(decode(privateKeyB64), decode(publicKeyB64));
+}
+
+function kdf(dhOutputs: Uint8Array[]): Uint8Array {
+  // 32 0xFF bytes prefix for domain separation from XEdDSA, as in the spec
+  const ikm = concatBytes(new Uint8Array(32).fill(0xff), ...dhOutputs);
+  const secret = getCryptoProvider().hkdfSha256(ikm, new Uint8Array(32), X3DH_INFO, 32);
+  dhOutputs.forEach((output) => output.fill(0));
+  return secret;
+}
+
+/**
+ * Generate a prekey (X25519)
+ */
+export function generatePrekey(): Keypair {
+  const kp = getCryptoProvider().boxKeyPair();
+  return { publicKey: encode(kp.publicKey), privateKey: encode(kp.secretKey) };
+}
+
+/**
+ * Sign a prekey public key with the Ed25519 identity signing key
+ */
+export function signPrekey(signingPrivateKeyB64: string, prekeyPublicB64: string): string {
+  return encode(nacl.sign.detached(decode(prekeyPublicB64), decode(signingPrivateKeyB64)));
+}
+
+/**
+ * Verify a signed prekey against the owner's Ed25519 identity signing key
+ */
+export function verifyPrekeySignature(signingPublicB64: string, prekeyPublicB64: string, signatureB64: string): boolean {
+  try {
+    return nacl.sign.detached.verify(decode(prekeyPublicB64), decode(signatureB64), decode(signingPublicB64));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Initiator side: derive the shared secret from a peer's prekey bundle
+ */
+export function x3dhInitiate(identity: Keypair, bundle: PrekeyBundle): { sharedSecret: Uint8Array; init: RatchetInit } {
+  const { signedPrekey, oneTimePrekey } = bundle;
+  if (!verifyPrekeySignature(bundle.signingKey, signedPrekey.publicKey, signedPrekey.signature)) {
+    throw new Error('Invalid signed prekey signature');
+  }
+
+  const ephemeral = generatePrekey();
+  const dhOutputs = [
+    dh(identity.privateKey, signedPrekey.publicKey),
+    dh(ephemeral.privateKey, bundle.identityKey),
+    dh(ephemeral.privateKey, signedPrekey.publicKey),
+  ];
+  if (oneTimePrekey) {
+    dhOutputs.push(dh(ephemeral.privateKey, oneTimePrekey.publicKey));
+  }
+
+  const init: RatchetInit = { ik: identity.publicKey, ek: ephemeral.publicKey, spk: signedPrekey.keyId };
+  if (oneTimePrekey) {
+    init.opk = oneTimePrekey.keyId;
+  }
+  return { sharedSecret: kdf(dhOutputs), init };
+}
+
+/**
+ * Responder side: derive the same shared secret from the initiator's init block
+ */
+export function x3dhRespond(
+  identity: Keypair,
+  signedPrekey: Keypair,
+  oneTimePrekey: Keypair | null,
+  init: RatchetInit
+): Uint8Array {
+  if (!init.ek) {
+    throw new Error('Missing X3DH ephemeral key');
+  }
+  const dhOutputs = [
+    dh(signedPrekey.privateKey, init.ik),
+    dh(identity.privateKey, init.ek),
+    dh(signedPrekey.privateKey, init.ek),
+  ];
+  if (oneTimePrekey) {
+    dhOutputs.push(dh(oneTimePrekey.privateKey, init.ek));
+  }
+  return kdf(dhOutputs);
+}
@@ -0,0 +1,4 @@
+-- encrypted_private_key now holds a versioned JSON envelope:
+-- {"version":1,"kdf":{"alg":"scrypt"|"pbkdf2-sha256",...,"salt":...},"nonce":...,"ciphertext":...}
+-- Legacy {"encryptedKey","salt","nonce"} blobs are upgraded by the client on the next unlock.
+COMMENT ON COLUMN users.encrypted_private_key IS 'Versioned key backup envelope encrypted with a password-derived key (scrypt, PBKDF2-HMAC-SHA256 fallback). Never store plaintext private keys.';
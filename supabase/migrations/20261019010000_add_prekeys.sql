@@ -0,0 +1,107 @@
+-- X3DH prekeys: signed prekeys and one-time prekeys published next to users.public_key
+
+-- Ed25519 identity key used to sign prekeys
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS signing_public_key TEXT;
+
+CREATE TABLE IF NOT EXISTS public.signed_prekeys (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  key_id INTEGER NOT NULL,
+  public_key TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, key_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.one_time_prekeys (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  key_id INTEGER NOT NULL,
+  public_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, key_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_signed_prekeys_latest ON public.signed_prekeys(user_id, created_at DESC);
+
+ALTER TABLE public.signed_prekeys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.one_time_prekeys ENABLE ROW LEVEL SECURITY;
+
+-- Signed prekeys are public, like users.public_key
+CREATE POLICY "Users can view signed prekeys" ON public.signed_prekeys
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can insert own signed prekeys" ON public.signed_prekeys
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own signed prekeys" ON public.signed_prekeys
+  FOR DELETE USING (user_id = auth.uid());
+
+-- One-time prekeys are only readable by their owner; others claim them via claim_prekey_bundle
+CREATE POLICY "Users can view own one-time prekeys" ON public.one_time_prekeys
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own one-time prekeys" ON public.one_time_prekeys
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own one-time prekeys" ON public.one_time_prekeys
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Return a user's prekey bundle, consuming one one-time prekey atomically
+CREATE OR REPLACE FUNCTION public.claim_prekey_bundle(target_user UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  identity RECORD;
+  spk RECORD;
+  opk RECORD;
+  opk_json JSONB := NULL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT public_key, signing_public_key INTO identity
+  FROM public.users WHERE id = target_user;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT key_id, public_key, signature INTO spk
+  FROM public.signed_prekeys
+  WHERE user_id = target_user
+  ORDER BY created_at DESC
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.one_time_prekeys
+  WHERE (user_id, key_id) = (
+    SELECT user_id, key_id FROM public.one_time_prekeys
+    WHERE user_id = target_user
+    ORDER BY key_id
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING key_id, public_key INTO opk;
+  IF FOUND THEN
+    opk_json := jsonb_build_object('key_id', opk.key_id, 'public_key', opk.public_key);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'identity_key', identity.public_key,
+    'signing_key', identity.signing_public_key,
+    'signed_prekey', jsonb_build_object(
+      'key_id', spk.key_id,
+      'public_key', spk.public_key,
+      'signature', spk.signature
+    ),
+    'one_time_prekey', opk_json
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_prekey_bundle(UUID) TO authenticated;
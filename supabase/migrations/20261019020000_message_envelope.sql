@@ -0,0 +1,7 @@
+-- Message ciphertexts are versioned binary envelopes (see src/utils/envelope.ts).
+-- Legacy rows keep "ciphertext:nonce" strings with keys in the ephemeral_pubkey columns.
+
+COMMENT ON COLUMN messages.ciphertext IS 'Base64 versioned envelope (version, algorithm, header, nonce, ciphertext) for the recipient. Legacy rows: "ciphertext:nonce".';
+COMMENT ON COLUMN messages.ciphertext_sender IS 'Base64 versioned envelope for the sender''s own copy. Legacy rows: "ciphertext:nonce".';
+COMMENT ON COLUMN messages.ephemeral_pubkey IS 'Legacy only: ephemeral key for "ciphertext:nonce" rows. New envelopes carry their keys in the header.';
+COMMENT ON COLUMN messages.ephemeral_pubkey_sender IS 'Legacy only: ephemeral key for "ciphertext:nonce" sender copies.';
@@ -0,0 +1,7 @@
+-- Identity key rotation: signed notices let contacts follow a new public_key.
+-- Retired private keys stay inside the encrypted key backup so old messages still decrypt.
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS identity_rotations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.users.identity_rotations IS 'Recent key rotation notices ({previous_public_key, public_key, rotated_at, signature}), each signed with signing_public_key.';
@@ -0,0 +1,7 @@
+-- Recovery phrase: a second copy of the key backup, sealed with a key derived
+-- from a 24-word phrase the user writes down, for when the password is lost.
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS recovery_key_backup TEXT;
+
+COMMENT ON COLUMN public.users.recovery_key_backup IS 'Key backup sealed with the recovery phrase key ({version, salt, nonce, ciphertext}); NULL if no phrase was set up.';
@@ -0,0 +1,168 @@
+-- Multi-device: each device has its own X25519/Ed25519 keys, certified by the
+-- account's signing key. Prekeys and Double Ratchet sessions are per device, and
+-- messages carry one envelope per recipient and sender device.
+
+CREATE TABLE IF NOT EXISTS public.devices (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  signing_public_key TEXT NOT NULL,
+  -- users.signing_public_key over (user_id, id, public_key, signing_public_key)
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_devices_user ON public.devices(user_id);
+
+ALTER TABLE public.devices ENABLE ROW LEVEL SECURITY;
+
+-- Device keys are public, like users.public_key
+CREATE POLICY "Users can view devices" ON public.devices
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can register own devices" ON public.devices
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND revoked_at IS NULL);
+
+-- Rows are never deleted: revoked devices stay so their old messages still verify
+CREATE POLICY "Users can update own devices" ON public.devices
+  FOR UPDATE USING (user_id = auth.uid());
+
+-- A device's keys never change, and a revoked device stays revoked
+CREATE OR REPLACE FUNCTION public.protect_device_keys()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Device has been revoked';
+  END IF;
+  IF NEW.user_id <> OLD.user_id
+    OR NEW.public_key <> OLD.public_key
+    OR NEW.signing_public_key <> OLD.signing_public_key THEN
+    RAISE EXCEPTION 'Device keys cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_device_keys ON public.devices;
+CREATE TRIGGER protect_device_keys
+  BEFORE UPDATE ON public.devices
+  FOR EACH ROW EXECUTE FUNCTION public.protect_device_keys();
+
+-- Prekeys now belong to a device. Account-level prekeys are dropped; every
+-- device publishes its own on the next unlock.
+DELETE FROM public.signed_prekeys;
+DELETE FROM public.one_time_prekeys;
+
+ALTER TABLE public.signed_prekeys
+ADD COLUMN IF NOT EXISTS device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE;
+ALTER TABLE public.one_time_prekeys
+ADD COLUMN IF NOT EXISTS device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE;
+
+ALTER TABLE public.signed_prekeys DROP CONSTRAINT IF EXISTS signed_prekeys_pkey;
+ALTER TABLE public.signed_prekeys ADD PRIMARY KEY (device_id, key_id);
+ALTER TABLE public.one_time_prekeys DROP CONSTRAINT IF EXISTS one_time_prekeys_pkey;
+ALTER TABLE public.one_time_prekeys ADD PRIMARY KEY (device_id, key_id);
+
+DROP INDEX IF EXISTS public.idx_signed_prekeys_latest;
+CREATE INDEX IF NOT EXISTS idx_signed_prekeys_latest ON public.signed_prekeys(device_id, created_at DESC);
+
+-- Prekeys may only be published for one's own active devices
+DROP POLICY IF EXISTS "Users can insert own signed prekeys" ON public.signed_prekeys;
+CREATE POLICY "Users can insert own signed prekeys" ON public.signed_prekeys
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND EXISTS (
+      SELECT 1 FROM public.devices
+      WHERE devices.id = signed_prekeys.device_id
+      AND devices.user_id = auth.uid()
+      AND devices.revoked_at IS NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert own one-time prekeys" ON public.one_time_prekeys;
+CREATE POLICY "Users can insert own one-time prekeys" ON public.one_time_prekeys
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND EXISTS (
+      SELECT 1 FROM public.devices
+      WHERE devices.id = one_time_prekeys.device_id
+      AND devices.user_id = auth.uid()
+      AND devices.revoked_at IS NULL
+    )
+  );
+
+-- Return a device's prekey bundle, consuming one one-time prekey atomically
+DROP FUNCTION IF EXISTS public.claim_prekey_bundle(UUID);
+CREATE FUNCTION public.claim_prekey_bundle(target_device UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  device RECORD;
+  spk RECORD;
+  opk RECORD;
+  opk_json JSONB := NULL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT public_key, signing_public_key INTO device
+  FROM public.devices WHERE id = target_device AND revoked_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT key_id, public_key, signature INTO spk
+  FROM public.signed_prekeys
+  WHERE device_id = target_device
+  ORDER BY created_at DESC
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.one_time_prekeys
+  WHERE (device_id, key_id) = (
+    SELECT device_id, key_id FROM public.one_time_prekeys
+    WHERE device_id = target_device
+    ORDER BY key_id
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING key_id, public_key INTO opk;
+  IF FOUND THEN
+    opk_json := jsonb_build_object('key_id', opk.key_id, 'public_key', opk.public_key);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'identity_key', device.public_key,
+    'signing_key', device.signing_public_key,
+    'signed_prekey', jsonb_build_object(
+      'key_id', spk.key_id,
+      'public_key', spk.public_key,
+      'signature', spk.signature
+    ),
+    'one_time_prekey', opk_json
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_prekey_bundle(UUID) TO authenticated;
+
+-- Messages: one envelope per device replaces ciphertext / ciphertext_sender
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS sender_device UUID REFERENCES public.devices(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS device_ciphertexts JSONB;
+
+ALTER TABLE public.messages ALTER COLUMN ciphertext DROP NOT NULL;
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_has_ciphertext CHECK (ciphertext IS NOT NULL OR device_ciphertexts IS NOT NULL);
+
+COMMENT ON COLUMN public.messages.sender_device IS 'Device the message was sent from; its Double Ratchet sessions produced device_ciphertexts.';
+COMMENT ON COLUMN public.messages.device_ciphertexts IS 'Device id -> base64 envelope, for every active device of the recipient and the sender. Legacy rows use ciphertext / ciphertext_sender.';
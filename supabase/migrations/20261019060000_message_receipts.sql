@@ -0,0 +1,62 @@
+-- Delivery and read receipts: the recipient acknowledges a message when it
+-- reaches one of their devices and when it is shown. Timestamps are set by the
+-- server; clients only flip the flags.
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.messages.delivered_at IS 'When a recipient device first received the message; set by protect_message_receipts.';
+COMMENT ON COLUMN public.messages.read_at IS 'When the recipient first read the message; stays null if they turned read receipts off.';
+
+-- The recipient may update messages sent to them, limited to receipts by the trigger below
+CREATE POLICY "Recipients can acknowledge messages" ON public.messages
+  FOR UPDATE USING (
+    sender <> auth.uid() AND EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE conversations.id = messages.conversation_id
+      AND (conversations.user_a = auth.uid() OR conversations.user_b = auth.uid())
+    )
+  );
+
+-- Recipients can only acknowledge, senders can't fake receipts, and receipts
+-- never go back
+CREATE OR REPLACE FUNCTION public.protect_message_receipts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  receipt_columns TEXT[] := ARRAY['delivered', 'read', 'delivered_at', 'read_at'];
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.sender THEN
+    IF (to_jsonb(NEW) - receipt_columns) IS DISTINCT FROM (to_jsonb(OLD) - receipt_columns) THEN
+      RAISE EXCEPTION 'Recipients can only update receipts';
+    END IF;
+  ELSE
+    NEW.delivered := OLD.delivered;
+    NEW.read := OLD.read;
+  END IF;
+
+  IF NEW.read AND NOT OLD.read THEN
+    NEW.read_at := NOW();
+    -- A read message was delivered too
+    NEW.delivered := TRUE;
+  ELSE
+    NEW.read := OLD.read;
+    NEW.read_at := OLD.read_at;
+  END IF;
+
+  IF NEW.delivered AND NOT OLD.delivered THEN
+    NEW.delivered_at := NOW();
+  ELSE
+    NEW.delivered := OLD.delivered;
+    NEW.delivered_at := OLD.delivered_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_message_receipts ON public.messages;
+CREATE TRIGGER protect_message_receipts
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.protect_message_receipts();
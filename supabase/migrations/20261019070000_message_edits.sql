@@ -0,0 +1,97 @@
+-- Message edits: the sender replaces a message's encrypted content with a new
+-- signed envelope. The version it replaces is archived, still encrypted, in
+-- message_revisions by the trigger below, so clients can't skip it.
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.messages.edited_at IS 'When the current content was written by an edit; null if never edited. Set by archive_message_revision.';
+
+CREATE TABLE IF NOT EXISTS public.message_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  sender UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  sender_device UUID REFERENCES public.devices(id) ON DELETE SET NULL,
+  device_ciphertexts JSONB,
+  ciphertext TEXT,
+  ciphertext_sender TEXT,
+  ephemeral_pubkey TEXT,
+  ephemeral_pubkey_sender TEXT,
+  metadata JSONB,
+  -- The message's created_at and edited_at while this version was current
+  created_at TIMESTAMPTZ NOT NULL,
+  edited_at TIMESTAMPTZ,
+  replaced_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message ON public.message_revisions(message_id, replaced_at);
+
+COMMENT ON TABLE public.message_revisions IS 'Earlier versions of edited messages, as signed and encrypted by their sender. Written only by archive_message_revision.';
+
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions in their conversations" ON public.message_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE conversations.id = message_revisions.conversation_id
+      AND (conversations.user_a = auth.uid() OR conversations.user_b = auth.uid())
+    )
+  );
+
+-- How long after sending a message can be edited. The app hides the edit
+-- action after its own window (services/messaging), which should not exceed this.
+CREATE OR REPLACE FUNCTION public.message_edit_window()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT INTERVAL '15 minutes' $$;
+
+-- Archive the replaced content and stamp the edit. Receipt-only updates pass
+-- through untouched.
+CREATE OR REPLACE FUNCTION public.archive_message_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sender_device IS NOT DISTINCT FROM OLD.sender_device
+    AND NEW.device_ciphertexts IS NOT DISTINCT FROM OLD.device_ciphertexts
+    AND NEW.ciphertext IS NOT DISTINCT FROM OLD.ciphertext
+    AND NEW.ciphertext_sender IS NOT DISTINCT FROM OLD.ciphertext_sender
+    AND NEW.ephemeral_pubkey IS NOT DISTINCT FROM OLD.ephemeral_pubkey
+    AND NEW.ephemeral_pubkey_sender IS NOT DISTINCT FROM OLD.ephemeral_pubkey_sender
+    AND NEW.metadata IS NOT DISTINCT FROM OLD.metadata THEN
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  -- protect_message_receipts keeps recipients to receipts; this covers the sender
+  IF NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.sender IS DISTINCT FROM OLD.sender
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only the content of a message can be edited';
+  END IF;
+  IF NOW() > OLD.created_at + public.message_edit_window() THEN
+    RAISE EXCEPTION 'This message can no longer be edited';
+  END IF;
+
+  INSERT INTO public.message_revisions (
+    message_id, conversation_id, sender, sender_device, device_ciphertexts, ciphertext, ciphertext_sender,
+    ephemeral_pubkey, ephemeral_pubkey_sender, metadata, created_at, edited_at
+  ) VALUES (
+    OLD.id, OLD.conversation_id, OLD.sender, OLD.sender_device, OLD.device_ciphertexts, OLD.ciphertext,
+    OLD.ciphertext_sender, OLD.ephemeral_pubkey, OLD.ephemeral_pubkey_sender, OLD.metadata, OLD.created_at,
+    OLD.edited_at
+  );
+  NEW.edited_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS archive_message_revision ON public.messages;
+CREATE TRIGGER archive_message_revision
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.archive_message_revision();
@@ -0,0 +1,120 @@
+-- Delete for everyone: the sender turns a message into a tombstone. Clients
+-- only set deleted_at; the trigger below stamps it, wipes the encrypted content
+-- and drops the message's earlier versions.
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.messages.deleted_at IS 'When the sender deleted the message for everyone; the row stays as a tombstone without content.';
+
+-- Tombstones have no ciphertext
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_has_ciphertext;
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_has_ciphertext CHECK (
+  deleted_at IS NOT NULL OR ciphertext IS NOT NULL OR device_ciphertexts IS NOT NULL
+);
+
+-- Named to run before the other BEFORE UPDATE triggers on messages (they fire
+-- in name order), so they see the tombstone rather than the deletion request
+CREATE OR REPLACE FUNCTION public.apply_message_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Tombstones never change again; late receipts and edits are skipped
+  IF OLD.deleted_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+  IF NEW.deleted_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF auth.uid() IS DISTINCT FROM OLD.sender THEN
+    RAISE EXCEPTION 'Only the sender can delete a message for everyone';
+  END IF;
+
+  NEW.deleted_at := NOW();
+  NEW.sender_device := NULL;
+  NEW.device_ciphertexts := NULL;
+  NEW.ciphertext := NULL;
+  NEW.ciphertext_sender := NULL;
+  NEW.ephemeral_pubkey := NULL;
+  NEW.ephemeral_pubkey_sender := NULL;
+  NEW.attached_files := NULL;
+  NEW.metadata := NULL;
+  NEW.edited_at := NULL;
+  DELETE FROM public.message_revisions WHERE message_id = OLD.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_message_tombstone ON public.messages;
+CREATE TRIGGER apply_message_tombstone
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.apply_message_tombstone();
+
+-- Same as before, except that wiping the content for a tombstone is not an edit
+CREATE OR REPLACE FUNCTION public.archive_message_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.sender_device IS NOT DISTINCT FROM OLD.sender_device
+    AND NEW.device_ciphertexts IS NOT DISTINCT FROM OLD.device_ciphertexts
+    AND NEW.ciphertext IS NOT DISTINCT FROM OLD.ciphertext
+    AND NEW.ciphertext_sender IS NOT DISTINCT FROM OLD.ciphertext_sender
+    AND NEW.ephemeral_pubkey IS NOT DISTINCT FROM OLD.ephemeral_pubkey
+    AND NEW.ephemeral_pubkey_sender IS NOT DISTINCT FROM OLD.ephemeral_pubkey_sender
+    AND NEW.metadata IS NOT DISTINCT FROM OLD.metadata THEN
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  -- protect_message_receipts keeps recipients to receipts; this covers the sender
+  IF NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.sender IS DISTINCT FROM OLD.sender
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only the content of a message can be edited';
+  END IF;
+  IF NOW() > OLD.created_at + public.message_edit_window() THEN
+    RAISE EXCEPTION 'This message can no longer be edited';
+  END IF;
+
+  INSERT INTO public.message_revisions (
+    message_id, conversation_id, sender, sender_device, device_ciphertexts, ciphertext, ciphertext_sender,
+    ephemeral_pubkey, ephemeral_pubkey_sender, metadata, created_at, edited_at
+  ) VALUES (
+    OLD.id, OLD.conversation_id, OLD.sender, OLD.sender_device, OLD.device_ciphertexts, OLD.ciphertext,
+    OLD.ciphertext_sender, OLD.ephemeral_pubkey, OLD.ephemeral_pubkey_sender, OLD.metadata, OLD.created_at,
+    OLD.edited_at
+  );
+  NEW.edited_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+-- Senders can remove the media they uploaded to their gallery folder, and
+-- legacy conversation media they uploaded
+CREATE POLICY "Users can delete media they uploaded"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'message-media'
+  AND (
+    (
+      (storage.foldername(name))[1] = 'galleries'
+      AND (storage.foldername(name))[2] = auth.uid()::text
+    )
+    OR
+    (
+      (storage.foldername(name))[1] = 'conversations'
+      AND owner = auth.uid()
+    )
+  )
+);
@@ -0,0 +1,4 @@
+-- History pages use a (created_at, id) cursor so messages sent in the same
+-- instant are neither skipped nor repeated at page boundaries
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_page ON public.messages(conversation_id, created_at, id);
+DROP INDEX IF EXISTS public.idx_messages_conversation;
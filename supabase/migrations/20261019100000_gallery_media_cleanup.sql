@@ -0,0 +1,24 @@
+-- Gallery entries point to files in the message-media bucket. When a file is
+-- removed (e.g. its message was deleted for everyone), its entries go with it,
+-- so neither participant's gallery keeps an item whose file no longer exists.
+
+CREATE OR REPLACE FUNCTION public.remove_gallery_items_of_media()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.bucket_id = 'message-media' THEN
+    DELETE FROM public.galleries WHERE file_path = OLD.name;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS remove_gallery_items_of_media ON storage.objects;
+CREATE TRIGGER remove_gallery_items_of_media
+  AFTER DELETE ON storage.objects
+  FOR EACH ROW EXECUTE FUNCTION public.remove_gallery_items_of_media();
+
+CREATE INDEX IF NOT EXISTS idx_galleries_file_path ON public.galleries(file_path);